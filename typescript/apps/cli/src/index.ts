@@ -12,13 +12,84 @@ import {
   toCsv,
   // dynamic
   DynamicBeamformingConfig,
+  ScanType,
+  WindowType,
   createSumBeamformer,
   createPointSourceGenerator,
+  createPulsedScattererGenerator,
+  createPhantomGenerator,
+  createQaPhantomFeatures,
+  phantomRegionForConfig,
+  PulseConfig,
+  PulseShape,
+  ScanlineGenerator,
+  DynamicBeamformer,
   runFrame,
+  runCompoundFrame,
+  CompoundingWave,
+  compoundingAngles,
+  runTfmFrame,
+  compareFrames,
+  frameRateHz,
+  FrameResult,
+  applyTgc,
+  tgcCurveFromGains,
+  tgcCurveForMedium,
+  MediumConfig,
   createDelayAndSumBeamformer,
   createDelayAndSumApodizedBeamformer,
+  createMinimumVarianceBeamformer,
+  createCoherenceBeamformer,
+  createDmasBeamformer,
+  createBasebandBeamformer,
+  runBasebandFrame,
+  isCoherenceBeamformer,
+  runCoherenceFrame,
+  CoherenceFrameResult,
+  CoherenceMethod,
+  runDopplerFrame,
+  colorFlowMap,
+  PhantomFeature,
+  runPwDoppler,
+  dopplerAudio,
+  ClutterFilter,
+  ClutterFilterReport,
+  Trajectory,
+  runCine,
+  runMMode,
+  scanConvert,
+  createScanConverter,
+  ScanConversionInterpolation,
+  encodeWav,
+  // display
+  DisplayOptions,
+  GrayMap,
+  COLOR_MAP_NAMES,
+  ColorMapName,
+  createGrayLevelMap,
+  peakAmplitude,
+  renderRgba,
+  renderFrame,
+  encodePng,
+  encodeUltrasoundDicom,
+  ScanConvertedImage,
+  // NumPy
+  NpyDtype,
+  npyFromNested,
+  npyToNested,
+  decodeNpy,
+  encodeNpz,
+  decodeNpz,
+  encodeMat,
+  profileToMatVariables,
+  frameToMatVariables,
+  createChannelDataGenerator,
+  recordChannelData,
+  ChannelData,
   // signal
   envelope,
+  InterpolationMethod,
+  compareInterpolators,
 } from "@aloe/core";
 import { NodeStorage } from "@aloe/adapters-node";
 import { parseCsvConfig } from "@aloe/core";
@@ -34,7 +105,7 @@ program
 const profiles = program.command("profiles").description("Static profile utilities");
 
 profiles.command("compute")
-  .description("Compute weights, delays, and pattern; export CSV")
+  .description("Compute weights, delays, and pattern; export CSV or a MATLAB .mat file")
   .option("-n, --elements <int>", "number of elements", (v)=>parseInt(v,10), 64)
   .option("-s, --spacing <number>", "spacing value (meters or wavelengths)", parseFloat, 0.5)
   .option("-u, --spacing-unit <unit>", "spacing unit (wavelength|meters)", "wavelength")
@@ -44,7 +115,8 @@ profiles.command("compute")
   .option("-w, --window <type>", "window (rectangular|hamming|triangular|chebyshev)", "hamming")
   .option("--cheb-sll <db>", "chebyshev sidelobe level in dB", parseFloat, 30)
   .option("--angles <start,end,step>", "angle sweep (deg)", "-90,90,0.25")
-  .option("-o, --out <file>", "output CSV file", "beamformer.csv")
+  .option("-o, --out <file>", "output file (default beamformer.csv, or beamformer.mat with --format mat)")
+  .option("--format <type>", "csv|mat", "csv")
   .option("--from-csv <file>", "load a previously saved CSV to reuse its config/weights")
   .action(async (opts) => {
     let cfg: ProfileConfig = {
@@ -80,75 +152,755 @@ profiles.command("compute")
     const profile = computeProfile(cfg as any);
     const pattern = computePattern(cfg as any, sweep);
 
-    const csv = toCsv({ config: cfg as any, snapshot: profile, pattern });
     const st = new NodeStorage();
-    await st.saveText(opts.out, csv);
-    console.log(`Wrote ${opts.out}`);
+    if (opts.format === "mat") {
+      const out = opts.out ?? "beamformer.mat";
+      await st.saveBinary(out, encodeMat(profileToMatVariables({ config: cfg, snapshot: profile, pattern })));
+      console.log(`Wrote ${out} (config, weights, delays, pattern)`);
+      return;
+    }
+    if (opts.format !== "csv") {
+      console.error(`Unknown format ${opts.format} (expected csv or mat)`);
+      process.exit(1);
+    }
+    const out = opts.out ?? "beamformer.csv";
+    const csv = toCsv({ config: cfg as any, snapshot: profile, pattern });
+    await st.saveText(out, csv);
+    console.log(`Wrote ${out}`);
   });
 
 // dynamic subcommand group
 const dynamic = program.command("dynamic").description("Dynamic beamforming simulation");
 
-dynamic.command("simulate")
-  .description("Simulate one frame with point-source generator and selected beamformer")
-  .option("--scan-type <t>", "linear|phased", "phased")
-  .option("--scan-lines <int>", "number of scan lines", (v)=>parseInt(v,10), 40)
-  .option("--range <min,max>", "range (deg for phased, meters for linear)", "-10,10")
-  .option("--samples <int>", "samples per scan line", (v)=>parseInt(v,10), 1024)
-  .option("--elements <int>", "array elements", (v)=>parseInt(v,10), 64)
-  .option("--spacing <m>", "element spacing (m)", parseFloat, 0.0005)
-  .option("--dt <s>", "time step (s)", parseFloat, 1e-7)
-  .option("--c <mps>", "propagation speed (m/s)", parseFloat, 1540)
-  .option("--freq <hz>", "source frequency (Hz)", parseFloat, 5_000_000)
-  .option("--offset <val>", "offset within range (deg for phased, m for linear)", parseFloat, 0)
-  .option("--speed <mps>", "point-source radial speed (m/s)", parseFloat, 1540)
-  .option("--bf <type>", "beamformer: sum|delay|delay-apod (default: delay)", "delay")
-  .option("--window <type>", "apodization window (rectangular|hamming|triangular|chebyshev)", "hamming")
-  .option("--cheb-sll <db>", "chebyshev sidelobe dB (used if window=chebyshev)", parseFloat, 30)
-  .option("--envelope", "apply Hilbert envelope to each scanline")
-  .action(async (opts) => {
-    const [rmin, rmax] = String(opts.range).split(",").map(Number);
-    const cfg: DynamicBeamformingConfig = {
-      /** seconds */
-      timeStep: opts.dt,
-      /** meters per second */
-      propagationSpeed: opts.c,
-      scanning: {
-        numScanLines: opts.scanLines,
-        type: opts.scanType,
-        range: [rmin, rmax],
-        samples: opts.samples,
-      },
-      array: {
-        elements: opts.elements,
-        /** meters */
-        elementSpacing: opts.spacing,
-      },
+/**
+ * Values of the options added by addAcquisitionOptions, as commander parses them. The
+ * string-literal options hold whatever was typed until buildDynamicConfig has checked them.
+ */
+interface AcquisitionOptions {
+  scanType: ScanType;
+  scanLines: number;
+  range: string;
+  samples: number;
+  elements: number;
+  spacing: number;
+  active?: number;
+  dt: number;
+  c: number;
+  freq: number;
+  offset: number;
+  speed: number;
+  gen: string;
+  channels?: string;
+  scatterers: string;
+  pulse: PulseShape;
+  bw?: number;
+  cycles?: number;
+  waveform?: string;
+  seed: number;
+  density: number;
+  vessel?: string;
+  motion?: string;
+  interp: InterpolationMethod;
+  window: WindowType;
+  chebSll: number;
+  mvSubarray?: number;
+  mvLoading?: number;
+  mvTemporal?: number;
+  coherence?: CoherenceMethod;
+  gcfCutoff: number;
+  pcfGamma: number;
+  atten?: number;
+  layers?: string;
+  tgc?: string;
+  tgcAuto?: boolean;
+  envelope?: boolean;
+  image?: string;
+  imageWidth: number;
+  imageInterp: ScanConversionInterpolation;
+  imageLevels?: boolean;
+  gain: number;
+  dynamicRange: number;
+  grayMap: string;
+  colormap?: ColorMapName;
+  png?: string;
+  pngSize: string;
+  pngScale: number;
+  annotate: boolean;
+  dicom?: string;
+  preview?: boolean;
+  previewWidth: number;
+}
+
+/** Acquisition options of the subcommands that fire scanlines through a --bf beamformer. */
+interface BeamformerOptions extends AcquisitionOptions {
+  bf: string;
+}
+
+/** Options shared by every frame-acquisition subcommand (geometry, generator, medium, display). */
+function addAcquisitionOptions(cmd: Command): Command {
+  return cmd
+    .option("--scan-type <t>", "linear|phased", "phased")
+    .option("--scan-lines <int>", "number of scan lines", (v)=>parseInt(v,10), 40)
+    .option("--range <min,max>", "range (deg for phased, meters for linear)", "-10,10")
+    .option("--samples <int>", "samples per scan line", (v)=>parseInt(v,10), 1024)
+    .option("--elements <int>", "array elements", (v)=>parseInt(v,10), 64)
+    .option("--spacing <m>", "element spacing (m)", parseFloat, 0.0005)
+    .option("--active <int>", "active sub-aperture size for linear scans (default: half the array)", (v)=>parseInt(v,10))
+    .option("--dt <s>", "time step (s)", parseFloat, 1e-7)
+    .option("--c <mps>", "propagation speed (m/s)", parseFloat, 1540)
+    .option("--freq <hz>", "source frequency (Hz)", parseFloat, 5_000_000)
+    .option("--offset <val>", "offset within range (deg for phased, m for linear)", parseFloat, 0)
+    .option("--speed <mps>", "point-source radial speed (m/s)", parseFloat, 1540)
+    .option("--gen <type>", "generator: point|pulsed|phantom|channels (default: point)", "point")
+    .option("--channels <file>", "channel data for --gen channels: .npy of shape [scanlines][samples][elements], or .npz with a channel_data array")
+    .option("--scatterers <x,z[,vx,vz];...>", "pulsed scatterer positions in meters, with optional velocities (m/s, vz away from the array)", "0,0.01;0,0.02;0.005,0.025")
+    .option("--pulse <shape>", "pulse shape: gaussian|tone-burst|custom", "gaussian")
+    .option("--bw <frac>", "pulse fractional bandwidth", parseFloat)
+    .option("--cycles <int>", "tone-burst cycles", (v)=>parseInt(v,10))
+    .option("--waveform <file>", "custom pulse samples (comma/newline separated, sampled at --dt)")
+    .option("--seed <int>", "phantom random seed", (v)=>parseInt(v,10), 1)
+    .option("--density <n>", "phantom speckle density (scatterers per mm^2)", parseFloat, 2)
+    .option("--vessel <x,z,r,deg,vmax>", "add a flowing vessel to the phantom: centre and radius (m), axis angle (deg), peak velocity (m/s)")
+    .option("--motion <type:params>", "move every pulsed/phantom scatterer: constant:vx,vz | sinusoidal:ax,az,hz[,phaseDeg] | rotation:cx,cz,degPerS")
+    .option("--interp <method>", "fractional-delay interpolation: nearest|linear|cubic|lagrange|sinc|farrow", "linear")
+    .option("--window <type>", "apodization window (rectangular|hamming|triangular|chebyshev)", "hamming")
+    .option("--cheb-sll <db>", "chebyshev sidelobe dB (used if window=chebyshev)", parseFloat, 30)
+    .option("--mv-subarray <int>", "minimum-variance subarray length (default: half the aperture)", (v)=>parseInt(v,10))
+    .option("--mv-loading <frac>", "minimum-variance diagonal loading (fraction of mean channel power)", parseFloat)
+    .option("--mv-temporal <int>", "minimum-variance temporal averaging (samples either side)", (v)=>parseInt(v,10))
+    .option("--coherence <method>", "weight the beamformer output by a coherence factor: cf|gcf|pcf")
+    .option("--gcf-cutoff <bins>", "GCF low-frequency cutoff (spatial bins either side of DC)", (v)=>parseInt(v,10), 1)
+    .option("--pcf-gamma <g>", "PCF sensitivity", parseFloat, 1)
+    .option("--atten <db>", "medium attenuation (dB/cm/MHz)", parseFloat)
+    .option("--layers <depth:db;...>", "attenuation layers: start depth (m) and dB/cm/MHz, e.g. 0.01:0.9;0.02:0.5 (requires --atten)")
+    .option("--tgc <db,db,...>", "TGC gains (dB) at evenly spaced depths")
+    .option("--tgc-auto", "TGC that compensates the medium attenuation (requires --atten)")
+    .option("--envelope", "apply Hilbert envelope to each scanline")
+    .option("--image <file>", "write the scan-converted frame as CSV (rows: depth, columns: lateral position, both in mm)")
+    .option("--image-width <px>", "scan-converted image width", (v)=>parseInt(v,10), 256)
+    .option("--image-interp <method>", "scan-conversion interpolation: nearest|bilinear|bicubic", "bilinear")
+    .option("--image-levels", "write display gray levels (0..1, after log compression and the gray map) to --image instead of amplitudes")
+    .option("--gain <db>", "display gain added to every echo level (dB)", parseFloat, 0)
+    .option("--dynamic-range <db>", "display dynamic range between black and white (dB)", parseFloat, 60)
+    .option("--gray-map <map>", "gray map: linear | gamma:g | s-curve[:contrast[,midpoint]]", "linear")
+    .option("--colormap <name>", "colour map for --preview, --png and --dicom: grayscale|sepia|hot|turbo|viridis (default: turbo for --png, as in the web viewer; grayscale otherwise)")
+    .option("--png <file>", "render the frame as the web viewer draws it (scan converted, log compressed, annotated) to a PNG file")
+    .option("--png-size <w,h>", "PNG size in display pixels, multiplied by --png-scale", "700,300")
+    .option("--png-scale <ratio>", "PNG pixels per display pixel", (v)=>parseInt(v,10), 2)
+    .option("--no-annotate", "leave the scan outline, ticks, dB bar and stats off the PNG")
+    .option("--dicom <file>", "write the scan-converted, log-compressed frame (a cine: all frames) as a DICOM ultrasound image, --image-width wide")
+    .option("--preview", "print the scan-converted frame in the terminal (24-bit colour)")
+    .option("--preview-width <cols>", "preview width in characters", (v)=>parseInt(v,10), 80);
+}
+
+function parseGrayMap(spec: string): GrayMap {
+  const [type, params = ""] = spec.split(":");
+  const v = params.split(",").filter(Boolean).map(Number);
+  if (v.some((x) => !Number.isFinite(x))) {
+    console.error(`--gray-map ${spec}: parameters must be numbers`);
+    process.exit(1);
+  }
+  switch (type) {
+    case "linear": return { type };
+    case "gamma": {
+      const gamma = v[0] ?? 1;
+      if (!(gamma > 0)) {
+        console.error(`--gray-map gamma must be positive, got ${gamma}`);
+        process.exit(1);
+      }
+      return { type, gamma };
+    }
+    case "s-curve": return { type, contrast: v[0], midpoint: v[1] };
+    default:
+      console.error(`Unknown --gray-map ${type} (expected linear, gamma:g or s-curve[:contrast[,midpoint]])`);
+      process.exit(1);
+  }
+}
+
+function buildDisplayOptions(opts: AcquisitionOptions): DisplayOptions {
+  return { gainDb: opts.gain, dynamicRangeDb: opts.dynamicRange, grayMap: parseGrayMap(String(opts.grayMap)) };
+}
+
+/** Scan convert envelope lines and map them to display gray levels against their own peak. */
+function displayImage(env: number[][], cfg: DynamicBeamformingConfig, opts: AcquisitionOptions): ScanConvertedImage {
+  const level = createGrayLevelMap(peakAmplitude(env), buildDisplayOptions(opts));
+  const img = createScanConverter(cfg, { width: opts.imageWidth, interpolation: opts.imageInterp }).convert(env);
+  return { ...img, pixels: img.pixels.map((row) => row.map(level)) };
+}
+
+async function writeDicom(file: string, images: ScanConvertedImage[], opts: AcquisitionOptions, frameTimeMs?: number): Promise<void> {
+  const bytes = encodeUltrasoundDicom(images, { colorMap: opts.colormap, transducerFrequencyHz: opts.freq, frameTimeMs });
+  await new NodeStorage().saveBinary(file, bytes);
+  console.log(`Wrote ${file} (${images[0].xM.length}x${images[0].zM.length}, ${images.length} frame${images.length > 1 ? "s" : ""})`);
+}
+
+function buildDynamicConfig(opts: AcquisitionOptions): DynamicBeamformingConfig {
+  if (!["nearest", "linear", "cubic", "lagrange", "sinc", "farrow"].includes(opts.interp)) {
+    console.error(`Unknown --interp ${opts.interp} (expected nearest, linear, cubic, lagrange, sinc or farrow)`);
+    process.exit(1);
+  }
+  if (opts.coherence !== undefined && !["cf", "gcf", "pcf"].includes(opts.coherence)) {
+    console.error(`Unknown --coherence ${opts.coherence} (expected cf, gcf or pcf)`);
+    process.exit(1);
+  }
+  // the display options are checked here, before any frame runs, although only the display uses them
+  if (!["nearest", "bilinear", "bicubic"].includes(opts.imageInterp)) {
+    console.error(`Unknown --image-interp ${opts.imageInterp} (expected nearest, bilinear or bicubic)`);
+    process.exit(1);
+  }
+  if (opts.colormap !== undefined && !COLOR_MAP_NAMES.includes(opts.colormap)) {
+    console.error(`Unknown --colormap ${opts.colormap} (expected ${COLOR_MAP_NAMES.join(", ")})`);
+    process.exit(1);
+  }
+  parseGrayMap(String(opts.grayMap));
+  if (opts.active !== undefined && !(Number.isInteger(opts.active) && opts.active >= 1 && opts.active <= opts.elements)) {
+    console.error(`--active must be between 1 and the ${opts.elements} elements, got ${opts.active}`);
+    process.exit(1);
+  }
+  const [rmin, rmax] = String(opts.range).split(",").map(Number);
+  if (opts.atten === undefined && (opts.layers || opts.tgcAuto)) {
+    console.error(`${opts.layers ? "--layers" : "--tgc-auto"} needs a medium: set its attenuation with --atten <db>`);
+    process.exit(1);
+  }
+  let medium: MediumConfig | undefined;
+  if (opts.atten !== undefined) {
+    medium = { attenuationDbPerCmMHz: opts.atten };
+    if (opts.layers) {
+      medium.layers = String(opts.layers).split(";").filter(Boolean).map((l) => {
+        const [startDepth, attenuationDbPerCmMHz] = l.split(":").map(Number);
+        return { startDepth, attenuationDbPerCmMHz };
+      });
+    }
+  }
+  return {
+    /** seconds */
+    timeStep: opts.dt,
+    /** meters per second */
+    propagationSpeed: opts.c,
+    scanning: {
+      numScanLines: opts.scanLines,
+      type: opts.scanType,
+      range: [rmin, rmax],
+      samples: opts.samples,
+    },
+    array: {
+      elements: opts.elements,
+      /** meters */
+      elementSpacing: opts.spacing,
+      activeElements: opts.active,
+    },
+    medium,
+  };
+}
+
+/** Parse a --motion spec such as "sinusoidal:0,0.002,1.2" into a trajectory. */
+function parseTrajectory(spec: string | undefined): Trajectory | undefined {
+  if (!spec) return undefined;
+  const [type, params = ""] = spec.split(":");
+  const v = params.split(",").filter(Boolean).map(Number);
+  const usage: Record<string, string> = { constant: "constant:vx,vz", sinusoidal: "sinusoidal:ax,az,hz[,phaseDeg]", rotation: "rotation:cx,cz,degPerS" };
+  if (!(type in usage)) {
+    console.error(`Unknown --motion ${type} (expected ${Object.values(usage).join(" | ")})`);
+    process.exit(1);
+  }
+  if (v.some((x) => !Number.isFinite(x)) || v.length > usage[type].split(",").length) {
+    console.error(`--motion ${spec}: expected ${usage[type]} with numeric parameters`);
+    process.exit(1);
+  }
+  switch (type) {
+    case "constant": return { type, vx: v[0], vz: v[1] };
+    case "sinusoidal": return { type, amplitude: { x: v[0] ?? 0, z: v[1] ?? 0 }, frequencyHz: v[2] ?? 1, phaseDeg: v[3] };
+    default: return { type: "rotation", center: { x: v[0] ?? 0, z: v[1] ?? 0 }, angularVelocityDegPerS: v[2] ?? 0 };
+  }
+}
+
+async function buildGenerator(opts: AcquisitionOptions, cfg: DynamicBeamformingConfig): Promise<ScanlineGenerator> {
+  if (opts.gen === "channels") {
+    const bytes = opts.channels ? await new NodeStorage().loadBinary(opts.channels) : null;
+    if (!bytes) {
+      console.error(`Could not load channel data ${opts.channels ?? "(set --channels)"}`);
+      process.exit(1);
+    }
+    const array = String(opts.channels).endsWith(".npz") ? decodeNpz(bytes).channel_data : decodeNpy(bytes);
+    if (!array || array.shape.length !== 3) {
+      console.error(`${opts.channels} must hold a 3-d array [scanlines][samples][elements]${array ? `, got shape (${array.shape.join(", ")})` : " named channel_data"}`);
+      process.exit(1);
+    }
+    const expected = [cfg.scanning.numScanLines, cfg.scanning.samples, cfg.array.elements];
+    if (array.shape.some((d, k) => d !== expected[k])) {
+      console.error(`${opts.channels} holds shape (${array.shape.join(", ")}), the config needs (${expected.join(", ")}): set --scan-lines, --samples and --elements to match`);
+      process.exit(1);
+    }
+    return createChannelDataGenerator(npyToNested(array) as ChannelData);
+  }
+  if (opts.gen === "pulsed" || opts.gen === "phantom") {
+    if (!["gaussian", "tone-burst", "custom"].includes(opts.pulse)) {
+      console.error(`Unknown pulse shape ${opts.pulse} (expected gaussian, tone-burst or custom)`);
+      process.exit(1);
+    }
+    if (opts.pulse === "custom" && !opts.waveform) {
+      console.error("--pulse custom needs the pulse samples from --waveform <file>");
+      process.exit(1);
+    }
+    const pulse: PulseConfig = {
+      shape: opts.pulse,
+      centerFrequencyHz: opts.freq,
+      fractionalBandwidth: opts.bw,
+      cycles: opts.cycles,
     };
+    if (opts.waveform) {
+      const txt = await new NodeStorage().loadText(opts.waveform);
+      if (!txt) {
+        console.error(`Could not load ${opts.waveform}`);
+        process.exit(1);
+      }
+      pulse.waveform = txt.split(/[\s,]+/).filter(Boolean).map(Number);
+      if (pulse.waveform.length === 0 || pulse.waveform.some((v) => !Number.isFinite(v))) {
+        console.error(`${opts.waveform} must hold comma/newline separated numbers`);
+        process.exit(1);
+      }
+      pulse.waveformTimeStep = opts.dt;
+    }
+    if (opts.gen === "phantom") {
+      const region = phantomRegionForConfig(cfg);
+      const features: PhantomFeature[] = createQaPhantomFeatures(region, opts.density);
+      if (opts.vessel) {
+        const [x, z, radius, angleDeg, peakVelocity] = String(opts.vessel).split(",").map(Number);
+        // twice the region width so the blood keeps filling the view as it flows
+        const length = 2 * (region.xMax - region.xMin + region.zMax - region.zMin);
+        features.push({ type: "vessel", center: { x, z }, radius, length, angleDeg, peakVelocity });
+      }
+      return createPhantomGenerator({ features, seed: opts.seed, pulse, motion: parseTrajectory(opts.motion) });
+    }
+    const trajectory = parseTrajectory(opts.motion);
+    const scatterers = String(opts.scatterers).split(";").filter(Boolean).map((p) => {
+      const [x, z, vx, vz] = p.split(",").map(Number);
+      return { x, z, vx, vz, trajectory };
+    });
+    return createPulsedScattererGenerator({ scatterers, pulse });
+  }
+  return createPointSourceGenerator({ offset: opts.offset, /** m/s */ speed: opts.speed, frequencyHz: opts.freq });
+}
+
+function buildBaseBeamformer(opts: BeamformerOptions): DynamicBeamformer {
+  const interpolation: InterpolationMethod = opts.interp;
+  switch (opts.bf) {
+    case "sum":
+      return createSumBeamformer();
+    case "delay-apod":
+      return createDelayAndSumApodizedBeamformer({ windowType: opts.window, chebyshevSidelobeDb: opts.chebSll, interpolation });
+    case "delay-dynamic":
+      return createDelayAndSumBeamformer({ focusing: "dynamic", interpolation });
+    case "delay-apod-dynamic":
+      return createDelayAndSumApodizedBeamformer({ windowType: opts.window, chebyshevSidelobeDb: opts.chebSll, focusing: "dynamic", interpolation });
+    case "mv":
+    case "mv-dynamic":
+      return createMinimumVarianceBeamformer({
+        subarrayLength: opts.mvSubarray,
+        diagonalLoading: opts.mvLoading,
+        temporalAveraging: opts.mvTemporal,
+        focusing: opts.bf === "mv-dynamic" ? "dynamic" : "fixed",
+        interpolation,
+      });
+    case "fdmas":
+    case "fdmas-dynamic":
+      return createDmasBeamformer({ centerFrequencyHz: opts.freq, focusing: opts.bf === "fdmas-dynamic" ? "dynamic" : "fixed", interpolation });
+    case "delay":
+    default:
+      return createDelayAndSumBeamformer({ interpolation });
+  }
+}
+
+function buildBeamformer(opts: BeamformerOptions): DynamicBeamformer {
+  const base = buildBaseBeamformer(opts);
+  if (!opts.coherence) return base;
+  return createCoherenceBeamformer(base, {
+    method: opts.coherence,
+    focusing: String(opts.bf).endsWith("dynamic") ? "dynamic" : "fixed",
+    gcfCutoff: opts.gcfCutoff,
+    pcfGamma: opts.pcfGamma,
+    interpolation: opts.interp,
+  });
+}
+
+/** Values of the options added by addClutterOptions, with the subcommand's --prf. */
+interface ClutterOptions {
+  wall: string;
+  wallCutoff?: number;
+  wallOrder?: number;
+  wallTaps: number;
+  svdRank: string;
+  prf: number;
+}
+
+/** Slow-time clutter filter options shared by the Doppler subcommands. */
+function addClutterOptions(cmd: Command): Command {
+  return cmd
+    .option("--wall <filter>", "clutter filter: none|mean|fir|iir|regression|svd", "mean")
+    .option("--wall-cutoff <hz>", "FIR/IIR wall filter cutoff (Hz) (default: PRF / 10)", parseFloat)
+    .option("--wall-order <int>", "IIR filter order or regression polynomial order", (v)=>parseInt(v,10))
+    .option("--wall-taps <int>", "FIR wall filter taps (odd)", (v)=>parseInt(v,10), 5)
+    .option("--svd-rank <n|auto>", "singular components removed by the SVD filter", "auto");
+}
+
+function buildClutterFilter(opts: ClutterOptions): ClutterFilter {
+  const cutoffHz = opts.wallCutoff ?? opts.prf / 10;
+  switch (opts.wall) {
+    case "none": return { type: "none" };
+    case "mean": return { type: "regression", order: 0 };
+    case "fir": return { type: "fir", cutoffHz, taps: opts.wallTaps };
+    case "iir": return { type: "iir", cutoffHz, order: opts.wallOrder ?? 2 };
+    case "regression": return { type: "regression", order: opts.wallOrder ?? 1 };
+    case "svd": {
+      if (opts.svdRank === "auto") return { type: "svd", clutterRank: "auto" };
+      const clutterRank = Number(opts.svdRank);
+      if (!Number.isInteger(clutterRank) || clutterRank < 0) {
+        console.error(`--svd-rank must be a non-negative integer or auto, got ${opts.svdRank}`);
+        process.exit(1);
+      }
+      return { type: "svd", clutterRank };
+    }
+    default:
+      console.error(`Unknown --wall ${opts.wall} (expected none, mean, fir, iir, regression or svd)`);
+      process.exit(1);
+  }
+}
 
-    const gen = createPointSourceGenerator({ offset: opts.offset, /** m/s */ speed: opts.speed, frequencyHz: opts.freq });
+/** Summarize a clutter filter: stopband attenuation near DC, -3 dB edge and SVD rank. */
+function printClutter(report: ClutterFilterReport): void {
+  const { frequenciesHz, gainDb } = report.response;
+  const dc = frequenciesHz.findIndex((f) => f >= 0);
+  let edge = dc;
+  while (edge < gainDb.length - 1 && gainDb[edge] < -3) edge++;
+  console.log({
+    clutterGainAtDcDb: +gainDb[dc].toFixed(1),
+    minus3dBEdgeHz: frequenciesHz[edge],
+    clutterRank: report.clutterRank,
+    singularValues: report.singularValues?.slice(0, 12).map((v) => +v.toPrecision(3)),
+  });
+}
 
-    let bf;
-    switch (opts.bf) {
-      case "sum":
-        bf = createSumBeamformer();
-        break;
-      case "delay-apod":
-        bf = createDelayAndSumApodizedBeamformer({ windowType: opts.window, chebyshevSidelobeDb: opts.chebSll });
-        break;
-      case "delay":
-      default:
-        bf = createDelayAndSumBeamformer();
+/** Apply TGC and envelope detection, then print a preview of the frame (and write --image). */
+async function printFrame(res: FrameResult, cfg: DynamicBeamformingConfig, opts: AcquisitionOptions): Promise<void> {
+  let frame = res.beamformed;
+  if (opts.tgcAuto && cfg.medium) frame = applyTgc(frame, tgcCurveForMedium(cfg.medium, opts.freq, cfg), cfg);
+  else if (opts.tgc) frame = applyTgc(frame, tgcCurveFromGains(String(opts.tgc).split(",").map(Number), cfg), cfg);
+  const out = opts.envelope ? frame.map(envelope) : frame;
+  console.log("Simulated frame:");
+  console.log({
+    scanParams: res.scanParams.slice(0, 5),
+    firstScanlinePreview: out[0]?.slice(0, 16),
+    dims: { scanlines: out.length, samples: out[0]?.length },
+    transmits: res.transmits,
+    frameRateHz: Math.round(frameRateHz(cfg, res)),
+  });
+  const coherence = (res as CoherenceFrameResult).coherence;
+  if (coherence) {
+    const mean = coherence.flat().reduce((a, b) => a + b, 0) / (coherence.length * (coherence[0]?.length || 1));
+    console.log({ firstCoherencePreview: coherence[0]?.slice(0, 16), meanCoherence: mean });
+  }
+  // display pipeline: envelope, scan conversion, then log compression against the frame's peak
+  const env = opts.envelope ? out : frame.map(envelope);
+  const level = createGrayLevelMap(peakAmplitude(env), buildDisplayOptions(opts));
+  if (opts.image) {
+    const img = scanConvert({ ...res, beamformed: opts.imageLevels ? env : out }, cfg, { width: opts.imageWidth, interpolation: opts.imageInterp });
+    const pixels = opts.imageLevels ? img.pixels.map((row) => row.map(level)) : img.pixels;
+    const header = ["z_mm\\x_mm", ...img.xM.map((x) => +(x * 1000).toFixed(3))].join(",");
+    const rows = pixels.map((row, j) => [+(img.zM[j] * 1000).toFixed(3), ...row.map((v) => (Number.isNaN(v) ? "" : v))].join(","));
+    await new NodeStorage().saveText(opts.image, header + "\n" + rows.join("\n") + "\n");
+    console.log(`Wrote ${opts.image} (${img.xM.length}x${img.zM.length})`);
+  }
+  if (opts.png) {
+    const [width, height] = String(opts.pngSize).split(",").map(Number);
+    const img = renderFrame(env, cfg, {
+      width, height, pixelRatio: opts.pngScale,
+      display: buildDisplayOptions(opts), colorMap: opts.colormap, interpolation: opts.imageInterp, annotations: opts.annotate,
+    });
+    await new NodeStorage().saveBinary(opts.png, encodePng(img.width, img.height, img.data));
+    console.log(`Wrote ${opts.png} (${img.width}x${img.height})`);
+  }
+  if (opts.dicom) await writeDicom(opts.dicom, [displayImage(env, cfg, opts)], opts);
+  if (opts.preview) {
+    // each character shows two pixel rows: the upper one as the foreground of "▀", the lower as its background
+    const img = scanConvert({ ...res, beamformed: env }, cfg, { width: Math.max(1, opts.previewWidth), interpolation: opts.imageInterp });
+    const width = img.xM.length, height = img.zM.length;
+    const rgba = renderRgba(img.pixels.map((row) => row.map(level)), opts.colormap);
+    const rgb = (i: number, j: number) => { const k = (j * width + i) * 4; return `${rgba[k]};${rgba[k + 1]};${rgba[k + 2]}`; };
+    for (let j = 0; j < height; j += 2) {
+      let line = "";
+      for (let i = 0; i < width; i++) line += `\x1b[38;2;${rgb(i, j)}m\x1b[48;2;${j + 1 < height ? rgb(i, j + 1) : "0;0;0"}m▀`;
+      console.log(line + "\x1b[0m");
     }
+  }
+}
 
-    const res = runFrame(cfg, gen, bf);
-    const out = opts.envelope ? res.beamformed.map(envelope) : res.beamformed;
-    console.log("Simulated frame:");
+/** Save a frame's beamformed lines and scan parameters, and optionally its channel data, for NumPy. */
+async function writeNpz(file: string, res: FrameResult, cfg: DynamicBeamformingConfig, gen: ScanlineGenerator, opts: { npyDtype: NpyDtype; saveChannels?: boolean }): Promise<void> {
+  const dtype: NpyDtype = opts.npyDtype;
+  const arrays = {
+    beamformed: npyFromNested(res.beamformed, dtype),
+    scan_params: npyFromNested(res.scanParams, dtype),
+    ...(opts.saveChannels ? { channel_data: npyFromNested(recordChannelData(cfg, gen), dtype) } : {}),
+  };
+  await new NodeStorage().saveBinary(file, encodeNpz(arrays));
+  console.log(`Wrote ${file} (${Object.entries(arrays).map(([k, a]) => `${k} ${a.shape.join("x")}`).join(", ")})`);
+}
+
+async function writeMat(file: string, res: FrameResult, cfg: DynamicBeamformingConfig): Promise<void> {
+  await new NodeStorage().saveBinary(file, encodeMat(frameToMatVariables(res, cfg)));
+  console.log(`Wrote ${file} (beamformed ${res.beamformed.length}x${res.beamformed[0]?.length ?? 0}, scanParams, transmits, config)`);
+}
+
+addAcquisitionOptions(dynamic.command("simulate"))
+  .description("Simulate one frame with the selected generator and beamformer")
+  .option("--bf <type>", "beamformer: sum|delay|delay-apod|delay-dynamic|delay-apod-dynamic|mv|mv-dynamic|fdmas|fdmas-dynamic|baseband|baseband-dynamic (default: delay)", "delay")
+  .option("--decimation <int>", "IQ decimation factor for the baseband beamformers", (v)=>parseInt(v,10), 4)
+  .option("--tx-focus <m>", "transmit focal depth (m); 0 for an unfocused transmit")
+  .option("--tx-aperture <int>", "transmit aperture (elements)", (v)=>parseInt(v,10))
+  .option("--tx-window <type>", "transmit apodization (rectangular|hamming|triangular|chebyshev)")
+  .option("--npz <file>", "save beamformed lines and scan_params (plus channel_data with --save-channels) as a NumPy .npz")
+  .option("--save-channels", "include the per-element channel data [scanlines][samples][elements] in --npz")
+  .option("--npy-dtype <type>", "float32|float64 for the --npz arrays", "float64")
+  .option("--format <type>", "text (console summary only) | mat (also write the frame and config to --out)", "text")
+  .option("-o, --out <file>", "MAT-file for --format mat", "frame.mat")
+  .action(async (opts: BeamformerOptions & { decimation: number; txFocus?: string; txAperture?: number; txWindow?: WindowType; npz?: string; saveChannels?: boolean; npyDtype: NpyDtype; format: string; out: string }) => {
+    if (opts.format !== "text" && opts.format !== "mat") {
+      console.error(`Unknown format ${opts.format} (expected text or mat)`);
+      process.exit(1);
+    }
+    if (opts.npyDtype !== "float32" && opts.npyDtype !== "float64") {
+      console.error(`Unknown --npy-dtype ${opts.npyDtype} (expected float32 or float64)`);
+      process.exit(1);
+    }
+    if (String(opts.bf).startsWith("baseband") && opts.coherence) {
+      console.error(`--coherence weights the RF beamformers; --bf ${opts.bf} does not support it`);
+      process.exit(1);
+    }
+    const cfg = buildDynamicConfig(opts);
+    // any transmit option switches from the ideal transmit to per-scanline events
+    if (opts.txFocus !== undefined || opts.txAperture !== undefined || opts.txWindow !== undefined) {
+      cfg.transmit = {
+        focusDepth: opts.txFocus !== undefined ? parseFloat(opts.txFocus) : undefined,
+        aperture: opts.txAperture,
+        windowType: opts.txWindow,
+        chebyshevSidelobeDb: opts.chebSll,
+      };
+    }
+    const gen = await buildGenerator(opts, cfg);
+
+    if (String(opts.bf).startsWith("baseband")) {
+      const bb = createBasebandBeamformer({
+        focusing: opts.bf === "baseband-dynamic" ? "dynamic" : "fixed",
+        interpolation: opts.interp,
+        windowType: opts.window,
+        chebyshevSidelobeDb: opts.chebSll,
+      });
+      const res = runBasebandFrame(cfg, gen, { carrierHz: opts.freq, decimation: opts.decimation }, bb);
+      await printFrame(res, cfg, opts);
+      if (opts.npz) await writeNpz(opts.npz, res, cfg, gen, opts);
+      if (opts.format === "mat") await writeMat(opts.out, res, cfg);
+      return;
+    }
+    const bf = buildBeamformer(opts);
+    const res = isCoherenceBeamformer(bf) ? runCoherenceFrame(cfg, gen, bf) : runFrame(cfg, gen, bf);
+    await printFrame(res, cfg, opts);
+    if (opts.npz) await writeNpz(opts.npz, res, cfg, gen, opts);
+    if (opts.format === "mat") await writeMat(opts.out, res, cfg);
+  });
+
+addAcquisitionOptions(dynamic.command("compound"))
+  .description("Simulate one frame from steered plane or diverging waves with coherent compounding")
+  .option("--wave <type>", "wavefront: plane|diverging", "plane")
+  .option("--angles <int>", "number of transmit angles", (v)=>parseInt(v,10), 5)
+  .option("--max-angle <deg>", "largest steering angle (deg)", parseFloat, 10)
+  .option("--source-distance <m>", "diverging-wave virtual source distance behind the array (m)", parseFloat)
+  .option("--f-number <n>", "receive f-number (0 for the whole array)", parseFloat, 1.5)
+  .option("--tx-window <type>", "transmit apodization (rectangular|hamming|triangular|chebyshev)")
+  .action(async (opts: AcquisitionOptions & { wave: CompoundingWave; angles: number; maxAngle: number; sourceDistance?: number; fNumber: number; txWindow?: WindowType }) => {
+    const cfg = buildDynamicConfig(opts);
+    const gen = await buildGenerator(opts, cfg);
+    const res = runCompoundFrame(cfg, gen, {
+      wave: opts.wave,
+      anglesDeg: compoundingAngles(opts.angles, opts.maxAngle),
+      virtualSourceDistance: opts.sourceDistance,
+      txWindowType: opts.txWindow,
+      rxWindowType: opts.window,
+      chebyshevSidelobeDb: opts.chebSll,
+      fNumber: opts.fNumber,
+      interpolation: opts.interp,
+    });
+    await printFrame(res, cfg, opts);
+  });
+
+addAcquisitionOptions(dynamic.command("tfm"))
+  .description("Simulate a full-matrix capture and reconstruct it with the total focusing method")
+  .option("--f-number <n>", "f-number on transmit and receive (0 for the whole array)", parseFloat, 1.5)
+  .option("--compare <bf>", "also run line-by-line with this beamformer (see simulate --bf) and compare it to the TFM image")
+  .option("--tx-focus <m>", "transmit focal depth (m) for the --compare run; 0 for an unfocused transmit")
+  .action(async (opts: AcquisitionOptions & { fNumber: number; compare?: string; txFocus?: string }) => {
+    const cfg = buildDynamicConfig(opts);
+    const gen = await buildGenerator(opts, cfg);
+    const res = runTfmFrame(cfg, gen, { windowType: opts.window, chebyshevSidelobeDb: opts.chebSll, fNumber: opts.fNumber, interpolation: opts.interp });
+    await printFrame(res, cfg, opts);
+    if (opts.compare) {
+      const lineCfg: DynamicBeamformingConfig = opts.txFocus !== undefined
+        ? { ...cfg, transmit: { focusDepth: parseFloat(opts.txFocus) } }
+        : cfg;
+      const line = runFrame(lineCfg, gen, buildBeamformer({ ...opts, bf: opts.compare }));
+      console.log(`${opts.compare} vs TFM:`, compareFrames(line.beamformed, res.beamformed));
+    }
+  });
+
+addAcquisitionOptions(dynamic.command("cine"))
+  .description("Simulate a cine sequence, advancing slow time between frames so moving scatterers (see --motion) move")
+  .option("--bf <type>", "beamformer for every frame (see simulate --bf)", "delay")
+  .option("--frames <int>", "frames to simulate", (v)=>parseInt(v,10), 10)
+  .option("--fps <hz>", "frame rate (default: the fastest the acquisition allows)", parseFloat)
+  .action(async (opts: BeamformerOptions & { frames: number; fps?: number }) => {
+    const cfg = buildDynamicConfig(opts);
+    const gen = await buildGenerator(opts, cfg);
+    const bf = buildBeamformer(opts);
+    const acquire = (c: DynamicBeamformingConfig) => isCoherenceBeamformer(bf) ? runCoherenceFrame(c, gen, bf) : runFrame(c, gen, bf);
+    const metersPerSample = (cfg.timeStep * cfg.propagationSpeed) / 2;
+    const images: ScanConvertedImage[] = [];
+    const times: number[] = [];
+    for await (const frame of runCine(cfg, acquire, { frames: opts.frames, frameRateHz: opts.fps })) {
+      if (opts.dicom) { images.push(displayImage(frame.beamformed.map(envelope), cfg, opts)); times.push(frame.timeS); }
+      // brightest echo, to follow the motion from frame to frame
+      let line = 0, sample = 0, peak = -Infinity;
+      frame.beamformed.forEach((l, i) => l.forEach((v, s) => { if (Math.abs(v) > peak) { peak = Math.abs(v); line = i; sample = s; } }));
+      console.log(`frame ${String(frame.index).padStart(3)}  t=${(frame.timeS * 1000).toFixed(1).padStart(7)} ms  peak on line ${line} at ${(sample * metersPerSample * 1000).toFixed(2)} mm (${peak.toPrecision(3)})`);
+    }
+    if (opts.dicom) await writeDicom(opts.dicom, images, opts, times.length > 1 ? (times[1] - times[0]) * 1000 : undefined);
+  });
+
+addAcquisitionOptions(dynamic.command("mmode"))
+  .description("M-mode: fire one scanline repeatedly and print a depth-versus-time image of moving scatterers (see --motion)")
+  .option("--bf <type>", "beamformer for every firing (see simulate --bf)", "delay")
+  .option("--line <int>", "scanline to fire (default: the middle one)", (v)=>parseInt(v,10))
+  .option("--line-rate <hz>", "firings per second", parseFloat, 1000)
+  .option("--lines <int>", "firings to acquire", (v)=>parseInt(v,10), 256)
+  .option("--rows <int>", "depth rows in the text image", (v)=>parseInt(v,10), 24)
+  .option("--cols <int>", "time columns in the text image", (v)=>parseInt(v,10), 64)
+  .action(async (opts: BeamformerOptions & { line?: number; lineRate: number; lines: number; rows: number; cols: number }) => {
+    const cfg = buildDynamicConfig(opts);
+    const gen = await buildGenerator(opts, cfg);
+    const res = runMMode(cfg, gen, buildBeamformer(opts), {
+      scanlineIndex: opts.line ?? Math.floor(cfg.scanning.numScanLines / 2),
+      lineRateHz: opts.lineRate,
+      lines: opts.lines,
+    });
+    const env = res.lines.map(envelope);
+    const duration = res.timesS[res.timesS.length - 1] - res.timesS[0];
+    const maxDepth = res.depthsM[res.depthsM.length - 1];
+    console.log(`M-mode: ${env.length} firings at ${res.lineRateHz} Hz (${(duration * 1000).toFixed(1)} ms), scanline ${res.scanParam}, depth 0..${(maxDepth * 1000).toFixed(1)} mm`);
+    // peak envelope in each depth x time cell, through the display's log compression and gray map
+    const rows = Math.max(1, opts.rows), cols = Math.max(1, Math.min(opts.cols, env.length));
+    const level = createGrayLevelMap(peakAmplitude(env), buildDisplayOptions(opts));
+    const shades = " .:-=+*#%@";
+    for (let r = 0; r < rows; r++) {
+      const s0 = Math.floor((r * res.depthsM.length) / rows), s1 = Math.floor(((r + 1) * res.depthsM.length) / rows);
+      let row = "";
+      for (let c = 0; c < cols; c++) {
+        const k0 = Math.floor((c * env.length) / cols), k1 = Math.floor(((c + 1) * env.length) / cols);
+        let v = 0;
+        for (let k = k0; k < k1; k++) for (let s = s0; s < s1; s++) v = Math.max(v, env[k][s]);
+        row += shades[Math.min(9, Math.floor(level(v) * 10))];
+      }
+      console.log(`${(res.depthsM[s0] * 1000).toFixed(1).padStart(6)} mm |${row}|`);
+    }
+  });
+
+addClutterOptions(addAcquisitionOptions(dynamic.command("doppler")))
+  .description("Simulate a colour-flow frame: slow-time ensembles per scanline and Kasai velocity estimation")
+  .option("--bf <type>", "beamformer for every firing (see simulate --bf)", "delay")
+  .option("--ensemble <int>", "pulses per scanline", (v)=>parseInt(v,10), 8)
+  .option("--prf <hz>", "pulse repetition frequency (Hz)", parseFloat, 4000)
+  .option("--power-threshold <db>", "hide flow more than this far below the peak power (dB)", parseFloat, -30)
+  .action(async (opts: BeamformerOptions & ClutterOptions & { ensemble: number; powerThreshold: number }) => {
+    const cfg = buildDynamicConfig(opts);
+    const gen = await buildGenerator(opts, cfg);
+    const res = runDopplerFrame(cfg, gen, buildBeamformer(opts), {
+      carrierHz: opts.freq,
+      ensembleSize: opts.ensemble,
+      prfHz: opts.prf,
+      wallFilter: buildClutterFilter(opts),
+    });
+    await printFrame(res, cfg, opts);
+    printClutter(res.clutter);
+    const flow = colorFlowMap(res, opts.powerThreshold).flat().filter((v) => !Number.isNaN(v));
+    const peak = flow.reduce((a, b) => Math.max(a, Math.abs(b)), 0);
     console.log({
-      scanParams: res.scanParams.slice(0, 5),
-      firstScanlinePreview: out[0]?.slice(0, 16),
-      dims: { scanlines: out.length, samples: out[0]?.length }
+      nyquistVelocity: res.nyquistVelocity,
+      colourFrameRateHz: res.prfHz / res.transmits!,
+      flowPixels: flow.length,
+      meanFlowVelocity: flow.length ? (flow.reduce((a, b) => a + b, 0) / flow.length) * res.nyquistVelocity : 0,
+      peakFlowSpeed: peak * res.nyquistVelocity,
+      firstVelocityPreview: res.velocity[0]?.slice(0, 16),
     });
   });
 
+addClutterOptions(addAcquisitionOptions(dynamic.command("pw")))
+  .description("Pulsed-wave Doppler at a sample gate: spectrogram of the slow-time signal, optionally saved as stereo audio")
+  .option("--bf <type>", "beamformer for every firing (see simulate --bf)", "delay")
+  .option("--line <int>", "scanline the gate sits on (default: the middle one)", (v)=>parseInt(v,10))
+  .option("--gate-depth <m>", "gate centre depth (m)", parseFloat, 0.02)
+  .option("--gate-length <m>", "gate length (m)", parseFloat, 0.001)
+  .option("--prf <hz>", "pulse repetition frequency (Hz)", parseFloat, 4000)
+  .option("--duration <s>", "slow-time duration (s)", parseFloat, 0.1)
+  .option("--fft <int>", "spectrogram FFT size (power of two)", (v)=>parseInt(v,10), 64)
+  .option("--hop <int>", "pulses between spectrogram columns (default: FFT size / 4)", (v)=>parseInt(v,10))
+  .option("--wav <file>", "write the Doppler audio as a stereo WAV (left: towards, right: away) at the PRF")
+  .action(async (opts: BeamformerOptions & ClutterOptions & { line?: number; gateDepth: number; gateLength: number; duration: number; fft: number; hop?: number; wav?: string }) => {
+    if (!(opts.fft >= 2 && (opts.fft & (opts.fft - 1)) === 0)) {
+      console.error(`--fft must be a power of two, got ${opts.fft}`);
+      process.exit(1);
+    }
+    const cfg = buildDynamicConfig(opts);
+    const gen = await buildGenerator(opts, cfg);
+    const res = runPwDoppler(cfg, gen, buildBeamformer(opts), {
+      carrierHz: opts.freq,
+      scanlineIndex: opts.line ?? Math.floor(cfg.scanning.numScanLines / 2),
+      gateDepth: opts.gateDepth,
+      gateLength: opts.gateLength,
+      prfHz: opts.prf,
+      pulses: Math.round(opts.duration * opts.prf),
+      wallFilter: buildClutterFilter(opts),
+      spectrogram: { fftSize: opts.fft, hop: opts.hop },
+    });
+    const { powerDb, timesS } = res.spectrogram;
+    console.log(`PW Doppler: ${res.signal.i.length} pulses at ${res.prfHz} Hz, Nyquist velocity ±${res.nyquistVelocity.toFixed(3)} m/s`);
+    printClutter(res.clutter);
+    // peak velocity of each column, with a coarse text trace of the spectrum
+    const shades = " .:-=+*#%@";
+    for (let t = 0; t < powerDb.length; t++) {
+      const col = powerDb[t];
+      let best = 0;
+      for (let k = 1; k < col.length; k++) if (col[k] > col[best]) best = k;
+      const trace = col.map((db) => shades[Math.max(0, Math.min(9, Math.floor((db + 40) / 4)))]).join("");
+      console.log(`${(timesS[t] * 1000).toFixed(1).padStart(7)} ms  ${res.velocities[best].toFixed(3).padStart(7)} m/s  |${trace}|`);
+    }
+    if (opts.wav) {
+      const audio = dopplerAudio(res.signal);
+      await new NodeStorage().saveBinary(opts.wav, encodeWav([audio.towards, audio.away], res.prfHz));
+      console.log(`Wrote ${opts.wav}`);
+    }
+  });
+
+dynamic.command("interp-analysis")
+  .description("Report each fractional-delay interpolator's frequency-response error over the pulse band")
+  .option("--freq <hz>", "pulse centre frequency (Hz)", parseFloat, 5_000_000)
+  .option("--bw <frac>", "pulse fractional bandwidth", parseFloat, 0.6)
+  .option("--dt <s>", "time step (s)", parseFloat, 1e-7)
+  .option("--half-width <int>", "taps either side for sinc and farrow", (v)=>parseInt(v,10), 4)
+  .action((opts) => {
+    // highest frequency of interest: the upper band edge, in cycles per sample
+    const fMax = opts.freq * (1 + opts.bw / 2) * opts.dt;
+    console.log(`Band edge: ${(fMax).toFixed(3)} cycles/sample`);
+    if (fMax >= 0.5) console.warn("Warning: the band edge is above Nyquist, so no interpolator can recover it; reduce --dt");
+    for (const r of compareInterpolators(fMax, { halfWidth: opts.halfWidth })) {
+      console.log(`${r.method.padEnd(9)} taps=${String(r.taps).padStart(2)}  gain ${r.maxAmplitudeErrorDb.toFixed(2)} dB  phase ${r.maxPhaseErrorDeg.toFixed(2)}°  error ${r.maxErrorDb.toFixed(1)} dB`);
+    }
+  });
+
 program.parse();
@@ -0,0 +1,73 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Acquisition mode controls (line-by-line, compounded plane/diverging waves, full-matrix TFM) for the dynamic page.
+ */
+
+import React from "react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Slider } from "../ui/slider";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../ui/select";
+
+export type AcquisitionMode = "line" | "plane" | "diverging" | "tfm";
+
+const Row = (props: { children: React.ReactNode; className?: string }) => (
+  <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
+);
+
+export default function AcquisitionConfig(props: {
+  acquisition: AcquisitionMode; setAcquisition: (v:AcquisitionMode)=>void;
+  angles: number; setAngles: (v:number)=>void;
+  maxAngle: number; setMaxAngle: (v:number)=>void;
+  fNumber: number; setFNumber: (v:number)=>void;
+  /** Frame rate of the last simulated frame (Hz), if any */
+  frameRate?: number;
+  /** Transmits fired for the last simulated frame, if any */
+  transmits?: number;
+}){
+  const { acquisition, setAcquisition, angles, setAngles, maxAngle, setMaxAngle, fNumber, setFNumber, frameRate, transmits } = props;
+  const compounding = acquisition === "plane" || acquisition === "diverging";
+  return (
+    <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+      <Row>
+        <Label htmlFor="acq" className="whitespace-nowrap shrink-0">Mode</Label>
+        <Select value={acquisition} onValueChange={(v:any)=>setAcquisition(v)}>
+          <SelectTrigger className="min-w-[10rem] w-full max-w-[16rem]"><SelectValue placeholder={acquisition}/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="line">line-by-line</SelectItem>
+            <SelectItem value="plane">plane-wave compounding</SelectItem>
+            <SelectItem value="diverging">diverging-wave compounding</SelectItem>
+            <SelectItem value="tfm">full-matrix capture (TFM)</SelectItem>
+          </SelectContent>
+        </Select>
+      </Row>
+      {compounding && (
+        <>
+          <Row>
+            <Label htmlFor="angles" className="whitespace-nowrap shrink-0">Transmit angles</Label>
+            <Input id="angles" type="number" min={1} value={angles} onChange={e=>setAngles(Math.max(1, parseInt(e.target.value,10)||1))} className="w-full"/>
+          </Row>
+          <Row className="col-span-full">
+            <Label htmlFor="maxangle" className="whitespace-nowrap shrink-0">Max steering</Label>
+            <div className="flex-1 min-w-[8rem]">
+              <Slider value={[maxAngle]} min={0} max={30} step={1} onValueChange={(v:any)=>setMaxAngle(v[0]||0)} />
+            </div>
+            <div className="text-sm text-muted-foreground">±{maxAngle}°</div>
+          </Row>
+        </>
+      )}
+      {acquisition !== "line" && (
+        <Row>
+          <Label htmlFor="fnum" className="whitespace-nowrap shrink-0">{acquisition === "tfm" ? "f-number" : "Receive f-number"}</Label>
+          <Input id="fnum" type="number" step={0.1} min={0} value={fNumber} onChange={e=>setFNumber(Math.max(0, parseFloat(e.target.value)||0))} className="w-full"/>
+        </Row>
+      )}
+      {frameRate !== undefined && (
+        <Row className="col-span-full">
+          <div className="text-sm text-muted-foreground">{transmits} transmits per frame · max {Math.round(frameRate)} frames/s</div>
+        </Row>
+      )}
+    </div>
+  );
+}
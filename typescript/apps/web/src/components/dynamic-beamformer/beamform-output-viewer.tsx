@@ -1,32 +1,110 @@
 import React from "react";
 import { Button } from "../ui/button";
-import { DynamicBeamformingConfig } from "@aloe/core";
+import { Slider } from "../ui/slider";
+import { Input } from "../ui/input";
+import { BarRect, ColorMapName, DisplayOptions, DynamicBeamformingConfig, ScanConverter, applyGrayMap, createColorMap, createGrayLevelMap, createScanConverter, dbBarTicks, encodeApng, encodeUltrasoundDicom, frameLayout, frameStats, linearAxisTicks, niceStep, peakAmplitude, sectorArc, sectorDepthLabel } from "@aloe/core";
 import { canvasToCompressedPNG } from "../../utils/png-compress";
 
+// peak opacity of the overlay tint (reached where the overlay is 1)
+const OVERLAY_OPACITY = 0.7;
+
 export default function BeamformOutputViewer(props: {
   frame: number[][];
   cfg?: DynamicBeamformingConfig;
+  /** Optional map (0..1) with the frame's shape, e.g. coherence; tints a grayscale B-mode */
+  overlay?: number[][];
+  /** Name of the overlaid quantity, shown with the stats */
+  overlayLabel?: string;
+  /**
+   * "tint" (default) blends a 0..1 map over the B-mode. "velocity" paints a signed -1..1 map
+   * (e.g. colour flow: red towards, blue away) over it wherever the map is not NaN.
+   */
+  overlayMode?: "tint" | "velocity";
+  /** Physical value of an overlay of ±1 in velocity mode (m/s), for the colour bar labels */
+  overlayRange?: number;
+  /** Doppler sample gate to mark: scanline index and first / last sample (fractional allowed) */
+  gate?: { scanlineIndex: number; startSample: number; endSample: number };
+  /**
+   * Cine sequence being shown: a scrub bar selects the frame, with optional looped playback.
+   * With its `frames` (and frame time) the DICOM download holds the whole sequence.
+   */
+  cine?: { count: number; index: number; timeS: number; onSeek: (index: number) => void; playing: boolean; onTogglePlay: () => void; frames?: number[][][]; frameTimeMs?: number };
+  /** M-mode trace to show beside the sector: lines [time][samples] (newest last), with their scanline marked */
+  mmode?: { lines: number[][]; timesS: number[]; depthsM: number[]; scanlineIndex: number };
+  /** Called with the scanline nearest a click on the image, e.g. to pick the M-mode line */
+  onPickScanline?: (index: number) => void;
+  /**
+   * Display processing of the B-mode and M-mode: dynamic range, gain and gray map of the log
+   * compression, and the colour map (default 60 dB, 0 dB, linear, turbo). With an overlay the
+   * B-mode underneath stays grayscale.
+   */
+  display?: Omit<DisplayOptions, "envelope" | "reference"> & { colorMap?: ColorMapName };
 }){
-  const { frame, cfg } = props;
+  const { frame, cfg, overlay, overlayLabel, overlayMode = "tint", overlayRange, gate, cine, mmode, onPickScanline, display = {} } = props;
+  const hasOverlay = !!overlay && overlay.length === frame.length;
+  const dynamicRangeDb = display.dynamicRangeDb ?? 60;
+  const gainDb = display.gainDb ?? 0;
+  const grayMap = display.grayMap ?? { type: "linear" as const };
+  const colorMap = createColorMap(display.colorMap ?? "turbo");
+  // frames are already envelopes (or RF shown as |RF|), compressed against their own peak
+  const grayLevels = (peak: number) => createGrayLevelMap(peak, { envelope: false, dynamicRangeDb, gainDb, grayMap });
   const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  const mmodeCanvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  // where the last sector / rectangle was drawn (canvas pixels), to map clicks back to scanlines
+  const geometryRef = React.useRef<
+    | { type: "polar"; cx: number; cy: number; minAng: number; maxAng: number }
+    | { type: "linear"; x0: number; rw: number; flipped: boolean }
+    | null
+  >(null);
+  // APNG export: frames are captured from the canvas as they are drawn (auto-run, cine playback)
+  const [apngFrames, setApngFrames] = React.useState(20);
+  const [apngDelayMs, setApngDelayMs] = React.useState(100);
+  const [apngLoops, setApngLoops] = React.useState(0);
+  const [recording, setRecording] = React.useState<{ captured: number; target: number } | null>(null);
+  const recorderRef = React.useRef<{ frames: Uint8ClampedArray[]; width: number; height: number; target: number; delayMs: number; loops: number } | null>(null);
 
   React.useEffect(() => {
     if (!frame || frame.length === 0) return;
-    if (cfg && cfg.scanning.type === "phased") return drawPolar(frame, cfg);
-    drawHeatmap(frame);
-  }, [frame]);
+    if (cfg && cfg.scanning.type === "phased") drawPolar(frame, cfg);
+    else if (cfg && cfg.scanning.type === "linear") drawLinear(frame, cfg);
+    else drawHeatmap(frame);
+    captureFrame();
+  }, [frame, overlay, overlayMode, overlayRange, gate, mmode?.scanlineIndex, display.dynamicRangeDb, display.gainDb, display.grayMap, display.colorMap]);
+
+  React.useEffect(() => { if (mmode) drawMMode(mmode); }, [mmode, display.dynamicRangeDb, display.gainDb, display.grayMap, display.colorMap]);
+
+  const pick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current; const g = geometryRef.current;
+    if (!canvas || !g || !onPickScanline || frame.length === 0) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * (canvas.width / rect.width);
+    const y = (e.clientY - rect.top) * (canvas.height / rect.height);
+    let t: number;
+    if (g.type === "polar") {
+      if (y <= g.cy) return;
+      const angleDeg = Math.atan2(x - g.cx, y - g.cy) * 180 / Math.PI;
+      t = (angleDeg - g.minAng) / (g.maxAng - g.minAng);
+    } else {
+      t = g.rw > 1 ? (x - g.x0) / (g.rw - 1) : 0;
+      if (g.flipped) t = 1 - t;
+    }
+    if (t < 0 || t > 1) return;
+    onPickScanline(Math.round(t * (frame.length - 1)));
+  };
+
+  const saveBytes = (bytes: Uint8Array, name: string, type = 'image/png') => {
+    const blob = new Blob([bytes], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = name; a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 2000);
+  };
 
   const download = () => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     // create compressed PNG bytes without changing canvas resolution
-    canvasToCompressedPNG(canvas).then((bytes) => {
-      const blob = new Blob([bytes], { type: 'image/png' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url; a.download = 'dynamic-frame.png'; a.click();
-      setTimeout(() => URL.revokeObjectURL(url), 2000);
-    }).catch((e) => {
+    canvasToCompressedPNG(canvas).then((bytes) => saveBytes(bytes, 'dynamic-frame.png')).catch((e) => {
       // fallback to native PNG if compression fails
       const url = canvas.toDataURL("image/png");
       const a = document.createElement("a");
@@ -34,6 +112,52 @@ export default function BeamformOutputViewer(props: {
     });
   };
 
+  /**
+   * DICOM ultrasound image of the frame (or every cine frame) scan converted to 512 columns with
+   * the display settings; grayscale is written as MONOCHROME2, other colour maps as RGB.
+   */
+  const downloadDicom = () => {
+    if (!cfg) return;
+    const converter = createScanConverter(cfg, { width: 512 });
+    const images = (cine?.frames ?? [frame]).map((f) => {
+      const img = converter.convert(f);
+      const level = grayLevels(peakAmplitude(f));
+      return { ...img, pixels: img.pixels.map((row) => row.map(level)) };
+    });
+    const bytes = encodeUltrasoundDicom(images, { colorMap: display.colorMap ?? "turbo", frameTimeMs: cine?.frameTimeMs });
+    saveBytes(bytes, images.length > 1 ? 'dynamic-cine.dcm' : 'dynamic-frame.dcm', 'application/dicom');
+  };
+
+  /** Start an APNG recording with the current frame; a paused cine starts playing to feed it. */
+  const startRecording = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    recorderRef.current = { frames: [], width: canvas.width, height: canvas.height, target: apngFrames, delayMs: apngDelayMs, loops: apngLoops };
+    setRecording({ captured: 0, target: apngFrames });
+    captureFrame();
+    if (cine && !cine.playing) cine.onTogglePlay();
+  };
+
+  /** Add the canvas to the recording; saves once the target is reached or the canvas is resized. */
+  const captureFrame = () => {
+    const rec = recorderRef.current; const canvas = canvasRef.current;
+    if (!rec || !canvas) return;
+    if (canvas.width !== rec.width || canvas.height !== rec.height) return finishRecording();
+    const ctx = canvas.getContext("2d"); if (!ctx) return;
+    rec.frames.push(ctx.getImageData(0, 0, rec.width, rec.height).data);
+    setRecording({ captured: rec.frames.length, target: rec.target });
+    if (rec.frames.length >= rec.target) finishRecording();
+  };
+
+  /** Encode whatever has been captured as an APNG and download it. */
+  const finishRecording = () => {
+    const rec = recorderRef.current;
+    recorderRef.current = null;
+    setRecording(null);
+    if (!rec || rec.frames.length === 0) return;
+    saveBytes(encodeApng(rec.width, rec.height, rec.frames, { delayMs: rec.delayMs, loops: rec.loops }), 'dynamic-cine.png');
+  };
+
   const drawHeatmap = (frame: number[][]) => {
     const canvas = canvasRef.current;
     if (!canvas || frame.length === 0) return;
@@ -71,7 +195,7 @@ export default function BeamformOutputViewer(props: {
         const scanIdx = (x / (iw - 1)) * (scanlines - 1);
         const v = sampleFrameBilinear(frame, scanIdx, sampleIdx);
         const norm = (v - minV) / range;
-        const c = valueToTurbo(norm);
+        const c = colorMap(norm);
         img.data[ptr++] = c[0]; img.data[ptr++] = c[1]; img.data[ptr++] = c[2]; img.data[ptr++] = 255;
       }
     }
@@ -110,120 +234,349 @@ export default function BeamformOutputViewer(props: {
     canvas.width = iw; canvas.height = ih;
     canvas.style.width = displayW + 'px'; canvas.style.height = displayH + 'px';
     const ctx = canvas.getContext("2d"); if (!ctx) return;
+    // sector placement, ticks and dB bar are laid out by core, as renderFrame draws them
+    const layout = frameLayout(cfg, samplesLocal, iw, ih, pixelRatio);
+    if (layout.type !== "phased") return;
+    const { cx, cy, R, minAngleDeg: minAng, maxAngleDeg: maxAng } = layout;
     const img = ctx.createImageData(iw, ih);
-    const cx = iw/2; const cy = Math.max(4 * pixelRatio, Math.round(ih * 0.08));
-    const R = Math.min(cx, ih - cy) * 0.92;
-    const maxDepth = samplesLocal * (cfg?.timeStep || 1) * (cfg?.propagationSpeed || 1) / 2;
     let maxV = 0; for (let L=0; L<scanlines; L++) for (let s=0; s<samplesLocal; s++){ const v=Math.abs(frame[L][s]); if (v>maxV) maxV=v; }
-    const minDb = -60; let ptr = 0; const [minAng, maxAng] = cfg?.scanning.range || [0,0];
-
-    for (let j=0;j<ih;j++){
-      for (let i=0;i<iw;i++){
-        const dx = i - cx; const dy = j - cy; if (dy < 0) { img.data[ptr++]=8; img.data[ptr++]=8; img.data[ptr++]=8; img.data[ptr++]=255; continue; }
-        const rPix = Math.sqrt(dx*dx + dy*dy);
-        if (rPix > R){ img.data[ptr++]=8; img.data[ptr++]=8; img.data[ptr++]=8; img.data[ptr++]=255; continue; }
-        const angleRad = Math.atan2(dx, dy); const angleDeg = angleRad*180/Math.PI;
-        if (angleDeg < Math.min(minAng,maxAng) || angleDeg > Math.max(minAng,maxAng)){ img.data[ptr++]=6; img.data[ptr++]=6; img.data[ptr++]=6; img.data[ptr++]=255; continue; }
-        const fracR = rPix / R; const depth = fracR * maxDepth; const sampleIdx = depth / ((cfg?.timeStep || 1) * (cfg?.propagationSpeed || 1) / 2);
-        const t = (angleDeg - minAng) / (maxAng - minAng); const scanIdx = t * (scanlines - 1);
-        const val = sampleFrameBilinear(frame, scanIdx, sampleIdx);
-        const absVal = Math.abs(val);
-        const db = maxV > 0 ? 20 * Math.log10(absVal / maxV) : minDb;
-        const dbClamped = Math.max(minDb, db);
-        const norm = (dbClamped - minDb) / (-minDb);
-        const ccol = valueToTurbo(norm);
-        img.data[ptr++]=ccol[0]; img.data[ptr++]=ccol[1]; img.data[ptr++]=ccol[2]; img.data[ptr++]=255;
-      }
-    }
+    const converter = createScanConverter(cfg, { width: iw, height: ih, region: layout.image.region });
+    paintImage(img, converter, frame, maxV);
     ctx.putImageData(img,0,0);
 
     // draw outlines and labels scaled so they appear consistent at CSS size
     ctx.strokeStyle = "white"; ctx.lineWidth = 1.5 * pixelRatio; ctx.beginPath();
-    const startRad = (minAng * Math.PI) / 180; const endRad = (maxAng * Math.PI) / 180;
-    const steps = 120; const pts: {x:number;y:number}[] = [];
-    for (let k = 0; k <= steps; k++){
-      const a = startRad + (endRad - startRad) * (k / steps);
-      const px = cx + R * Math.sin(a);
-      const py = cy + R * Math.cos(a);
-      pts.push({x: px, y: py});
-      if (k === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
-    }
+    const pts = sectorArc(layout);
+    pts.forEach((p, k) => { if (k === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y); });
     ctx.stroke();
-    if (pts.length >= 2) {
-      ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y); ctx.lineTo(cx, cy); ctx.moveTo(pts[pts.length-1].x, pts[pts.length-1].y); ctx.lineTo(cx, cy); ctx.stroke();
-    }
-    const midA = startRad + (endRad - startRad) * 3/4;
-    // show distance in centimeters, move slightly right so it doesn't overlap the arc
-    const distText = `${Math.round(maxDepth * 100).toString().padStart(3, ' ')} cm`;
-    const labelX = cx + R * Math.sin(midA) * 1.08 + (18 * pixelRatio);
-    const labelY = cy + R * Math.cos(midA) * 0.98 + (18 * pixelRatio);
-    ctx.textAlign = "right"; ctx.font = `${12 * pixelRatio}px sans-serif`; ctx.fillStyle = "white"; ctx.fillText(distText, labelX, labelY);
-
-    const barW = Math.round(iw * 0.04); const barH = Math.round(R * 0.9);
-    const barX = Math.min(Math.round(cx + R + (8 * pixelRatio)), iw - barW - (60 * pixelRatio)); const barY = Math.round(cy + R * 0.05);
+    ctx.beginPath(); ctx.moveTo(pts[0].x, pts[0].y); ctx.lineTo(cx, cy); ctx.moveTo(pts[pts.length-1].x, pts[pts.length-1].y); ctx.lineTo(cx, cy); ctx.stroke();
+    const depthLabel = sectorDepthLabel(layout);
+    ctx.textAlign = "right"; ctx.font = `${12 * pixelRatio}px sans-serif`; ctx.fillStyle = "white"; ctx.fillText(depthLabel.text, depthLabel.x, depthLabel.y);
+
+    geometryRef.current = { type: "polar", cx, cy, minAng, maxAng };
+    const lineAngle = (index: number) => ((minAng + (scanlines > 1 ? index / (scanlines - 1) : 0) * (maxAng - minAng)) * Math.PI) / 180;
+    if (gate) {
+      const a = lineAngle(gate.scanlineIndex);
+      const at = (sample: number) => ({ x: cx + (sample / samplesLocal) * R * Math.sin(a), y: cy + (sample / samplesLocal) * R * Math.cos(a) });
+      drawGate(ctx, at(0), at(samplesLocal), at(gate.startSample), at(gate.endSample), a, pixelRatio);
+    }
+    if (mmode) {
+      const a = lineAngle(mmode.scanlineIndex);
+      drawMModeLine(ctx, { x: cx, y: cy }, { x: cx + R * Math.sin(a), y: cy + R * Math.cos(a) }, pixelRatio);
+    }
+
+    drawDbBar(ctx, layout.bar, pixelRatio, iw);
+    drawStats(ctx, cfg, samplesLocal, scanlines, pixelRatio);
+    if (hasOverlay && overlayMode === "velocity") drawVelocityBar(ctx, 8 * pixelRatio, ih - Math.round(ih * 0.45) - 8 * pixelRatio, Math.round(layout.bar.w / 2), Math.round(ih * 0.45), pixelRatio);
+  }
+
+  function drawLinear(frame: number[][], cfg: DynamicBeamformingConfig) {
+    const canvas = canvasRef.current;
+    if (!canvas || frame.length === 0) return;
+    const displayW = 700; const displayH = 300;
+    const scanlines = frame.length; const samplesLocal = frame[0].length;
+
+    const pixelRatioBase = Math.max(1, Math.min(4, Math.round(window.devicePixelRatio || 1)));
+    const RENDER_SCALE = 2;
+    const pixelRatio = pixelRatioBase * RENDER_SCALE;
+    const iw = displayW * pixelRatio; const ih = displayH * pixelRatio;
+    canvas.width = iw; canvas.height = ih;
+    canvas.style.width = displayW + 'px'; canvas.style.height = displayH + 'px';
+    const ctx = canvas.getContext("2d"); if (!ctx) return;
+
+    // 1:1 rectangle between the axis labels and the dB bar, laid out by core as renderFrame draws it
+    const layout = frameLayout(cfg, samplesLocal, iw, ih, pixelRatio);
+    if (layout.type !== "linear") return;
+    const { x0, y0, rw, rh, scale, minX, maxX } = layout;
+    const metersPerSample = cfg.timeStep * cfg.propagationSpeed / 2;
+
+    ctx.fillStyle = "rgb(8,8,8)"; ctx.fillRect(0, 0, iw, ih);
+    const img = ctx.createImageData(rw, rh);
+    let maxV = 0; for (let L=0; L<scanlines; L++) for (let s=0; s<samplesLocal; s++){ const v=Math.abs(frame[L][s]); if (v>maxV) maxV=v; }
+    const converter = createScanConverter(cfg, { width: rw, height: rh, region: layout.image.region });
+    paintImage(img, converter, frame, maxV);
+    ctx.putImageData(img, x0, y0);
+
+    ctx.strokeStyle = "white"; ctx.lineWidth = 1.5 * pixelRatio;
+    ctx.strokeRect(x0, y0, rw, rh);
+
+    // millimetre ticks: depth down the left edge, lateral position along the top
+    ctx.fillStyle = "white"; ctx.lineWidth = 1 * pixelRatio; ctx.font = `${11 * pixelRatio}px monospace`;
+    const ticks = linearAxisTicks(layout);
+    ctx.textAlign = "right";
+    for (const t of ticks.depth){
+      ctx.beginPath(); ctx.moveTo(x0 - (6 * pixelRatio), t.position); ctx.lineTo(x0, t.position); ctx.stroke();
+      ctx.fillText(t.label, x0 - (8 * pixelRatio), t.position + (4 * pixelRatio));
+    }
+    ctx.textAlign = "center";
+    for (const t of ticks.lateral){
+      ctx.beginPath(); ctx.moveTo(t.position, y0 - (6 * pixelRatio)); ctx.lineTo(t.position, y0); ctx.stroke();
+      ctx.fillText(t.label, t.position, y0 - (9 * pixelRatio));
+    }
+    ctx.textAlign = "right"; ctx.font = `${12 * pixelRatio}px sans-serif`;
+    ctx.fillText("mm", x0 - (8 * pixelRatio), y0 - (9 * pixelRatio));
+
+    geometryRef.current = { type: "linear", x0, rw, flipped: minX > maxX };
+    const lineX = (index: number) => {
+      const t = scanlines > 1 ? index / (scanlines - 1) : 0;
+      return x0 + (minX <= maxX ? t : 1 - t) * (rw - 1);
+    };
+    if (gate) {
+      const gx = lineX(gate.scanlineIndex);
+      const at = (sample: number) => ({ x: gx, y: y0 + sample * metersPerSample * scale });
+      drawGate(ctx, at(0), at(samplesLocal), at(gate.startSample), at(gate.endSample), 0, pixelRatio);
+    }
+    if (mmode) {
+      const mx = lineX(mmode.scanlineIndex);
+      drawMModeLine(ctx, { x: mx, y: y0 }, { x: mx, y: y0 + rh }, pixelRatio);
+    }
+
+    drawDbBar(ctx, layout.bar, pixelRatio, iw);
+    drawStats(ctx, cfg, samplesLocal, scanlines, pixelRatio);
+    if (hasOverlay && overlayMode === "velocity") drawVelocityBar(ctx, 8 * pixelRatio, ih - Math.round(ih * 0.45) - 8 * pixelRatio, Math.round(layout.bar.w / 2), Math.round(ih * 0.45), pixelRatio);
+  }
+
+  /**
+   * Doppler gate marker: a dashed line down the gated scanline from `top` to `bottom` and a pair of
+   * brackets across it at the gate's ends. `angle` is the scanline's direction from vertical (rad).
+   */
+  function drawGate(ctx: CanvasRenderingContext2D, top: {x:number;y:number}, bottom: {x:number;y:number}, start: {x:number;y:number}, end: {x:number;y:number}, angle: number, pixelRatio: number) {
+    ctx.save();
+    ctx.strokeStyle = "rgb(0,255,128)"; ctx.lineWidth = 1 * pixelRatio;
+    ctx.setLineDash([4 * pixelRatio, 4 * pixelRatio]);
+    ctx.beginPath(); ctx.moveTo(top.x, top.y); ctx.lineTo(bottom.x, bottom.y); ctx.stroke();
+    ctx.setLineDash([]); ctx.lineWidth = 2 * pixelRatio;
+    const half = 8 * pixelRatio;
+    // brackets run perpendicular to the scanline
+    const px = Math.cos(angle) * half, py = -Math.sin(angle) * half;
+    for (const p of [start, end]) {
+      ctx.beginPath(); ctx.moveTo(p.x - px, p.y - py); ctx.lineTo(p.x + px, p.y + py); ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  /** M-mode line marker: a dotted yellow line down the fired scanline. */
+  function drawMModeLine(ctx: CanvasRenderingContext2D, top: {x:number;y:number}, bottom: {x:number;y:number}, pixelRatio: number) {
+    ctx.save();
+    ctx.strokeStyle = "rgb(255,220,0)"; ctx.lineWidth = 1.5 * pixelRatio;
+    ctx.setLineDash([2 * pixelRatio, 3 * pixelRatio]);
+    ctx.beginPath(); ctx.moveTo(top.x, top.y); ctx.lineTo(bottom.x, bottom.y); ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * Depth-versus-time M-mode image on its own canvas: depth down, time to the right with the newest
+   * firing at the right edge, log-compressed against the trace's peak with the display settings.
+   */
+  function drawMMode(m: { lines: number[][]; timesS: number[]; depthsM: number[] }) {
+    const canvas = mmodeCanvasRef.current;
+    if (!canvas) return;
+    const displayW = 360; const displayH = 300;
+    const pixelRatio = Math.max(1, Math.min(4, Math.round(window.devicePixelRatio || 1)));
+    const iw = displayW * pixelRatio; const ih = displayH * pixelRatio;
+    canvas.width = iw; canvas.height = ih;
+    canvas.style.width = displayW + 'px'; canvas.style.height = displayH + 'px';
+    const ctx = canvas.getContext("2d"); if (!ctx) return;
+    ctx.fillStyle = "rgb(8,8,8)"; ctx.fillRect(0, 0, iw, ih);
+
+    const left = 44 * pixelRatio; const right = 10 * pixelRatio; const top = 12 * pixelRatio; const bottom = 24 * pixelRatio;
+    const pw = iw - left - right; const ph = ih - top - bottom;
+    const count = m.lines.length; const samplesLocal = m.depthsM.length;
+    if (count > 0 && samplesLocal > 0) {
+      let maxV = 0; for (const line of m.lines) for (const v of line) { const a = Math.abs(v); if (a > maxV) maxV = a; }
+      const level = grayLevels(maxV);
+      const img = ctx.createImageData(pw, ph);
+      let ptr = 0;
+      for (let y = 0; y < ph; y++) {
+        const s = Math.min(samplesLocal - 1, Math.floor((y / ph) * samplesLocal));
+        for (let x = 0; x < pw; x++) {
+          const k = Math.min(count - 1, Math.floor((x / pw) * count));
+          const col = colorMap(level(m.lines[k][s] ?? 0));
+          img.data[ptr++] = col[0]; img.data[ptr++] = col[1]; img.data[ptr++] = col[2]; img.data[ptr++] = 255;
+        }
+      }
+      ctx.putImageData(img, left, top);
+    }
+    ctx.strokeStyle = "white"; ctx.lineWidth = 1 * pixelRatio;
+    ctx.strokeRect(left, top, pw, ph);
+
+    ctx.fillStyle = "white"; ctx.font = `${11 * pixelRatio}px monospace`;
+    const maxDepthMm = (m.depthsM[samplesLocal - 1] ?? 0) * 1000;
+    const depthStep = niceStep(maxDepthMm, 6);
+    ctx.textAlign = "right";
+    for (let mm = 0; mm <= maxDepthMm + 1e-9; mm += depthStep) {
+      const y = top + (maxDepthMm > 0 ? mm / maxDepthMm : 0) * ph;
+      ctx.beginPath(); ctx.moveTo(left - 4 * pixelRatio, y); ctx.lineTo(left, y); ctx.stroke();
+      ctx.fillText(`${+mm.toFixed(1)}`, left - 6 * pixelRatio, y + 4 * pixelRatio);
+    }
+    const t0 = m.timesS[0] ?? 0; const t1 = m.timesS[count - 1] ?? 0;
+    ctx.textAlign = "left";
+    ctx.fillText(`${(t0 * 1000).toFixed(0)} ms`, left, ih - 8 * pixelRatio);
+    ctx.textAlign = "right";
+    ctx.fillText(`${(t1 * 1000).toFixed(0)} ms`, left + pw, ih - 8 * pixelRatio);
+    ctx.textAlign = "center";
+    ctx.fillText("mm", left / 2, ih - 8 * pixelRatio);
+  }
+
+  /** Vertical signed velocity colour bar: +range (towards) at the top, -range at the bottom. */
+  function drawVelocityBar(ctx: CanvasRenderingContext2D, barX: number, barY: number, barW: number, barH: number, pixelRatio: number) {
     const barImg = ctx.createImageData(barW, barH);
     for (let by = 0; by < barH; by++){
-      const frac = 1 - by / (barH - 1);
-      const dbVal = minDb + frac * (-minDb);
-      const norm = (dbVal - minDb) / (-minDb);
-      const col = valueToTurbo(norm);
+      const col = valueToVelocity(1 - (2 * by) / (barH - 1));
       for (let bx = 0; bx < barW; bx++){
         const idx = (by * barW + bx) * 4;
         barImg.data[idx] = col[0]; barImg.data[idx+1] = col[1]; barImg.data[idx+2] = col[2]; barImg.data[idx+3] = 255;
       }
     }
     ctx.putImageData(barImg, barX, barY);
-    // draw border around dB color bar
     ctx.strokeStyle = "white";
     ctx.lineWidth = 1 * pixelRatio;
     ctx.strokeRect(barX - 0.5 * pixelRatio, barY - 0.5 * pixelRatio, barW + 1 * pixelRatio, barH + 1 * pixelRatio);
     ctx.fillStyle = "white"; ctx.textAlign = "left"; ctx.font = `${11 * pixelRatio}px monospace`;
-    const ticks = [0, -20, -40, -60];
-    for (const tdb of ticks){
-      const frac = 1 - (tdb - minDb) / (-minDb);
-      const y = barY + Math.round(frac * (barH-1));
-      ctx.strokeStyle = "white"; ctx.beginPath(); ctx.moveTo(barX - (6 * pixelRatio), y); ctx.lineTo(barX, y); ctx.stroke();
-      const labelX = Math.min(iw - (8 * pixelRatio), barX + barW + (12 * pixelRatio));
-      ctx.fillText(`${tdb} dB`, labelX, y + (4 * pixelRatio));
+    const cms = overlayRange !== undefined ? +(overlayRange * 100).toFixed(1) : 1;
+    const unit = overlayRange !== undefined ? " cm/s" : "";
+    const labelX = barX + barW + (6 * pixelRatio);
+    ctx.fillText(`+${cms}${unit}`, labelX, barY + (8 * pixelRatio));
+    ctx.fillText("0", labelX, barY + barH / 2 + (4 * pixelRatio));
+    ctx.fillText(`-${cms}${unit}`, labelX, barY + barH);
+  }
+
+  /** Vertical dB colour bar with a border and core's ticks (-gain dB at the top down to -gain - dynamic range). */
+  function drawDbBar(ctx: CanvasRenderingContext2D, bar: BarRect, pixelRatio: number, iw: number) {
+    const barImg = ctx.createImageData(bar.w, bar.h);
+    for (let by = 0; by < bar.h; by++){
+      const norm = applyGrayMap(1 - by / (bar.h - 1), grayMap);
+      const col = hasOverlay ? valueToGray(norm) : colorMap(norm);
+      for (let bx = 0; bx < bar.w; bx++){
+        const idx = (by * bar.w + bx) * 4;
+        barImg.data[idx] = col[0]; barImg.data[idx+1] = col[1]; barImg.data[idx+2] = col[2]; barImg.data[idx+3] = 255;
+      }
+    }
+    ctx.putImageData(barImg, bar.x, bar.y);
+    // draw border around dB color bar
+    ctx.strokeStyle = "white";
+    ctx.lineWidth = 1 * pixelRatio;
+    ctx.strokeRect(bar.x - 0.5 * pixelRatio, bar.y - 0.5 * pixelRatio, bar.w + 1 * pixelRatio, bar.h + 1 * pixelRatio);
+    ctx.fillStyle = "white"; ctx.textAlign = "left"; ctx.font = `${11 * pixelRatio}px monospace`;
+    const labelX = Math.min(iw - (8 * pixelRatio), bar.x + bar.w + (12 * pixelRatio));
+    for (const t of dbBarTicks(bar, dynamicRangeDb, gainDb)){
+      ctx.strokeStyle = "white"; ctx.beginPath(); ctx.moveTo(bar.x - (6 * pixelRatio), t.position); ctx.lineTo(bar.x, t.position); ctx.stroke();
+      ctx.fillText(t.label, labelX, t.position + (4 * pixelRatio));
     }
+  }
 
-    // draw basic stats along left side if config is available
-    if (cfg) {
-      ctx.fillStyle = "white";
-      ctx.textAlign = "left";
-      ctx.font = `${12 * pixelRatio}px monospace`;
-      let ly = 12 * pixelRatio;
-      const lx = 8 * pixelRatio;
-      ctx.fillText(`type: ${cfg.scanning?.type ?? 'n/a'}`, lx, ly);
-      ly += 16 * pixelRatio;
-      if ((cfg.scanning as any)?.range) ctx.fillText(`range: ${(cfg.scanning as any).range[0]}° → ${(cfg.scanning as any).range[1]}°`, lx, ly);
-      ly += 16 * pixelRatio;
-      ctx.fillText(`dt: ${cfg.timeStep ?? 'n/a'}`, lx, ly);
-      ly += 16 * pixelRatio;
-      ctx.fillText(`samples: ${samplesLocal}`, lx, ly);
-      ly += 16 * pixelRatio;
-      ctx.fillText(`scanlines: ${scanlines}`, lx, ly);
+  /** Core's config stats along the left side, plus the overlay legend. */
+  function drawStats(ctx: CanvasRenderingContext2D, cfg: DynamicBeamformingConfig, samplesLocal: number, scanlines: number, pixelRatio: number) {
+    ctx.fillStyle = "white";
+    ctx.textAlign = "left";
+    ctx.font = `${12 * pixelRatio}px monospace`;
+    const lx = 8 * pixelRatio;
+    const lines = frameStats(cfg, samplesLocal, scanlines);
+    lines.forEach((text, n) => ctx.fillText(text, lx, (12 + 16 * n) * pixelRatio));
+    if (hasOverlay) {
+      ctx.fillStyle = "rgb(255,160,0)";
+      ctx.fillText(`overlay: ${overlayLabel ?? "map"} ${overlayMode === "velocity" ? "(red towards, blue away)" : "(0..1)"}`, lx, (12 + 16 * lines.length) * pixelRatio);
     }
   }
 
+  /**
+   * Scan convert the frame (and any overlay, with the same grid) into `img`: log compression
+   * against `maxV` with the display settings, then colour; pixels outside the scan stay dark.
+   */
+  function paintImage(img: ImageData, converter: ScanConverter, frame: number[][], maxV: number) {
+    const { pixels } = converter.convert(frame);
+    // nearest for velocity: interpolating across an aliasing wrap or the NaN mask would invent velocities
+    const overlayPixels = hasOverlay ? converter.convert(overlay!, overlayMode === "velocity" ? "nearest" : "bilinear").pixels : undefined;
+    const level = grayLevels(maxV);
+    let ptr = 0;
+    for (let j = 0; j < img.height; j++) {
+      for (let i = 0; i < img.width; i++) {
+        const norm = level(pixels[j][i]);
+        if (Number.isNaN(norm)) { img.data[ptr++]=8; img.data[ptr++]=8; img.data[ptr++]=8; img.data[ptr++]=255; continue; }
+        const ccol = shade(norm, overlayPixels ? overlayPixels[j][i] : NaN);
+        img.data[ptr++]=ccol[0]; img.data[ptr++]=ccol[1]; img.data[ptr++]=ccol[2]; img.data[ptr++]=255;
+      }
+    }
+  }
+
+  /**
+   * Pixel colour for a B-mode gray level; with an overlay, grayscale tinted by the overlay
+   * value `o` there, or in velocity mode replaced by the flow colour wherever `o` is not NaN.
+   */
+  function shade(norm: number, o: number): [number, number, number] {
+    if (!hasOverlay) return colorMap(norm);
+    const g = valueToGray(norm);
+    if (Number.isNaN(o)) return g;
+    if (overlayMode === "velocity") return valueToVelocity(o);
+    const w = Math.min(1, Math.max(0, o));
+    const tint = valueToHot(w);
+    const a = OVERLAY_OPACITY * w;
+    return [Math.round(g[0] * (1 - a) + tint[0] * a), Math.round(g[1] * (1 - a) + tint[1] * a), Math.round(g[2] * (1 - a) + tint[2] * a)];
+  }
+
   function sampleFrameBilinear(frame: number[][], scanIdx: number, sampleIdx: number): number { const L0=Math.floor(scanIdx), L1=L0+1, s0=Math.floor(sampleIdx), s1=s0+1; const a=scanIdx-L0, b=sampleIdx-s0; const v00=getFrameVal(frame,L0,s0), v10=getFrameVal(frame,L1,s0), v01=getFrameVal(frame,L0,s1), v11=getFrameVal(frame,L1,s1); const v0=v00*(1-a)+v10*a; const v1=v01*(1-a)+v11*a; return v0*(1-b)+v1*b; }
 
   function getFrameVal(frame: number[][], L:number, s:number): number { if (L<0 || L>=frame.length) return 0; if (s<0 || s>=frame[0].length) return 0; return frame[L][s]; }
 
-  const valueToTurbo = (t: number): [number, number, number] => {
-    const r = Math.round(255 * Math.min(1, Math.max(0, 1.25 * t - 0.25)));
-    const g = Math.round(255 * Math.min(1, Math.max(0, 1.25 * (1 - Math.abs(t - 0.5) * 2))))
-    const b = Math.round(255 * Math.min(1, Math.max(0, 1.25 * (1 - t) - 0.25)));
-    return [r, g, b];
+  const valueToGray = (t: number): [number, number, number] => {
+    const v = Math.round(255 * Math.min(1, Math.max(0, t)));
+    return [v, v, v];
+  };
+
+  /** Signed flow colour: dark red to yellow for t > 0, dark blue to cyan for t < 0. */
+  const valueToVelocity = (t: number): [number, number, number] => {
+    const a = Math.min(1, Math.abs(t));
+    const hi = Math.round(255 * Math.min(1, 0.3 + 1.4 * a));
+    const lo = Math.round(255 * Math.max(0, 2 * a - 1));
+    return t >= 0 ? [hi, lo, 0] : [0, lo, hi];
   };
 
+  const valueToHot = (t: number): [number, number, number] => [
+    Math.round(255 * Math.min(1, Math.max(0, 3 * t))),
+    Math.round(255 * Math.min(1, Math.max(0, 3 * t - 1))),
+    Math.round(255 * Math.min(1, Math.max(0, 3 * t - 2))),
+  ];
+
   return (
     <div className="inline-block m-2 rounded shadow-md overflow-hidden" style={{ background: 'black' }}>
-      <div className="relative">
-        <canvas ref={canvasRef} style={{ imageRendering: "pixelated", display: 'block' }} />
-        <div className="absolute right-2 top-2 opacity-0 hover:opacity-100 transition-opacity">
-          <Button variant="outline" onClick={download}>Download PNG</Button>
+      <div className="flex">
+        <div className="relative">
+          <canvas ref={canvasRef} onClick={pick} style={{ imageRendering: "pixelated", display: 'block', cursor: onPickScanline ? 'crosshair' : undefined }} />
+          <div className="absolute right-2 top-2 flex gap-2 opacity-0 hover:opacity-100 transition-opacity">
+            <Button variant="outline" onClick={download}>Download PNG</Button>
+            {cfg && <Button variant="outline" onClick={downloadDicom}>Download DICOM</Button>}
+          </div>
+        </div>
+        {mmode && <canvas ref={mmodeCanvasRef} style={{ display: 'block' }} />}
+      </div>
+      {cine && cine.count > 0 && (
+        <div className="flex items-center gap-3 px-3 py-2 text-white text-sm">
+          <Button variant="outline" className="text-black" onClick={cine.onTogglePlay}>{cine.playing ? "Pause" : "Play"}</Button>
+          <div className="flex-1">
+            <Slider value={[cine.index]} min={0} max={Math.max(0, cine.count - 1)} step={1} onValueChange={(v:any)=>cine.onSeek(v[0]||0)} />
+          </div>
+          <div className="font-mono whitespace-nowrap">{cine.index + 1}/{cine.count} · {(cine.timeS * 1000).toFixed(0)} ms</div>
         </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3 px-3 py-2 text-white text-sm">
+        <span className="font-semibold">Animated PNG</span>
+        <label className="flex items-center gap-1">Frames
+          <Input type="number" min={1} max={200} value={apngFrames} disabled={!!recording} onChange={e=>setApngFrames(Math.min(200, Math.max(1, parseInt(e.target.value,10)||1)))} className="w-20 h-8"/>
+        </label>
+        <label className="flex items-center gap-1">Delay (ms)
+          <Input type="number" min={10} max={65535} step={10} value={apngDelayMs} disabled={!!recording} onChange={e=>setApngDelayMs(Math.min(65535, Math.max(10, parseInt(e.target.value,10)||100)))} className="w-24 h-8"/>
+        </label>
+        <label className="flex items-center gap-1">Loops (0 = forever)
+          <Input type="number" min={0} value={apngLoops} disabled={!!recording} onChange={e=>setApngLoops(Math.max(0, parseInt(e.target.value,10)||0))} className="w-20 h-8"/>
+        </label>
+        {recording ? (
+          <>
+            <Button variant="outline" className="text-black" onClick={finishRecording}>Stop & save</Button>
+            <div className="font-mono whitespace-nowrap">{recording.captured}/{recording.target} frames · captured as they are drawn (Auto Run or Play)</div>
+          </>
+        ) : (
+          <Button variant="outline" className="text-black" onClick={startRecording}>Record</Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,106 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Cine controls for the dynamic page: scatterer trajectory, frame count and frame rate.
+ */
+
+import React from "react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../ui/select";
+import { Point2D, Trajectory } from "@aloe/core";
+
+type MotionType = "none" | Trajectory["type"];
+
+const Row = (props: { children: React.ReactNode; className?: string }) => (
+  <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
+);
+
+/** Starting parameters for each trajectory: a slow drift, a 2 mm axial heartbeat at 1.2 Hz, 30°/s. */
+function defaultTrajectory(type: MotionType, rotationCenter: Point2D): Trajectory | undefined {
+  switch (type) {
+    case "none": return undefined;
+    case "constant": return { type, vx: 0, vz: 0.01 };
+    case "sinusoidal": return { type, amplitude: { x: 0, z: 0.002 }, frequencyHz: 1.2 };
+    case "rotation": return { type, center: rotationCenter, angularVelocityDegPerS: 30 };
+  }
+}
+
+export default function CineConfig(props: {
+  /** Motion applied to every pulsed / phantom scatterer; undefined for none */
+  motion: Trajectory | undefined; setMotion: (v:Trajectory | undefined)=>void;
+  frames: number; setFrames: (v:number)=>void;
+  fps: number; setFps: (v:number)=>void;
+  /** Pivot used when rotation is picked (meters), e.g. the middle of the view */
+  rotationCenter: Point2D;
+  /** Highest frame rate the current acquisition allows (Hz), if known */
+  maxFps?: number;
+}){
+  const { motion, setMotion, frames, setFrames, fps, setFps, rotationCenter, maxFps } = props;
+  const type: MotionType = motion?.type ?? "none";
+  return (
+    <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+      <Row>
+        <Label htmlFor="motion" className="whitespace-nowrap shrink-0">Motion</Label>
+        <Select value={type} onValueChange={(v:any)=>setMotion(defaultTrajectory(v, rotationCenter))}>
+          <SelectTrigger className="min-w-[8rem] w-full max-w-[14rem]"><SelectValue placeholder={type}/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            <SelectItem value="constant">Constant velocity</SelectItem>
+            <SelectItem value="sinusoidal">Sinusoidal (heartbeat)</SelectItem>
+            <SelectItem value="rotation">Rotation</SelectItem>
+          </SelectContent>
+        </Select>
+      </Row>
+      {motion?.type === "constant" && (
+        <>
+          <Row>
+            <Label htmlFor="mvx" className="whitespace-nowrap shrink-0">vx (mm/s)</Label>
+            <Input id="mvx" type="number" step={1} value={+((motion.vx ?? 0) * 1000).toFixed(3)} onChange={e=>setMotion({ ...motion, vx: (parseFloat(e.target.value)||0) / 1000 })} className="w-full"/>
+          </Row>
+          <Row>
+            <Label htmlFor="mvz" className="whitespace-nowrap shrink-0">vz (mm/s)</Label>
+            <Input id="mvz" type="number" step={1} value={+((motion.vz ?? 0) * 1000).toFixed(3)} onChange={e=>setMotion({ ...motion, vz: (parseFloat(e.target.value)||0) / 1000 })} className="w-full"/>
+          </Row>
+        </>
+      )}
+      {motion?.type === "sinusoidal" && (
+        <>
+          <Row>
+            <Label htmlFor="max" className="whitespace-nowrap shrink-0">Amplitude x (mm)</Label>
+            <Input id="max" type="number" step={0.5} value={+(motion.amplitude.x * 1000).toFixed(3)} onChange={e=>setMotion({ ...motion, amplitude: { ...motion.amplitude, x: (parseFloat(e.target.value)||0) / 1000 } })} className="w-full"/>
+          </Row>
+          <Row>
+            <Label htmlFor="maz" className="whitespace-nowrap shrink-0">Amplitude z (mm)</Label>
+            <Input id="maz" type="number" step={0.5} value={+(motion.amplitude.z * 1000).toFixed(3)} onChange={e=>setMotion({ ...motion, amplitude: { ...motion.amplitude, z: (parseFloat(e.target.value)||0) / 1000 } })} className="w-full"/>
+          </Row>
+          <Row>
+            <Label htmlFor="mhz" className="whitespace-nowrap shrink-0">Rate (Hz)</Label>
+            <Input id="mhz" type="number" step={0.1} min={0} value={motion.frequencyHz} onChange={e=>setMotion({ ...motion, frequencyHz: Math.max(0, parseFloat(e.target.value)||0) })} className="w-full"/>
+          </Row>
+        </>
+      )}
+      {motion?.type === "rotation" && (
+        <Row>
+          <Label htmlFor="mrot" className="whitespace-nowrap shrink-0">Angular speed (°/s)</Label>
+          <Input id="mrot" type="number" step={5} value={motion.angularVelocityDegPerS} onChange={e=>setMotion({ ...motion, angularVelocityDegPerS: parseFloat(e.target.value)||0 })} className="w-full"/>
+        </Row>
+      )}
+      <Row>
+        <Label htmlFor="frames" className="whitespace-nowrap shrink-0">Frames</Label>
+        <Input id="frames" type="number" min={1} value={frames} onChange={e=>setFrames(Math.max(1, parseInt(e.target.value,10)||1))} className="w-full"/>
+      </Row>
+      <Row>
+        <Label htmlFor="fps" className="whitespace-nowrap shrink-0">Frame rate (Hz)</Label>
+        <Input id="fps" type="number" min={1} max={maxFps !== undefined ? Math.floor(maxFps) : undefined} value={fps} onChange={e=>setFps(Math.max(1, parseFloat(e.target.value)||1))} className="w-full"/>
+      </Row>
+      {maxFps !== undefined && (
+        <Row className="col-span-full">
+          <div className="text-sm text-muted-foreground">
+            Sequence {(frames / fps).toFixed(2)} s · acquisition limit {Math.floor(maxFps)} Hz{fps > maxFps ? " (exceeded)" : ""}
+          </div>
+        </Row>
+      )}
+    </div>
+  );
+}
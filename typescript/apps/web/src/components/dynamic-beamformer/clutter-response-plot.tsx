@@ -0,0 +1,79 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Clutter filter frequency response, drawn on the same vertical Doppler axis as the PW spectrogram.
+ */
+
+import React from "react";
+import { ClutterFilterReport } from "@aloe/core";
+
+// lowest gain shown (dB)
+const FLOOR_DB = -60;
+
+export default function ClutterResponsePlot(props: {
+  report: ClutterFilterReport;
+  /** Largest unaliased speed (m/s), for the ±PRF/2 axis labels */
+  nyquistVelocity: number;
+}){
+  const { report, nyquistVelocity } = props;
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+
+  React.useEffect(() => { draw(); }, [report, nyquistVelocity]);
+
+  function draw() {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const { frequenciesHz, gainDb } = report.response;
+    // same height and vertical margins as the spectrogram so the frequency axes line up
+    const displayW = 200; const displayH = 240;
+    const pixelRatio = Math.max(1, Math.min(4, Math.round(window.devicePixelRatio || 1)));
+    const iw = displayW * pixelRatio; const ih = displayH * pixelRatio;
+    canvas.width = iw; canvas.height = ih;
+    canvas.style.width = displayW + 'px'; canvas.style.height = displayH + 'px';
+    const ctx = canvas.getContext("2d"); if (!ctx) return;
+    ctx.fillStyle = "rgb(8,8,8)"; ctx.fillRect(0, 0, iw, ih);
+
+    const left = 16 * pixelRatio; const right = 12 * pixelRatio; const top = 12 * pixelRatio; const bottom = 28 * pixelRatio;
+    const pw = iw - left - right; const ph = ih - top - bottom;
+    const n = frequenciesHz.length;
+    if (n > 1) {
+      const fMax = -frequenciesHz[0]; // frequencies run from -PRF/2
+      ctx.strokeStyle = "rgb(80,200,255)"; ctx.lineWidth = 1.5 * pixelRatio;
+      ctx.beginPath();
+      for (let k = 0; k < n; k++) {
+        const g = Math.max(FLOOR_DB, Math.min(0, gainDb[k]));
+        const x = left + (1 - g / FLOOR_DB) * pw;
+        const y = top + (0.5 - frequenciesHz[k] / (2 * fMax)) * ph;
+        if (k === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    }
+
+    ctx.strokeStyle = "white"; ctx.lineWidth = 1 * pixelRatio;
+    ctx.strokeRect(left, top, pw, ph);
+    ctx.strokeStyle = "rgba(255,255,255,0.5)";
+    ctx.beginPath(); ctx.moveTo(left, top + ph / 2); ctx.lineTo(left + pw, top + ph / 2); ctx.stroke();
+    // -3 dB guide
+    const x3 = left + (1 - -3 / FLOOR_DB) * pw;
+    ctx.setLineDash([4 * pixelRatio, 4 * pixelRatio]);
+    ctx.beginPath(); ctx.moveTo(x3, top); ctx.lineTo(x3, top + ph); ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = "white"; ctx.font = `${11 * pixelRatio}px monospace`;
+    ctx.textAlign = "left";
+    ctx.fillText(`${FLOOR_DB} dB`, left, ih - 8 * pixelRatio);
+    ctx.textAlign = "right";
+    ctx.fillText("0 dB", left + pw, ih - 8 * pixelRatio);
+    const cms = +(nyquistVelocity * 100).toFixed(1);
+    ctx.fillText(`±${cms} cm/s`, left + pw - 4 * pixelRatio, top + 14 * pixelRatio);
+    if (report.clutterRank !== undefined) {
+      ctx.fillText(`rank ${report.clutterRank}`, left + pw - 4 * pixelRatio, top + ph - 6 * pixelRatio);
+    }
+  }
+
+  return (
+    <div className="inline-block m-2 rounded shadow-md overflow-hidden" style={{ background: 'black' }}>
+      <canvas ref={canvasRef} style={{ display: 'block' }} />
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Display controls for the dynamic page: gain, dynamic range, gray map and colour map.
+ */
+
+import React from "react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Slider } from "../ui/slider";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../ui/select";
+import { COLOR_MAP_NAMES, ColorMapName, GrayMap } from "@aloe/core";
+
+const Row = (props: { children: React.ReactNode; className?: string }) => (
+  <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
+);
+
+/** Starting parameters for each gray map: a gamma that lifts weak echoes, the default logistic slope. */
+function defaultGrayMap(type: GrayMap["type"]): GrayMap {
+  switch (type) {
+    case "linear": return { type };
+    case "gamma": return { type, gamma: 0.7 };
+    case "s-curve": return { type, contrast: 8 };
+  }
+}
+
+export default function DisplayConfig(props: {
+  /** Added to every echo level before mapping (dB) */
+  gainDb: number; setGainDb: (v:number)=>void;
+  /** Span of echo levels between black and white (dB) */
+  dynamicRangeDb: number; setDynamicRangeDb: (v:number)=>void;
+  grayMap: GrayMap; setGrayMap: (v:GrayMap)=>void;
+  colorMap: ColorMapName; setColorMap: (v:ColorMapName)=>void;
+}){
+  const { gainDb, setGainDb, dynamicRangeDb, setDynamicRangeDb, grayMap, setGrayMap, colorMap, setColorMap } = props;
+  return (
+    <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+      <Row>
+        <Label htmlFor="gain" className="whitespace-nowrap shrink-0">Gain (dB)</Label>
+        <div className="flex-1 min-w-[8rem]">
+          <Slider value={[gainDb]} min={-30} max={30} step={1} onValueChange={(v:any)=>setGainDb(v[0] ?? 0)} />
+        </div>
+        <div className="text-sm text-muted-foreground">{gainDb}</div>
+      </Row>
+      <Row>
+        <Label htmlFor="drange" className="whitespace-nowrap shrink-0">Dynamic range (dB)</Label>
+        <div className="flex-1 min-w-[8rem]">
+          <Slider value={[dynamicRangeDb]} min={10} max={100} step={5} onValueChange={(v:any)=>setDynamicRangeDb(v[0] || 60)} />
+        </div>
+        <div className="text-sm text-muted-foreground">{dynamicRangeDb}</div>
+      </Row>
+      <Row>
+        <Label htmlFor="graymap" className="whitespace-nowrap shrink-0">Gray map</Label>
+        <Select value={grayMap.type} onValueChange={(v:any)=>setGrayMap(defaultGrayMap(v))}>
+          <SelectTrigger className="min-w-[8rem] w-full max-w-[14rem]"><SelectValue placeholder={grayMap.type}/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="linear">Linear</SelectItem>
+            <SelectItem value="gamma">Gamma</SelectItem>
+            <SelectItem value="s-curve">S-curve</SelectItem>
+          </SelectContent>
+        </Select>
+      </Row>
+      {grayMap.type === "gamma" && (
+        <Row>
+          <Label htmlFor="gamma" className="whitespace-nowrap shrink-0">Gamma</Label>
+          <Input id="gamma" type="number" step={0.1} min={0.1} value={grayMap.gamma} onChange={e=>setGrayMap({ ...grayMap, gamma: Math.max(0.1, parseFloat(e.target.value)||1) })} className="w-full"/>
+        </Row>
+      )}
+      {grayMap.type === "s-curve" && (
+        <Row>
+          <Label htmlFor="contrast" className="whitespace-nowrap shrink-0">Contrast</Label>
+          <Input id="contrast" type="number" step={1} min={1} value={grayMap.contrast ?? 8} onChange={e=>setGrayMap({ ...grayMap, contrast: Math.max(1, parseFloat(e.target.value)||8) })} className="w-full"/>
+        </Row>
+      )}
+      <Row>
+        <Label htmlFor="colormap" className="whitespace-nowrap shrink-0">Colour map</Label>
+        <Select value={colorMap} onValueChange={(v:any)=>setColorMap(v)}>
+          <SelectTrigger className="min-w-[8rem] w-full max-w-[14rem]"><SelectValue placeholder={colorMap}/></SelectTrigger>
+          <SelectContent>
+            {COLOR_MAP_NAMES.map(name => <SelectItem key={name} value={name}>{name[0].toUpperCase() + name.slice(1)}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </Row>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Doppler controls for the dynamic page: colour flow (ensemble, power threshold), pulsed wave (sample gate, spectrogram) and the clutter filter.
+ */
+
+import React from "react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Slider } from "../ui/slider";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../ui/select";
+import { ClutterFilter } from "@aloe/core";
+
+export type DopplerMode = "off" | "color" | "pw";
+
+/** A filter of the chosen type, keeping the current cutoff where both have one. */
+function defaultClutterFilter(type: ClutterFilter["type"], prfHz: number, current: ClutterFilter): ClutterFilter {
+  const cutoffHz = "cutoffHz" in current ? current.cutoffHz : Math.round(prfHz / 10);
+  switch (type) {
+    case "none": return { type };
+    case "fir": return { type, cutoffHz, taps: 5 };
+    case "iir": return { type, cutoffHz, order: 2 };
+    case "regression": return { type, order: 1 };
+    case "svd": return { type, clutterRank: "auto" };
+  }
+}
+
+const Row = (props: { children: React.ReactNode; className?: string }) => (
+  <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
+);
+
+export default function DopplerConfig(props: {
+  mode: DopplerMode; setMode: (v:DopplerMode)=>void;
+  ensembleSize: number; setEnsembleSize: (v:number)=>void;
+  prfHz: number; setPrfHz: (v:number)=>void;
+  wallFilter: ClutterFilter; setWallFilter: (v:ClutterFilter)=>void;
+  powerThresholdDb: number; setPowerThresholdDb: (v:number)=>void;
+  /** PW sample gate: scanline, centre depth and length (mm) */
+  gateLine: number; setGateLine: (v:number)=>void;
+  gateDepthMm: number; setGateDepthMm: (v:number)=>void;
+  gateLengthMm: number; setGateLengthMm: (v:number)=>void;
+  /** PW slow-time samples and spectrogram FFT size */
+  pulses: number; setPulses: (v:number)=>void;
+  fftSize: number; setFftSize: (v:number)=>void;
+  scanLines: number;
+  maxDepthMm: number;
+  /** Largest unaliased speed for the current PRF and frequency (m/s) */
+  nyquistVelocity: number;
+  /** Highest PRF the record depth allows (Hz) */
+  maxPrfHz: number;
+}){
+  const { mode, setMode, ensembleSize, setEnsembleSize, prfHz, setPrfHz, wallFilter, setWallFilter, powerThresholdDb, setPowerThresholdDb, gateLine, setGateLine, gateDepthMm, setGateDepthMm, gateLengthMm, setGateLengthMm, pulses, setPulses, fftSize, setFftSize, scanLines, maxDepthMm, nyquistVelocity, maxPrfHz } = props;
+  return (
+    <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+      <Row>
+        <Label htmlFor="dmode" className="whitespace-nowrap shrink-0">Mode (line-by-line only)</Label>
+        <Select value={mode} onValueChange={(v:any)=>setMode(v)}>
+          <SelectTrigger className="min-w-[8rem] w-full max-w-[14rem]"><SelectValue placeholder={mode}/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">Off</SelectItem>
+            <SelectItem value="color">Colour flow</SelectItem>
+            <SelectItem value="pw">Pulsed wave</SelectItem>
+          </SelectContent>
+        </Select>
+      </Row>
+      {mode !== "off" && (
+        <>
+          {mode === "color" ? (
+            <Row>
+              <Label htmlFor="ens" className="whitespace-nowrap shrink-0">Ensemble</Label>
+              <Input id="ens" type="number" min={2} value={ensembleSize} onChange={e=>setEnsembleSize(Math.max(2, parseInt(e.target.value,10)||2))} className="w-full"/>
+            </Row>
+          ) : (
+            <>
+              <Row className="col-span-full">
+                <Label htmlFor="gline" className="whitespace-nowrap shrink-0">Gate line</Label>
+                <div className="flex-1 min-w-[8rem]">
+                  <Slider value={[gateLine]} min={0} max={Math.max(0, scanLines - 1)} step={1} onValueChange={(v:any)=>setGateLine(v[0]||0)} />
+                </div>
+                <div className="text-sm text-muted-foreground">{gateLine}</div>
+              </Row>
+              <Row className="col-span-full">
+                <Label htmlFor="gdepth" className="whitespace-nowrap shrink-0">Gate depth</Label>
+                <div className="flex-1 min-w-[8rem]">
+                  <Slider value={[gateDepthMm]} min={0} max={Math.max(1, Math.floor(maxDepthMm))} step={0.5} onValueChange={(v:any)=>setGateDepthMm(v[0]||0)} />
+                </div>
+                <div className="text-sm text-muted-foreground">{gateDepthMm} mm</div>
+              </Row>
+              <Row>
+                <Label htmlFor="glen" className="whitespace-nowrap shrink-0">Gate length (mm)</Label>
+                <Input id="glen" type="number" step={0.5} min={0.1} value={gateLengthMm} onChange={e=>setGateLengthMm(Math.max(0.1, parseFloat(e.target.value)||0.1))} className="w-full"/>
+              </Row>
+              <Row>
+                <Label htmlFor="pulses" className="whitespace-nowrap shrink-0">Pulses</Label>
+                <Input id="pulses" type="number" min={2} value={pulses} onChange={e=>setPulses(Math.max(2, parseInt(e.target.value,10)||2))} className="w-full"/>
+              </Row>
+              <Row>
+                <Label htmlFor="nfft" className="whitespace-nowrap shrink-0">FFT size</Label>
+                <Select value={String(fftSize)} onValueChange={(v:any)=>setFftSize(parseInt(v,10))}>
+                  <SelectTrigger className="min-w-[6rem] w-full max-w-[10rem]"><SelectValue placeholder={String(fftSize)}/></SelectTrigger>
+                  <SelectContent>
+                    {[16, 32, 64, 128, 256].map(n => <SelectItem key={n} value={String(n)}>{n}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </Row>
+            </>
+          )}
+          <Row>
+            <Label htmlFor="prf" className="whitespace-nowrap shrink-0">PRF (Hz)</Label>
+            <Input id="prf" type="number" step={500} min={1} max={Math.floor(maxPrfHz)} value={prfHz} onChange={e=>setPrfHz(Math.max(1, parseFloat(e.target.value)||1))} className="w-full"/>
+          </Row>
+          <Row>
+            <Label htmlFor="wall" className="whitespace-nowrap shrink-0">Wall filter</Label>
+            <Select value={wallFilter.type} onValueChange={(v:any)=>setWallFilter(defaultClutterFilter(v, prfHz, wallFilter))}>
+              <SelectTrigger className="min-w-[8rem] w-full max-w-[14rem]"><SelectValue placeholder={wallFilter.type}/></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                <SelectItem value="fir">FIR high-pass</SelectItem>
+                <SelectItem value="iir">IIR high-pass</SelectItem>
+                <SelectItem value="regression">Polynomial regression</SelectItem>
+                <SelectItem value="svd">SVD</SelectItem>
+              </SelectContent>
+            </Select>
+          </Row>
+          {(wallFilter.type === "fir" || wallFilter.type === "iir") && (
+            <Row>
+              <Label htmlFor="wcut" className="whitespace-nowrap shrink-0">Cutoff (Hz)</Label>
+              <Input id="wcut" type="number" step={50} min={1} max={Math.floor(prfHz / 2) - 1} value={wallFilter.cutoffHz} onChange={e=>setWallFilter({ ...wallFilter, cutoffHz: Math.max(1, parseFloat(e.target.value)||1) })} className="w-full"/>
+            </Row>
+          )}
+          {wallFilter.type === "fir" && (
+            <Row>
+              <Label htmlFor="wtaps" className="whitespace-nowrap shrink-0">Taps</Label>
+              <Input id="wtaps" type="number" step={2} min={3} value={wallFilter.taps ?? 5} onChange={e=>setWallFilter({ ...wallFilter, taps: Math.max(3, parseInt(e.target.value,10)||3) | 1 })} className="w-full"/>
+            </Row>
+          )}
+          {(wallFilter.type === "iir" || wallFilter.type === "regression") && (
+            <Row>
+              <Label htmlFor="word" className="whitespace-nowrap shrink-0">Order</Label>
+              <Input id="word" type="number" min={wallFilter.type === "iir" ? 1 : 0} max={8} value={wallFilter.order ?? 2} onChange={e=>setWallFilter({ ...wallFilter, order: Math.max(wallFilter.type === "iir" ? 1 : 0, parseInt(e.target.value,10)||0) })} className="w-full"/>
+            </Row>
+          )}
+          {wallFilter.type === "svd" && (
+            <Row>
+              <Label htmlFor="wrank" className="whitespace-nowrap shrink-0">Clutter rank</Label>
+              <Select value={String(wallFilter.clutterRank ?? "auto")} onValueChange={(v:any)=>setWallFilter({ type: "svd", clutterRank: v === "auto" ? "auto" : parseInt(v,10) })}>
+                <SelectTrigger className="min-w-[6rem] w-full max-w-[10rem]"><SelectValue placeholder={String(wallFilter.clutterRank ?? "auto")}/></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto</SelectItem>
+                  {[1, 2, 3, 4, 6, 8].map(n => <SelectItem key={n} value={String(n)}>{n}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </Row>
+          )}
+          {mode === "color" && (
+            <Row>
+              <Label htmlFor="pthr" className="whitespace-nowrap shrink-0">Power threshold (dB)</Label>
+              <Input id="pthr" type="number" max={0} value={powerThresholdDb} onChange={e=>setPowerThresholdDb(Math.min(0, parseFloat(e.target.value)||0))} className="w-full"/>
+            </Row>
+          )}
+          <Row className="col-span-full">
+            <div className="text-sm text-muted-foreground">
+              Nyquist velocity ±{+(nyquistVelocity * 100).toFixed(1)} cm/s · PRF limit {Math.floor(maxPrfHz)} Hz{prfHz > maxPrfHz ? " (exceeded)" : ""}
+            </div>
+          </Row>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Pulsed-wave Doppler spectrogram display with directional audio playback and WAV download.
+ */
+
+import React from "react";
+import { Button } from "../ui/button";
+import { PwDopplerResult, dopplerAudio, encodeWav } from "@aloe/core";
+import { WebStorage } from "@aloe/adapters-web";
+
+// spectrogram display range below the peak (dB)
+const DYNAMIC_RANGE_DB = 40;
+
+const storage = new WebStorage();
+
+export default function DopplerSpectrogramViewer(props: { result: PwDopplerResult }){
+  const { result } = props;
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+
+  React.useEffect(() => { draw(); }, [result]);
+
+  function draw() {
+    const canvas = canvasRef.current;
+    const { powerDb, timesS } = result.spectrogram;
+    if (!canvas) return;
+    const displayW = 700; const displayH = 240;
+    const pixelRatio = Math.max(1, Math.min(4, Math.round(window.devicePixelRatio || 1)));
+    const iw = displayW * pixelRatio; const ih = displayH * pixelRatio;
+    canvas.width = iw; canvas.height = ih;
+    canvas.style.width = displayW + 'px'; canvas.style.height = displayH + 'px';
+    const ctx = canvas.getContext("2d"); if (!ctx) return;
+    ctx.fillStyle = "rgb(8,8,8)"; ctx.fillRect(0, 0, iw, ih);
+
+    const left = 80 * pixelRatio; const right = 16 * pixelRatio; const top = 12 * pixelRatio; const bottom = 28 * pixelRatio;
+    const pw = iw - left - right; const ph = ih - top - bottom;
+    const cols = powerDb.length; const bins = cols > 0 ? powerDb[0].length : 0;
+    if (cols > 0 && bins > 0) {
+      const img = ctx.createImageData(pw, ph);
+      let ptr = 0;
+      for (let y = 0; y < ph; y++) {
+        // top row is the most positive velocity (towards the array)
+        const bin = Math.min(bins - 1, Math.floor((1 - y / ph) * bins));
+        for (let x = 0; x < pw; x++) {
+          const col = Math.min(cols - 1, Math.floor((x / pw) * cols));
+          const norm = Math.max(0, 1 + powerDb[col][bin] / DYNAMIC_RANGE_DB);
+          const v = Math.round(255 * norm);
+          img.data[ptr++] = v; img.data[ptr++] = v; img.data[ptr++] = v; img.data[ptr++] = 255;
+        }
+      }
+      ctx.putImageData(img, left, top);
+    }
+
+    ctx.strokeStyle = "white"; ctx.lineWidth = 1 * pixelRatio;
+    ctx.strokeRect(left, top, pw, ph);
+    // zero-velocity baseline
+    ctx.strokeStyle = "rgba(255,255,255,0.5)";
+    ctx.beginPath(); ctx.moveTo(left, top + ph / 2); ctx.lineTo(left + pw, top + ph / 2); ctx.stroke();
+
+    ctx.fillStyle = "white"; ctx.font = `${11 * pixelRatio}px monospace`; ctx.textAlign = "right";
+    const cms = +(result.nyquistVelocity * 100).toFixed(1);
+    ctx.fillText(`+${cms}`, left - 6 * pixelRatio, top + 10 * pixelRatio);
+    ctx.fillText("0", left - 6 * pixelRatio, top + ph / 2 + 4 * pixelRatio);
+    ctx.fillText(`-${cms}`, left - 6 * pixelRatio, top + ph);
+    ctx.fillText("cm/s", left - 6 * pixelRatio, top + ph / 4 + 4 * pixelRatio);
+    ctx.textAlign = "left";
+    const t0 = timesS[0] ?? 0; const t1 = timesS[timesS.length - 1] ?? 0;
+    ctx.fillText(`${(t0 * 1000).toFixed(1)} ms`, left, ih - 8 * pixelRatio);
+    ctx.textAlign = "right";
+    ctx.fillText(`${(t1 * 1000).toFixed(1)} ms`, left + pw, ih - 8 * pixelRatio);
+  }
+
+  const play = () => {
+    const audio = dopplerAudio(result.signal);
+    const context = new AudioContext();
+    const buffer = context.createBuffer(2, audio.towards.length, Math.round(result.prfHz));
+    buffer.getChannelData(0).set(audio.towards);
+    buffer.getChannelData(1).set(audio.away);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.onended = () => { context.close(); };
+    source.start();
+  };
+
+  const download = () => {
+    const audio = dopplerAudio(result.signal);
+    storage.saveBinary("pw-doppler.wav", encodeWav([audio.towards, audio.away], result.prfHz));
+  };
+
+  return (
+    <div className="inline-block m-2 rounded shadow-md overflow-hidden" style={{ background: 'black' }}>
+      <div className="relative">
+        <canvas ref={canvasRef} style={{ display: 'block' }} />
+        <div className="absolute right-2 top-2 flex gap-2 opacity-0 hover:opacity-100 transition-opacity">
+          <Button variant="outline" onClick={play}>Play</Button>
+          <Button variant="outline" onClick={download}>Download WAV</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,10 +17,23 @@ export default function DynamicBeamformConfig(props: {
   dtUs: number; setDtUs: (v:number)=>void;
   c: number; setC: (v:number)=>void;
   rangePos: number; setRangePos: (v:number)=>void;
+  scanType: "phased"|"linear"; setScanType: (v:"phased"|"linear")=>void;
+  linearRangeMm: number; setLinearRangeMm: (v:number)=>void;
+  activeElements: number; setActiveElements: (v:number)=>void;
 }){
-  const { scanLines, setScanLines, samples, setSamples, elements, setElements, spacingValue, setSpacingValue, spacingUnit, setSpacingUnit, dtUs, setDtUs, c, setC, rangePos, setRangePos } = props;
+  const { scanLines, setScanLines, samples, setSamples, elements, setElements, spacingValue, setSpacingValue, spacingUnit, setSpacingUnit, dtUs, setDtUs, c, setC, rangePos, setRangePos, scanType, setScanType, linearRangeMm, setLinearRangeMm, activeElements, setActiveElements } = props;
   return (
     <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+      <Row>
+        <Label htmlFor="scantype" className="whitespace-nowrap shrink-0">Scan type</Label>
+        <Select value={scanType} onValueChange={(v: any)=>setScanType(v)}>
+          <SelectTrigger className="min-w-[8rem] w-full"><SelectValue placeholder={scanType} /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="phased">phased</SelectItem>
+            <SelectItem value="linear">linear</SelectItem>
+          </SelectContent>
+        </Select>
+      </Row>
       <Row>
         <Label htmlFor="scanlines" className="whitespace-nowrap shrink-0">Scan lines</Label>
         <Input id="scanlines" type="number" value={scanLines} onChange={e=>setScanLines(parseInt(e.target.value,10)||0)} className="w-full"/>
@@ -54,13 +67,29 @@ export default function DynamicBeamformConfig(props: {
         <Label htmlFor="c" className="whitespace-nowrap shrink-0">c (m/s)</Label>
         <Input id="c" type="number" value={c} onChange={e=>setC(parseFloat(e.target.value)||0)} className="w-full"/>
       </Row>
-      <Row>
-        <Label htmlFor="range" className="whitespace-nowrap shrink-0">Range (deg)</Label>
-        <div className="flex-1 min-w-[8rem]">
-          <Slider value={[rangePos]} min={1} max={90} onValueChange={(v:any)=>setRangePos(v[0]||1)} />
-        </div>
-        <div className="text-sm text-muted-foreground">±{rangePos}°</div>
-      </Row>
+      {scanType === "phased" ? (
+        <Row>
+          <Label htmlFor="range" className="whitespace-nowrap shrink-0">Range (deg)</Label>
+          <div className="flex-1 min-w-[8rem]">
+            <Slider value={[rangePos]} min={1} max={90} onValueChange={(v:any)=>setRangePos(v[0]||1)} />
+          </div>
+          <div className="text-sm text-muted-foreground">±{rangePos}°</div>
+        </Row>
+      ) : (
+        <>
+          <Row>
+            <Label htmlFor="range" className="whitespace-nowrap shrink-0">Range (mm)</Label>
+            <div className="flex-1 min-w-[8rem]">
+              <Slider value={[linearRangeMm]} min={0.5} max={50} step={0.5} onValueChange={(v:any)=>setLinearRangeMm(v[0]||0.5)} />
+            </div>
+            <div className="text-sm text-muted-foreground">±{linearRangeMm} mm</div>
+          </Row>
+          <Row>
+            <Label htmlFor="active" className="whitespace-nowrap shrink-0">Active elements</Label>
+            <Input id="active" type="number" value={activeElements} onChange={e=>setActiveElements(parseInt(e.target.value,10)||0)} className="w-full"/>
+          </Row>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,101 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Generator selection and pulsed-scatterer / transmit pulse controls for the dynamic page.
+ */
+
+import React from "react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../ui/select";
+import { PulseShape } from "@aloe/core";
+
+const Row = (props: { children: React.ReactNode; className?: string }) => (
+  <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
+);
+
+export type GeneratorType = "point" | "pulsed" | "phantom";
+
+export default function GeneratorConfig(props: {
+  genType: GeneratorType; setGenType: (v: GeneratorType)=>void;
+  scatterersText: string; setScatterersText: (v:string)=>void;
+  pulseShape: PulseShape; setPulseShape: (v: PulseShape)=>void;
+  bandwidth: number; setBandwidth: (v:number)=>void;
+  cycles: number; setCycles: (v:number)=>void;
+  waveformText: string; setWaveformText: (v:string)=>void;
+  seed: number; setSeed: (v:number)=>void;
+  density: number; setDensity: (v:number)=>void;
+  /** Peak flow speed (m/s) of the phantom's vessel; 0 for no vessel */
+  vesselVelocity: number; setVesselVelocity: (v:number)=>void;
+}){
+  const { genType, setGenType, scatterersText, setScatterersText, pulseShape, setPulseShape, bandwidth, setBandwidth, cycles, setCycles, waveformText, setWaveformText, seed, setSeed, density, setDensity, vesselVelocity, setVesselVelocity } = props;
+  return (
+    <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+      <Row>
+        <Label htmlFor="gen" className="whitespace-nowrap shrink-0">Generator</Label>
+        <Select value={genType} onValueChange={(v:any)=>setGenType(v)}>
+          <SelectTrigger className="min-w-[10rem] w-full max-w-[16rem]"><SelectValue placeholder={genType}/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="point">Point source (CW)</SelectItem>
+            <SelectItem value="pulsed">Pulsed scatterers</SelectItem>
+            <SelectItem value="phantom">QA phantom</SelectItem>
+          </SelectContent>
+        </Select>
+      </Row>
+      {genType !== "point" && (
+        <>
+          {genType === "pulsed" ? (
+            <Row className="col-span-full">
+              <Label htmlFor="scatterers" className="whitespace-nowrap shrink-0">Scatterers (x,z mm[, vx,vz m/s])</Label>
+              <Input id="scatterers" value={scatterersText} onChange={e=>setScatterersText(e.target.value)} placeholder="0,10; 5,20,0,0.2" className="flex-1 min-w-[8rem]"/>
+            </Row>
+          ) : (
+            <>
+              <Row>
+                <Label htmlFor="seed" className="whitespace-nowrap shrink-0">Seed</Label>
+                <Input id="seed" type="number" value={seed} onChange={e=>setSeed(parseInt(e.target.value,10)||0)} className="w-full"/>
+              </Row>
+              <Row>
+                <Label htmlFor="density" className="whitespace-nowrap shrink-0">Speckle / mm²</Label>
+                <Input id="density" type="number" step="0.5" value={density} onChange={e=>setDensity(parseFloat(e.target.value)||0)} className="w-full"/>
+              </Row>
+              <Row>
+                <Label htmlFor="vessel" className="whitespace-nowrap shrink-0">Vessel flow (m/s)</Label>
+                <Input id="vessel" type="number" step="0.05" value={vesselVelocity} onChange={e=>setVesselVelocity(parseFloat(e.target.value)||0)} className="w-full"/>
+              </Row>
+            </>
+          )}
+          <Row>
+            <Label htmlFor="pulse" className="whitespace-nowrap shrink-0">Pulse</Label>
+            <Select value={pulseShape} onValueChange={(v:any)=>setPulseShape(v)}>
+              <SelectTrigger className="min-w-[10rem] w-full max-w-[16rem]"><SelectValue placeholder={pulseShape}/></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="gaussian">Gaussian</SelectItem>
+                <SelectItem value="tone-burst">Tone burst</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </Row>
+          {pulseShape === "gaussian" && (
+            <Row>
+              <Label htmlFor="bw" className="whitespace-nowrap shrink-0">Fractional BW</Label>
+              <Input id="bw" type="number" step="0.05" value={bandwidth} onChange={e=>setBandwidth(parseFloat(e.target.value)||0)} className="w-full"/>
+            </Row>
+          )}
+          {pulseShape === "tone-burst" && (
+            <Row>
+              <Label htmlFor="cycles" className="whitespace-nowrap shrink-0">Cycles</Label>
+              <Input id="cycles" type="number" value={cycles} onChange={e=>setCycles(parseInt(e.target.value,10)||1)} className="w-full"/>
+            </Row>
+          )}
+          {pulseShape === "custom" && (
+            <Row className="col-span-full">
+              <Label htmlFor="waveform" className="whitespace-nowrap shrink-0">Waveform (at dt)</Label>
+              <Input id="waveform" value={waveformText} onChange={e=>setWaveformText(e.target.value)} placeholder="0, 0.5, 1, 0.5, -0.5, -1, -0.5, 0" className="flex-1 min-w-[8rem]"/>
+            </Row>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: M-mode controls for the dynamic page: fired scanline, line rate, sweep per run and display window.
+ */
+
+import React from "react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Slider } from "../ui/slider";
+import { Switch } from "../ui/switch";
+
+const Row = (props: { children: React.ReactNode; className?: string }) => (
+  <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
+);
+
+export default function MModeConfig(props: {
+  enabled: boolean; setEnabled: (v:boolean)=>void;
+  /** Scanline fired repeatedly; also picked by clicking the image */
+  line: number; setLine: (v:number)=>void;
+  lineRateHz: number; setLineRateHz: (v:number)=>void;
+  /** Slow time acquired on every run (s) */
+  sweepS: number; setSweepS: (v:number)=>void;
+  /** Time span kept on screen (s); older firings scroll off */
+  windowS: number; setWindowS: (v:number)=>void;
+  scanLines: number;
+  /** Highest line rate the record depth allows (Hz) */
+  maxLineRateHz: number;
+}){
+  const { enabled, setEnabled, line, setLine, lineRateHz, setLineRateHz, sweepS, setSweepS, windowS, setWindowS, scanLines, maxLineRateHz } = props;
+  return (
+    <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+      <Row>
+        <Label htmlFor="mmode" className="whitespace-nowrap shrink-0">M-mode</Label>
+        <Switch id="mmode" checked={enabled} onCheckedChange={(v:boolean)=>setEnabled(v)} />
+      </Row>
+      {enabled && (
+        <>
+          <Row className="col-span-full">
+            <Label htmlFor="mline" className="whitespace-nowrap shrink-0">Scanline</Label>
+            <div className="flex-1 min-w-[8rem]">
+              <Slider value={[line]} min={0} max={Math.max(0, scanLines - 1)} step={1} onValueChange={(v:any)=>setLine(v[0]||0)} />
+            </div>
+            <div className="text-sm text-muted-foreground">{line}</div>
+          </Row>
+          <Row>
+            <Label htmlFor="mrate" className="whitespace-nowrap shrink-0">Line rate (Hz)</Label>
+            <Input id="mrate" type="number" step={100} min={1} max={Math.floor(maxLineRateHz)} value={lineRateHz} onChange={e=>setLineRateHz(Math.max(1, parseFloat(e.target.value)||1))} className="w-full"/>
+          </Row>
+          <Row>
+            <Label htmlFor="msweep" className="whitespace-nowrap shrink-0">Sweep per run (s)</Label>
+            <Input id="msweep" type="number" step={0.05} min={0.01} value={sweepS} onChange={e=>setSweepS(Math.max(0.01, parseFloat(e.target.value)||0.01))} className="w-full"/>
+          </Row>
+          <Row>
+            <Label htmlFor="mwin" className="whitespace-nowrap shrink-0">Window (s)</Label>
+            <Input id="mwin" type="number" step={0.5} min={0.1} value={windowS} onChange={e=>setWindowS(Math.max(0.1, parseFloat(e.target.value)||0.1))} className="w-full"/>
+          </Row>
+          <Row className="col-span-full">
+            <div className="text-sm text-muted-foreground">
+              Click the image to pick the line · line rate limit {Math.floor(maxLineRateHz)} Hz{lineRateHz > maxLineRateHz ? " (exceeded)" : ""}
+            </div>
+          </Row>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,12 @@ import { Label } from "../ui/label";
 import { Input } from "../ui/input";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../ui/select";
 import { Slider } from "../ui/slider";
-import { ScanningConfig } from "@aloe/core";
+import { Switch } from "../ui/switch";
+import { InterpolationMethod, ScanningConfig } from "@aloe/core";
+
+export type BeamformerType = "sum"|"delay"|"delay-apod"|"delay-dynamic"|"delay-apod-dynamic"|"mv"|"mv-dynamic"|"fdmas"|"fdmas-dynamic"|"baseband"|"baseband-dynamic";
+
+export type CoherenceWeighting = "none"|"cf"|"gcf"|"pcf";
 
 const Row = (props: { children: React.ReactNode; className?: string }) => (
   <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
@@ -14,26 +19,45 @@ export default function PointSourceConfig(props: {
   speed: number; setSpeed: (v:number)=>void;
   freqMhz: number; setFreqMhz: (v:number)=>void;
   mode: "raw"|"envelope"; setMode: (v:"raw"|"envelope")=>void;
-  bfType: "sum"|"delay"|"delay-apod"; setBfType: (v:"sum"|"delay"|"delay-apod")=>void;
+  bfType: BeamformerType; setBfType: (v:BeamformerType)=>void;
   windowType: "rectangular"|"hamming"|"triangular"|"chebyshev"; setWindowType: (v:any)=>void;
   chebSll: number; setChebSll: (v:number)=>void;
+  interpolation: InterpolationMethod; setInterpolation: (v:InterpolationMethod)=>void;
+  /** IQ decimation factor for the baseband beamformers */
+  decimation: number; setDecimation: (v:number)=>void;
+  /** Minimum-variance subarray length (elements), diagonal loading and temporal averaging (± samples) */
+  mvSubarray: number; setMvSubarray: (v:number)=>void;
+  mvLoading: number; setMvLoading: (v:number)=>void;
+  mvTemporal: number; setMvTemporal: (v:number)=>void;
+  /** Coherence post-weighting of the selected beamformer */
+  coherence: CoherenceWeighting; setCoherence: (v:CoherenceWeighting)=>void;
+  gcfCutoff: number; setGcfCutoff: (v:number)=>void;
+  pcfGamma: number; setPcfGamma: (v:number)=>void;
+  showCoherence: boolean; setShowCoherence: (v:boolean)=>void;
   scanning?: ScanningConfig;
+  /** Offset and speed only apply to the point-source generator */
+  showSource?: boolean;
 }){
-  const { offset, setOffset, speed, setSpeed, freqMhz, setFreqMhz, mode, setMode, bfType, setBfType, windowType, setWindowType, chebSll, setChebSll, scanning } = props;
+  const { showSource = true, offset, setOffset, speed, setSpeed, freqMhz, setFreqMhz, mode, setMode, bfType, setBfType, windowType, setWindowType, chebSll, setChebSll, interpolation, setInterpolation, decimation, setDecimation, mvSubarray, setMvSubarray, mvLoading, setMvLoading, mvTemporal, setMvTemporal, coherence, setCoherence, gcfCutoff, setGcfCutoff, pcfGamma, setPcfGamma, showCoherence, setShowCoherence, scanning } = props;
+  // linear offsets are meters in the config; show them in mm
+  const isLinear = scanning?.type === "linear";
+  const unitScale = isLinear ? 1000 : 1;
   return (
     <div>
       <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+        {showSource && (<>
         <Row className="col-span-full">
-          <Label htmlFor="offset" className="whitespace-nowrap shrink-0">Offset (deg)</Label>
+          <Label htmlFor="offset" className="whitespace-nowrap shrink-0">Offset ({isLinear ? "mm" : "deg"})</Label>
           <div className="flex-1 min-w-[8rem]">
-            <Slider value={[offset]} min={(scanning?.range?.[0]) ?? -45} max={(scanning?.range?.[1]) ?? 45} onValueChange={(v:any)=>setOffset(v[0]||0)} />
+            <Slider value={[offset * unitScale]} min={((scanning?.range?.[0]) ?? -45) * unitScale} max={((scanning?.range?.[1]) ?? 45) * unitScale} step={isLinear ? 0.1 : 1} onValueChange={(v:any)=>setOffset((v[0]||0) / unitScale)} />
           </div>
-          <div className="text-sm text-muted-foreground">{offset}°</div>
+          <div className="text-sm text-muted-foreground">{isLinear ? `${+(offset * 1000).toFixed(1)} mm` : `${offset}°`}</div>
         </Row>
         <Row>
           <Label htmlFor="speed" className="whitespace-nowrap shrink-0">Speed (m/s)</Label>
           <Input id="speed" type="number" value={speed} onChange={e=>setSpeed(parseFloat(e.target.value)||0)} className="w-full"/>
         </Row>
+        </>)}
         <Row>
           <Label htmlFor="freq" className="whitespace-nowrap shrink-0">Frequency (MHz)</Label>
           <Input id="freq" type="number" value={freqMhz} onChange={e=>setFreqMhz(parseFloat(e.target.value)||0)} className="w-full"/>
@@ -56,10 +80,34 @@ export default function PointSourceConfig(props: {
               <SelectItem value="sum">Sum</SelectItem>
               <SelectItem value="delay">Delay+Sum</SelectItem>
               <SelectItem value="delay-apod">Delay+Sum+Apod</SelectItem>
+              <SelectItem value="delay-dynamic">Delay+Sum (dynamic focus)</SelectItem>
+              <SelectItem value="delay-apod-dynamic">Delay+Sum+Apod (dynamic focus)</SelectItem>
+              <SelectItem value="mv">Minimum variance</SelectItem>
+              <SelectItem value="mv-dynamic">Minimum variance (dynamic focus)</SelectItem>
+              <SelectItem value="fdmas">F-DMAS</SelectItem>
+              <SelectItem value="fdmas-dynamic">F-DMAS (dynamic focus)</SelectItem>
+              <SelectItem value="baseband">Baseband IQ</SelectItem>
+              <SelectItem value="baseband-dynamic">Baseband IQ (dynamic focus)</SelectItem>
             </SelectContent>
           </Select>
         </Row>
-        {bfType === "delay-apod" && (
+        {bfType !== "sum" && (
+          <Row>
+            <Label htmlFor="interp" className="whitespace-nowrap shrink-0">Interpolation</Label>
+            <Select value={interpolation} onValueChange={(v:any)=>setInterpolation(v)}>
+              <SelectTrigger className="min-w-[10rem] w-full max-w-[16rem]"><SelectValue placeholder={interpolation}/></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="nearest">nearest</SelectItem>
+                <SelectItem value="linear">linear</SelectItem>
+                <SelectItem value="cubic">cubic (Catmull-Rom)</SelectItem>
+                <SelectItem value="lagrange">cubic (Lagrange)</SelectItem>
+                <SelectItem value="sinc">windowed sinc</SelectItem>
+                <SelectItem value="farrow">Farrow</SelectItem>
+              </SelectContent>
+            </Select>
+          </Row>
+        )}
+        {(bfType === "delay-apod" || bfType === "delay-apod-dynamic") && (
           <>
             <Row>
               <Label htmlFor="win" className="whitespace-nowrap shrink-0">Window</Label>
@@ -81,6 +129,58 @@ export default function PointSourceConfig(props: {
             )}
           </>
         )}
+        {(bfType === "baseband" || bfType === "baseband-dynamic") && (
+          <Row>
+            <Label htmlFor="dec" className="whitespace-nowrap shrink-0">IQ decimation</Label>
+            <Input id="dec" type="number" min={1} value={decimation} onChange={e=>setDecimation(Math.max(1, parseInt(e.target.value,10)||1))} className="w-full"/>
+          </Row>
+        )}
+        {(bfType === "mv" || bfType === "mv-dynamic") && (
+          <>
+            <Row>
+              <Label htmlFor="mvsub" className="whitespace-nowrap shrink-0">Subarray (elements)</Label>
+              <Input id="mvsub" type="number" min={1} value={mvSubarray} onChange={e=>setMvSubarray(Math.max(1, parseInt(e.target.value,10)||1))} className="w-full"/>
+            </Row>
+            <Row>
+              <Label htmlFor="mvload" className="whitespace-nowrap shrink-0">Diagonal loading</Label>
+              <Input id="mvload" type="number" step={0.01} min={0} value={mvLoading} onChange={e=>setMvLoading(Math.max(0, parseFloat(e.target.value)||0))} className="w-full"/>
+            </Row>
+            <Row>
+              <Label htmlFor="mvtemp" className="whitespace-nowrap shrink-0">Temporal avg (± samples)</Label>
+              <Input id="mvtemp" type="number" min={0} value={mvTemporal} onChange={e=>setMvTemporal(Math.max(0, parseInt(e.target.value,10)||0))} className="w-full"/>
+            </Row>
+          </>
+        )}
+        <Row>
+          <Label htmlFor="coh" className="whitespace-nowrap shrink-0">Coherence weighting</Label>
+          <Select value={coherence} onValueChange={(v:any)=>setCoherence(v)}>
+            <SelectTrigger className="min-w-[10rem] w-full max-w-[16rem]"><SelectValue placeholder={coherence}/></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">none</SelectItem>
+              <SelectItem value="cf">coherence factor (CF)</SelectItem>
+              <SelectItem value="gcf">generalized CF (GCF)</SelectItem>
+              <SelectItem value="pcf">phase CF (PCF)</SelectItem>
+            </SelectContent>
+          </Select>
+        </Row>
+        {coherence === "gcf" && (
+          <Row>
+            <Label htmlFor="gcf" className="whitespace-nowrap shrink-0">GCF cutoff (bins)</Label>
+            <Input id="gcf" type="number" min={0} value={gcfCutoff} onChange={e=>setGcfCutoff(Math.max(0, parseInt(e.target.value,10)||0))} className="w-full"/>
+          </Row>
+        )}
+        {coherence === "pcf" && (
+          <Row>
+            <Label htmlFor="pcf" className="whitespace-nowrap shrink-0">PCF γ</Label>
+            <Input id="pcf" type="number" step={0.1} min={0} value={pcfGamma} onChange={e=>setPcfGamma(Math.max(0, parseFloat(e.target.value)||0))} className="w-full"/>
+          </Row>
+        )}
+        {coherence !== "none" && (
+          <Row>
+            <Switch id="cohov" checked={showCoherence} onCheckedChange={setShowCoherence} />
+            <Label htmlFor="cohov" className="whitespace-nowrap shrink-0">Overlay coherence map</Label>
+          </Row>
+        )}
       </div>
     </div>
   );
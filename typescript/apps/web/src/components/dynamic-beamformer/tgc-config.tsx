@@ -0,0 +1,45 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Medium attenuation input and time-gain compensation (TGC) slider bank.
+ */
+
+import React from "react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { Slider } from "../ui/slider";
+
+const Row = (props: { children: React.ReactNode; className?: string }) => (
+  <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
+);
+
+export default function TgcConfig(props: {
+  attenuation: number; setAttenuation: (v:number)=>void;
+  tgcGains: number[]; setTgcGains: (v:number[])=>void;
+  /** Depth (mm) of each TGC slider */
+  depthsMm: number[];
+  /** Fill the sliders with gains that undo the medium attenuation */
+  onMatchMedium: ()=>void;
+}){
+  const { attenuation, setAttenuation, tgcGains, setTgcGains, depthsMm, onMatchMedium } = props;
+  return (
+    <div className="grid gap-3 mb-6">
+      <Row>
+        <Label htmlFor="atten" className="whitespace-nowrap shrink-0">Attenuation (dB/cm/MHz)</Label>
+        <Input id="atten" type="number" step="0.1" value={attenuation} onChange={e=>setAttenuation(parseFloat(e.target.value)||0)} className="w-32"/>
+        <Button variant="outline" onClick={onMatchMedium}>Match medium</Button>
+        <Button variant="outline" onClick={()=>setTgcGains(tgcGains.map(()=>0))}>Reset TGC</Button>
+      </Row>
+      {tgcGains.map((g, i) => (
+        <Row key={i}>
+          <div className="w-16 text-sm text-muted-foreground text-right">{(depthsMm[i] ?? 0).toFixed(0)} mm</div>
+          <div className="flex-1 min-w-[8rem]">
+            <Slider value={[g]} min={-20} max={80} step={1} onValueChange={(v:any)=>{ const next = [...tgcGains]; next[i] = v[0] ?? 0; setTgcGains(next); }} />
+          </div>
+          <div className="w-14 text-sm text-muted-foreground">{g.toFixed(0)} dB</div>
+        </Row>
+      ))}
+    </div>
+  );
+}
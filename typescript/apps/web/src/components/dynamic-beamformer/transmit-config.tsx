@@ -0,0 +1,62 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Transmit event controls (focus depth, aperture, apodization) for the dynamic page.
+ */
+
+import React from "react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Switch } from "../ui/switch";
+import { Slider } from "../ui/slider";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../ui/select";
+
+const Row = (props: { children: React.ReactNode; className?: string }) => (
+  <div className={("flex flex-wrap items-center gap-2 w-full ") + (props.className || "")}>{props.children}</div>
+);
+
+export default function TransmitConfig(props: {
+  txEnabled: boolean; setTxEnabled: (v:boolean)=>void;
+  txFocusMm: number; setTxFocusMm: (v:number)=>void;
+  /** Deepest focus the slider allows (mm), i.e. the record depth */
+  maxDepthMm: number;
+  txAperture: number; setTxAperture: (v:number)=>void;
+  txWindow: "rectangular"|"hamming"|"triangular"|"chebyshev"; setTxWindow: (v:any)=>void;
+}){
+  const { txEnabled, setTxEnabled, txFocusMm, setTxFocusMm, maxDepthMm, txAperture, setTxAperture, txWindow, setTxWindow } = props;
+  return (
+    <div className="grid gap-4 mb-6 grid-cols-[repeat(auto-fit,minmax(260px,1fr))]">
+      <Row>
+        <Switch id="tx" checked={txEnabled} onCheckedChange={setTxEnabled} />
+        <Label htmlFor="tx" className="whitespace-nowrap shrink-0">Model transmit beam</Label>
+      </Row>
+      {txEnabled && (
+        <>
+          <Row className="col-span-full">
+            <Label htmlFor="txfocus" className="whitespace-nowrap shrink-0">Focus depth</Label>
+            <div className="flex-1 min-w-[8rem]">
+              <Slider value={[txFocusMm]} min={0} max={Math.max(1, Math.round(maxDepthMm))} step={0.5} onValueChange={(v:any)=>setTxFocusMm(v[0]||0)} />
+            </div>
+            <div className="text-sm text-muted-foreground">{txFocusMm > 0 ? `${txFocusMm} mm` : "unfocused"}</div>
+          </Row>
+          <Row>
+            <Label htmlFor="txap" className="whitespace-nowrap shrink-0">Aperture (elements)</Label>
+            <Input id="txap" type="number" value={txAperture} onChange={e=>setTxAperture(parseInt(e.target.value,10)||0)} className="w-full"/>
+          </Row>
+          <Row>
+            <Label htmlFor="txwin" className="whitespace-nowrap shrink-0">Apodization</Label>
+            <Select value={txWindow} onValueChange={(v:any)=>setTxWindow(v)}>
+              <SelectTrigger className="min-w-[10rem] w-full max-w-[16rem]"><SelectValue placeholder={txWindow}/></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rectangular">rectangular</SelectItem>
+                <SelectItem value="hamming">hamming</SelectItem>
+                <SelectItem value="triangular">triangular</SelectItem>
+                <SelectItem value="chebyshev">chebyshev</SelectItem>
+              </SelectContent>
+            </Select>
+          </Row>
+        </>
+      )}
+    </div>
+  );
+}
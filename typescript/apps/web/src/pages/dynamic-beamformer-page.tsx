@@ -1,12 +1,23 @@
 import { useMemo, useRef, useState, useEffect, type ReactNode } from "react";
-import { createPointSourceGenerator, runFrame, envelope, DynamicBeamformingConfig, createSumBeamformer, createDelayAndSumBeamformer, createDelayAndSumApodizedBeamformer } from "@aloe/core";
+import { createPointSourceGenerator, createPulsedScattererGenerator, createPhantomGenerator, createQaPhantomFeatures, phantomRegionForConfig, PulseShape, ScanlineGenerator, runFrame, runCompoundFrame, compoundingAngles, runTfmFrame, frameRateHz, applyTgc, tgcCurveFromGains, tgcCurveForMedium, envelope, DynamicBeamformingConfig, createSumBeamformer, createDelayAndSumBeamformer, createDelayAndSumApodizedBeamformer, createMinimumVarianceBeamformer, createCoherenceBeamformer, createDmasBeamformer, createBasebandBeamformer, runBasebandFrame, runCoherenceFrame, runDopplerFrame, colorFlowMap, dopplerNyquistVelocity, ClutterFilter, ClutterFilterReport, runPwDoppler, PwDopplerResult, PhantomFeature, FrameResult, CoherenceFrameResult, DynamicBeamformer, CoherenceBeamformer, Trajectory, runCine, runMMode, MModeResult, InterpolationMethod, GrayMap, ColorMapName } from "@aloe/core";
 import { Label } from "../components/ui/label";
 import { Input } from "../components/ui/input";
 import { Button } from "../components/ui/button";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "../components/ui/select";
 import { Card, CardContent } from "../components/ui/card";
+import { Alert, AlertTitle, AlertDescription } from "../components/ui/alert";
 import DynamicBeamformConfig from "../components/dynamic-beamformer/dynamic-beamform-config";
-import PointSourceConfig from "../components/dynamic-beamformer/point-source-config";
+import PointSourceConfig, { BeamformerType, CoherenceWeighting } from "../components/dynamic-beamformer/point-source-config";
+import GeneratorConfig, { GeneratorType } from "../components/dynamic-beamformer/generator-config";
+import TgcConfig from "../components/dynamic-beamformer/tgc-config";
+import TransmitConfig from "../components/dynamic-beamformer/transmit-config";
+import AcquisitionConfig, { AcquisitionMode } from "../components/dynamic-beamformer/acquisition-config";
+import DopplerConfig, { DopplerMode } from "../components/dynamic-beamformer/doppler-config";
+import DopplerSpectrogramViewer from "../components/dynamic-beamformer/doppler-spectrogram-viewer";
+import ClutterResponsePlot from "../components/dynamic-beamformer/clutter-response-plot";
+import CineConfig from "../components/dynamic-beamformer/cine-config";
+import MModeConfig from "../components/dynamic-beamformer/mmode-config";
+import DisplayConfig from "../components/dynamic-beamformer/display-config";
 import BeamformOutputViewer from "../components/dynamic-beamformer/beamform-output-viewer";
 
 const Row = (props: { children: ReactNode; className?: string }) => (
@@ -28,11 +39,78 @@ export default function DynamicBeamformerPage() {
   // frequency in MHz for input
   const [freqMhz, setFreqMhz] = useState(4);
   const [mode, setMode] = useState<"raw"|"envelope">("envelope");
-  const [bfType, setBfType] = useState<"sum"|"delay"|"delay-apod">("delay-apod");
+  const [bfType, setBfType] = useState<BeamformerType>("delay-apod");
   const [windowType, setWindowType] = useState<"rectangular"|"hamming"|"triangular"|"chebyshev">("chebyshev");
   const [chebSll, setChebSll] = useState(30);
+  const [interpolation, setInterpolation] = useState<InterpolationMethod>("linear");
+  const [decimation, setDecimation] = useState(4);
+  const [mvSubarray, setMvSubarray] = useState(16);
+  const [mvLoading, setMvLoading] = useState(0.01);
+  const [mvTemporal, setMvTemporal] = useState(1);
+  const [coherence, setCoherence] = useState<CoherenceWeighting>("none");
+  const [gcfCutoff, setGcfCutoff] = useState(1);
+  const [pcfGamma, setPcfGamma] = useState(1);
+  const [showCoherence, setShowCoherence] = useState(false);
+  const [coherenceMap, setCoherenceMap] = useState<number[][] | undefined>(undefined);
   const [autoRun, setAutoRun] = useState(false);
   const [rangePos, setRangePos] = useState(25);
+  const [scanType, setScanType] = useState<"phased"|"linear">("phased");
+  const [linearRangeMm, setLinearRangeMm] = useState(10);
+  const [activeElements, setActiveElements] = useState(16);
+  const [genType, setGenType] = useState<GeneratorType>("point");
+  const [scatterersText, setScatterersText] = useState("0,10; 0,20; 5,25; -5,30");
+  const [pulseShape, setPulseShape] = useState<PulseShape>("gaussian");
+  const [bandwidth, setBandwidth] = useState(0.6);
+  const [cycles, setCycles] = useState(2);
+  const [waveformText, setWaveformText] = useState("0, 0.5, 1, 0.5, -0.5, -1, -0.5, 0");
+  const [seed, setSeed] = useState(1);
+  const [density, setDensity] = useState(2);
+  const [vesselVelocity, setVesselVelocity] = useState(0);
+  const [attenuation, setAttenuation] = useState(0);
+  const [tgcGains, setTgcGains] = useState<number[]>(() => new Array(8).fill(0));
+  const [txEnabled, setTxEnabled] = useState(false);
+  const [txFocusMm, setTxFocusMm] = useState(20);
+  const [txAperture, setTxAperture] = useState(32);
+  const [txWindow, setTxWindow] = useState<"rectangular"|"hamming"|"triangular"|"chebyshev">("rectangular");
+  const [acquisition, setAcquisition] = useState<AcquisitionMode>("line");
+  const [compoundAngles, setCompoundAngles] = useState(7);
+  const [maxAngle, setMaxAngle] = useState(10);
+  const [fNumber, setFNumber] = useState(1.5);
+  const [acqStats, setAcqStats] = useState<{ transmits: number; frameRate: number } | null>(null);
+  const [dopplerMode, setDopplerMode] = useState<DopplerMode>("off");
+  const [ensembleSize, setEnsembleSize] = useState(8);
+  const [prfHz, setPrfHz] = useState(4000);
+  const [wallFilter, setWallFilter] = useState<ClutterFilter>({ type: "regression", order: 0 });
+  const [powerThresholdDb, setPowerThresholdDb] = useState(-30);
+  const [flowMap, setFlowMap] = useState<number[][] | undefined>(undefined);
+  const [gateLine, setGateLine] = useState(32);
+  const [gateDepthMm, setGateDepthMm] = useState(15);
+  const [gateLengthMm, setGateLengthMm] = useState(1);
+  const [pwPulses, setPwPulses] = useState(256);
+  const [fftSize, setFftSize] = useState(64);
+  const [pwResult, setPwResult] = useState<PwDopplerResult | undefined>(undefined);
+  const [clutterReport, setClutterReport] = useState<ClutterFilterReport | undefined>(undefined);
+  const [motion, setMotion] = useState<Trajectory | undefined>(undefined);
+  const [cineLength, setCineLength] = useState(20);
+  const [cineFps, setCineFps] = useState(20);
+  const [cine, setCine] = useState<{ frames: number[][][]; times: number[] } | undefined>(undefined);
+  const [cineIndex, setCineIndex] = useState(0);
+  const [cinePlaying, setCinePlaying] = useState(false);
+  const [cineRecording, setCineRecording] = useState(false);
+  // why the last run failed, shown above the viewer until a run succeeds
+  const [runError, setRunError] = useState<string | null>(null);
+  const [mmodeEnabled, setMmodeEnabled] = useState(false);
+  const [mmodeLine, setMmodeLine] = useState(32);
+  const [mmodeRate, setMmodeRate] = useState(500);
+  const [mmodeSweepS, setMmodeSweepS] = useState(0.2);
+  const [mmodeWindowS, setMmodeWindowS] = useState(2);
+  const [mmode, setMmode] = useState<{ lines: number[][]; timesS: number[]; depthsM: number[] } | undefined>(undefined);
+  const mmodeTimeRef = useRef(0);
+  const [gainDb, setGainDb] = useState(0);
+  const [dynamicRangeDb, setDynamicRangeDb] = useState(60);
+  const [grayMap, setGrayMap] = useState<GrayMap>({ type: "linear" });
+  const [colorMap, setColorMap] = useState<ColorMapName>("turbo");
+  const display = useMemo(() => ({ gainDb, dynamicRangeDb, grayMap, colorMap }), [gainDb, dynamicRangeDb, grayMap, colorMap]);
 
   const [frame, setFrame] = useState<number[][]>([]);
 
@@ -44,33 +122,202 @@ export default function DynamicBeamformerPage() {
     return ({
       /** seconds */ timeStep: dtUs * 1e-6,
       /** m/s */ propagationSpeed: c,
-      scanning: { numScanLines: scanLines, type: "phased", range: [-rangePos, rangePos], samples },
-      /** meters */ array: { elements, elementSpacing },
+      scanning: scanType === "phased"
+        ? { numScanLines: scanLines, type: "phased", range: [-rangePos, rangePos], samples }
+        : { numScanLines: scanLines, type: "linear", range: [-linearRangeMm / 1000, linearRangeMm / 1000], samples },
+      /** meters */ array: { elements, elementSpacing, activeElements },
+      medium: attenuation > 0 ? { attenuationDbPerCmMHz: attenuation } : undefined,
+      transmit: txEnabled ? { focusDepth: txFocusMm / 1000, aperture: txAperture, windowType: txWindow } : undefined,
     });
-  }, [scanLines, samples, elements, spacingValue, spacingUnit, dtUs, c, freqMhz, rangePos]);
+  }, [scanLines, samples, elements, spacingValue, spacingUnit, dtUs, c, freqMhz, rangePos, scanType, linearRangeMm, activeElements, attenuation, txEnabled, txFocusMm, txAperture, txWindow]);
+
+  const tgcCurve = useMemo(() => tgcCurveFromGains(tgcGains, cfg), [tgcGains, cfg]);
+  // rotation turns about the middle of the view
+  const viewCenter = useMemo(() => {
+    const region = phantomRegionForConfig(cfg);
+    return { x: (region.xMin + region.xMax) / 2, z: (region.zMin + region.zMax) / 2 };
+  }, [cfg]);
+  const matchMedium = () => {
+    if (!cfg.medium) { setTgcGains(tgcGains.map(() => 0)); return; }
+    setTgcGains(tgcCurveForMedium(cfg.medium, freqMhz * 1e6, cfg, tgcGains.length).map(p => Math.round(p.gainDb)));
+  };
+
+  // offset units follow the scan type (deg vs m), so start over when it changes
+  const changeScanType = (v: "phased"|"linear") => { setScanType(v); setOffset(0); };
 
   const runningRef = useRef(false);
   const queuedRef = useRef(false);
 
+  /** Generator for the current settings; pulsed and phantom scatterers follow the cine motion. */
+  function buildGenerator(): ScanlineGenerator {
+    if (genType === "point") return createPointSourceGenerator({ offset, speed, frequencyHz: freqMhz * 1e6 });
+    const waveform = waveformText.split(/[\s,]+/).filter(Boolean).map(Number);
+    const pulse = { shape: pulseShape, centerFrequencyHz: freqMhz * 1e6, fractionalBandwidth: bandwidth, cycles, waveform, waveformTimeStep: cfg.timeStep };
+    if (genType === "phantom") {
+      const region = phantomRegionForConfig(cfg);
+      const features: PhantomFeature[] = createQaPhantomFeatures(region, density);
+      if (vesselVelocity !== 0) {
+        // a vessel crossing the middle of the view at 20°, long enough to keep flowing through it
+        const w = region.xMax - region.xMin, h = region.zMax - region.zMin;
+        features.push({ type: "vessel", center: { x: (region.xMin + region.xMax) / 2, z: region.zMin + h * 0.45 }, radius: h / 20, length: 2 * (w + h), angleDeg: 20, peakVelocity: vesselVelocity });
+      }
+      return createPhantomGenerator({ features, seed, pulse, motion });
+    }
+    // scatterer text is "x,z" pairs in mm, optionally followed by "vx,vz" in m/s, separated by ';'
+    const scatterers = scatterersText.split(";").map(p => p.split(",").map(Number)).filter(p => (p.length === 2 || p.length === 4) && p.every(Number.isFinite)).map(([x, z, vx, vz]) => ({ x: x / 1000, z: z / 1000, vx, vz, trajectory: motion }));
+    return createPulsedScattererGenerator({ scatterers, pulse });
+  }
+
+  function buildBeamformers(): { bf: DynamicBeamformer; cohBf?: CoherenceBeamformer } {
+    let bf;
+    if (bfType === "sum") bf = createSumBeamformer();
+    else if (bfType === "delay-apod") bf = createDelayAndSumApodizedBeamformer({ windowType, chebyshevSidelobeDb: chebSll, interpolation });
+    else if (bfType === "delay-dynamic") bf = createDelayAndSumBeamformer({ focusing: "dynamic", interpolation });
+    else if (bfType === "delay-apod-dynamic") bf = createDelayAndSumApodizedBeamformer({ windowType, chebyshevSidelobeDb: chebSll, focusing: "dynamic", interpolation });
+    else if (bfType === "mv" || bfType === "mv-dynamic") bf = createMinimumVarianceBeamformer({ subarrayLength: mvSubarray, diagonalLoading: mvLoading, temporalAveraging: mvTemporal, focusing: bfType === "mv-dynamic" ? "dynamic" : "fixed", interpolation });
+    else if (bfType === "fdmas" || bfType === "fdmas-dynamic") bf = createDmasBeamformer({ centerFrequencyHz: freqMhz * 1e6, focusing: bfType === "fdmas-dynamic" ? "dynamic" : "fixed", interpolation });
+    else bf = createDelayAndSumBeamformer({ interpolation });
+    const cohBf = coherence !== "none"
+      ? createCoherenceBeamformer(bf, { method: coherence, gcfCutoff, pcfGamma, focusing: bfType.endsWith("dynamic") ? "dynamic" : "fixed", interpolation })
+      : undefined;
+    return { bf, cohBf };
+  }
+
+  /** One B-mode frame with the selected acquisition mode (and its coherence map, if weighted). */
+  function acquireFrame(c: DynamicBeamformingConfig, gen: ScanlineGenerator, bf: DynamicBeamformer, cohBf?: CoherenceBeamformer): FrameResult | CoherenceFrameResult {
+    if (acquisition === "tfm") return runTfmFrame(c, gen, { windowType, chebyshevSidelobeDb: chebSll, fNumber, interpolation });
+    if (acquisition !== "line") return runCompoundFrame(c, gen, { wave: acquisition, anglesDeg: compoundingAngles(compoundAngles, maxAngle), fNumber, txWindowType: txWindow, rxWindowType: windowType, chebyshevSidelobeDb: chebSll, interpolation });
+    if (bfType === "baseband" || bfType === "baseband-dynamic") {
+      const bb = createBasebandBeamformer({ focusing: bfType === "baseband-dynamic" ? "dynamic" : "fixed", interpolation, windowType, chebyshevSidelobeDb: chebSll });
+      return runBasebandFrame(c, gen, { carrierHz: freqMhz * 1e6, decimation }, bb);
+    }
+    // coherence weighting applies to the line-by-line RF beamformers only
+    if (cohBf) return runCoherenceFrame(c, gen, cohBf);
+    return runFrame(c, gen, bf);
+  }
+
+  /** TGC, then envelope detection when selected; `lines` are [scanline or firing][samples]. */
+  function displayFrame(lines: number[][]): number[][] {
+    const compensated = applyTgc(lines, tgcCurve, cfg);
+    return mode === "envelope" ? compensated.map(envelope) : compensated;
+  }
+
   async function generateOnce() {
     if (runningRef.current) { queuedRef.current = true; return; }
     runningRef.current = true;
     try {
-      const gen = createPointSourceGenerator({ offset, speed, frequencyHz: freqMhz * 1e6 });
-      let bf;
-      if (bfType === "sum") bf = createSumBeamformer();
-      else if (bfType === "delay-apod") bf = createDelayAndSumApodizedBeamformer({ windowType, chebyshevSidelobeDb: chebSll });
-      else bf = createDelayAndSumBeamformer();
+      const gen = buildGenerator();
+      const { bf, cohBf } = buildBeamformers();
       await new Promise<void>(r=>setTimeout(r,0));
-      const res = runFrame(cfg, gen, bf);
-      const out = mode === "envelope" ? res.beamformed.map(envelope) : res.beamformed;
-      setFrame(out);
+      let res: FrameResult;
+      let coherenceOut: number[][] | undefined;
+      let flowOut: number[][] | undefined;
+      let pwOut: PwDopplerResult | undefined;
+      let clutterOut: ClutterFilterReport | undefined;
+      if (dopplerMode === "pw" && acquisition === "line") {
+        res = runFrame(cfg, gen, cohBf ?? bf);
+        pwOut = runPwDoppler(cfg, gen, cohBf ?? bf, {
+          carrierHz: freqMhz * 1e6, scanlineIndex: Math.min(gateLine, cfg.scanning.numScanLines - 1),
+          gateDepth: gateDepthMm / 1000, gateLength: gateLengthMm / 1000, prfHz, pulses: pwPulses, wallFilter,
+          spectrogram: { fftSize },
+        });
+        clutterOut = pwOut.clutter;
+      }
+      else if (dopplerMode === "color" && acquisition === "line") {
+        const r = runDopplerFrame(cfg, gen, cohBf ?? bf, { carrierHz: freqMhz * 1e6, ensembleSize, prfHz, wallFilter });
+        flowOut = colorFlowMap(r, powerThresholdDb);
+        clutterOut = r.clutter;
+        res = r;
+      }
+      else {
+        const r = acquireFrame(cfg, gen, bf, cohBf);
+        coherenceOut = "coherence" in r ? r.coherence : undefined;
+        res = r;
+      }
+      // each run continues the M-mode trace where the last one stopped
+      const mmodeOut = mmodeEnabled
+        ? runMMode(cfg, gen, cohBf ?? bf, { scanlineIndex: Math.min(mmodeLine, cfg.scanning.numScanLines - 1), lineRateHz: mmodeRate, lines: Math.max(1, Math.round(mmodeSweepS * mmodeRate)), startTime: mmodeTimeRef.current })
+        : undefined;
+      setCoherenceMap(coherenceOut);
+      setFlowMap(flowOut);
+      setPwResult(pwOut);
+      setClutterReport(clutterOut);
+      setAcqStats({ transmits: res.transmits ?? cfg.scanning.numScanLines, frameRate: frameRateHz(cfg, res) });
+      setCine(undefined);
+      setFrame(displayFrame(res.beamformed));
+      if (mmodeOut) appendMMode(mmodeOut);
+      setRunError(null);
+    } catch (e) {
+      // e.g. a PRF above the depth limit, or an SVD clutter filter over too many pulses
+      console.error(e);
+      setRunError(e instanceof Error ? e.message : String(e));
     } finally {
       runningRef.current = false;
       if (queuedRef.current) { queuedRef.current = false; setTimeout(() => generateOnce(), 0); }
     }
   }
 
+  /** Add a sweep to the scrolling M-mode trace, dropping firings older than the window. */
+  function appendMMode(m: MModeResult) {
+    mmodeTimeRef.current = m.timesS[m.timesS.length - 1] + 1 / m.lineRateHz;
+    const keep = Math.max(1, Math.round(mmodeWindowS * m.lineRateHz));
+    const lines = displayFrame(m.lines);
+    setMmode(prev => ({
+      lines: (prev ? prev.lines.concat(lines) : lines).slice(-keep),
+      timesS: (prev ? prev.timesS.concat(m.timesS) : m.timesS).slice(-keep),
+      depthsM: m.depthsM,
+    }));
+  }
+
+  // a new line, rate or geometry starts a fresh trace
+  useEffect(() => {
+    mmodeTimeRef.current = 0;
+    setMmode(undefined);
+  }, [mmodeEnabled, mmodeLine, mmodeRate, cfg]);
+
+  /** Simulate a cine sequence, showing each frame as it arrives, then loop it. */
+  async function recordCine() {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    setAutoRun(false);
+    setCinePlaying(false);
+    setCineRecording(true);
+    setCoherenceMap(undefined);
+    setFlowMap(undefined);
+    setPwResult(undefined);
+    setClutterReport(undefined);
+    try {
+      const gen = buildGenerator();
+      const { bf, cohBf } = buildBeamformers();
+      const frames: number[][][] = [];
+      const times: number[] = [];
+      for await (const f of runCine(cfg, (c) => acquireFrame(c, gen, bf, cohBf), { frames: cineLength, frameRateHz: cineFps })) {
+        frames.push(displayFrame(f.beamformed));
+        times.push(f.timeS);
+        setCine({ frames: frames.slice(), times: times.slice() });
+        setCineIndex(f.index);
+        setAcqStats({ transmits: f.transmits ?? cfg.scanning.numScanLines, frameRate: frameRateHz(cfg, f) });
+      }
+      setCinePlaying(true);
+      setRunError(null);
+    } catch (e) {
+      // e.g. a frame rate above what the acquisition allows
+      console.error(e);
+      setRunError(`Cine recording stopped: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      runningRef.current = false;
+      setCineRecording(false);
+    }
+  }
+
+  // looped playback of a recorded cine at its frame rate
+  useEffect(() => {
+    if (!cinePlaying || !cine) return;
+    const count = cine.frames.length;
+    const id = setInterval(() => setCineIndex(i => (i + 1) % count), 1000 / cineFps);
+    return () => clearInterval(id);
+  }, [cinePlaying, cine, cineFps]);
+
   const run = () => generateOnce();
 
   useEffect(() => {
@@ -83,7 +330,7 @@ export default function DynamicBeamformerPage() {
     }
     requestAnimationFrame(tick);
     return () => { alive = false; };
-  }, [autoRun, cfg, bfType, windowType, chebSll, mode, offset, speed, freqMhz]);
+  }, [autoRun, cfg, bfType, windowType, chebSll, mode, offset, speed, freqMhz, genType, scatterersText, pulseShape, bandwidth, cycles, waveformText, seed, density, tgcCurve, acquisition, compoundAngles, maxAngle, fNumber, mvSubarray, mvLoading, mvTemporal, coherence, gcfCutoff, pcfGamma, interpolation, decimation, vesselVelocity, dopplerMode, ensembleSize, prfHz, wallFilter, powerThresholdDb, gateLine, gateDepthMm, gateLengthMm, pwPulses, fftSize, motion, mmodeEnabled, mmodeLine, mmodeRate, mmodeSweepS, mmodeWindowS]);
 
 
 
@@ -108,6 +355,9 @@ export default function DynamicBeamformerPage() {
               dtUs={dtUs} setDtUs={setDtUs}
               c={c} setC={setC}
               rangePos={rangePos} setRangePos={setRangePos}
+              scanType={scanType} setScanType={changeScanType}
+              linearRangeMm={linearRangeMm} setLinearRangeMm={setLinearRangeMm}
+              activeElements={activeElements} setActiveElements={setActiveElements}
             />
           </CardContent>
         </Card>
@@ -115,9 +365,29 @@ export default function DynamicBeamformerPage() {
         <Card>
           <CardContent>
             <div className="mb-2">
-              <h3 className="text-sm font-semibold m-0">Point Source</h3>
+              <h3 className="text-sm font-semibold m-0">Generator</h3>
+            </div>
+            <GeneratorConfig
+              genType={genType} setGenType={setGenType}
+              scatterersText={scatterersText} setScatterersText={setScatterersText}
+              pulseShape={pulseShape} setPulseShape={setPulseShape}
+              bandwidth={bandwidth} setBandwidth={setBandwidth}
+              cycles={cycles} setCycles={setCycles}
+              waveformText={waveformText} setWaveformText={setWaveformText}
+              seed={seed} setSeed={setSeed}
+              density={density} setDensity={setDensity}
+              vesselVelocity={vesselVelocity} setVesselVelocity={setVesselVelocity}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <div className="mb-2">
+              <h3 className="text-sm font-semibold m-0">{genType === "point" ? "Point Source" : "Pulse & Beamformer"}</h3>
             </div>
             <PointSourceConfig
+              showSource={genType === "point"}
               offset={offset} setOffset={setOffset}
               speed={speed} setSpeed={setSpeed}
               freqMhz={freqMhz} setFreqMhz={setFreqMhz}
@@ -125,10 +395,134 @@ export default function DynamicBeamformerPage() {
               bfType={bfType} setBfType={setBfType}
               windowType={windowType} setWindowType={setWindowType}
               chebSll={chebSll} setChebSll={setChebSll}
+              interpolation={interpolation} setInterpolation={setInterpolation}
+              decimation={decimation} setDecimation={setDecimation}
+              mvSubarray={mvSubarray} setMvSubarray={setMvSubarray}
+              mvLoading={mvLoading} setMvLoading={setMvLoading}
+              mvTemporal={mvTemporal} setMvTemporal={setMvTemporal}
+              coherence={coherence} setCoherence={setCoherence}
+              gcfCutoff={gcfCutoff} setGcfCutoff={setGcfCutoff}
+              pcfGamma={pcfGamma} setPcfGamma={setPcfGamma}
+              showCoherence={showCoherence} setShowCoherence={setShowCoherence}
               scanning={cfg.scanning}
             />
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent>
+            <div className="mb-2">
+              <h3 className="text-sm font-semibold m-0">Acquisition</h3>
+            </div>
+            <AcquisitionConfig
+              acquisition={acquisition} setAcquisition={setAcquisition}
+              angles={compoundAngles} setAngles={setCompoundAngles}
+              maxAngle={maxAngle} setMaxAngle={setMaxAngle}
+              fNumber={fNumber} setFNumber={setFNumber}
+              frameRate={acqStats?.frameRate}
+              transmits={acqStats?.transmits}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <div className="mb-2">
+              <h3 className="text-sm font-semibold m-0">Colour Doppler</h3>
+            </div>
+            <DopplerConfig
+              mode={dopplerMode} setMode={setDopplerMode}
+              ensembleSize={ensembleSize} setEnsembleSize={setEnsembleSize}
+              prfHz={prfHz} setPrfHz={setPrfHz}
+              wallFilter={wallFilter} setWallFilter={setWallFilter}
+              powerThresholdDb={powerThresholdDb} setPowerThresholdDb={setPowerThresholdDb}
+              gateLine={gateLine} setGateLine={setGateLine}
+              gateDepthMm={gateDepthMm} setGateDepthMm={setGateDepthMm}
+              gateLengthMm={gateLengthMm} setGateLengthMm={setGateLengthMm}
+              pulses={pwPulses} setPulses={setPwPulses}
+              fftSize={fftSize} setFftSize={setFftSize}
+              scanLines={scanLines}
+              maxDepthMm={samples * dtUs * 1e-6 * c / 2 * 1000}
+              nyquistVelocity={dopplerNyquistVelocity(c, prfHz, freqMhz * 1e6)}
+              maxPrfHz={1 / (samples * dtUs * 1e-6)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <div className="mb-2">
+              <h3 className="text-sm font-semibold m-0">Cine</h3>
+            </div>
+            <CineConfig
+              motion={motion} setMotion={setMotion}
+              frames={cineLength} setFrames={setCineLength}
+              fps={cineFps} setFps={setCineFps}
+              rotationCenter={viewCenter}
+              maxFps={acqStats?.frameRate}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <div className="mb-2">
+              <h3 className="text-sm font-semibold m-0">M-mode</h3>
+            </div>
+            <MModeConfig
+              enabled={mmodeEnabled} setEnabled={setMmodeEnabled}
+              line={mmodeLine} setLine={setMmodeLine}
+              lineRateHz={mmodeRate} setLineRateHz={setMmodeRate}
+              sweepS={mmodeSweepS} setSweepS={setMmodeSweepS}
+              windowS={mmodeWindowS} setWindowS={setMmodeWindowS}
+              scanLines={scanLines}
+              maxLineRateHz={1 / (samples * dtUs * 1e-6)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <div className="mb-2">
+              <h3 className="text-sm font-semibold m-0">Transmit</h3>
+            </div>
+            <TransmitConfig
+              txEnabled={txEnabled} setTxEnabled={setTxEnabled}
+              txFocusMm={txFocusMm} setTxFocusMm={setTxFocusMm}
+              maxDepthMm={samples * dtUs * 1e-6 * c / 2 * 1000}
+              txAperture={txAperture} setTxAperture={setTxAperture}
+              txWindow={txWindow} setTxWindow={setTxWindow}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <div className="mb-2">
+              <h3 className="text-sm font-semibold m-0">Attenuation & TGC</h3>
+            </div>
+            <TgcConfig
+              attenuation={attenuation} setAttenuation={setAttenuation}
+              tgcGains={tgcGains} setTgcGains={setTgcGains}
+              depthsMm={tgcCurve.map(p => p.depth * 1000)}
+              onMatchMedium={matchMedium}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <div className="mb-2">
+              <h3 className="text-sm font-semibold m-0">Display</h3>
+            </div>
+            <DisplayConfig
+              gainDb={gainDb} setGainDb={setGainDb}
+              dynamicRangeDb={dynamicRangeDb} setDynamicRangeDb={setDynamicRangeDb}
+              grayMap={grayMap} setGrayMap={setGrayMap}
+              colorMap={colorMap} setColorMap={setColorMap}
+            />
+          </CardContent>
+        </Card>
       </div>
       <div className="flex items-center gap-2 mb-4">
         {autoRun ? (
@@ -137,8 +531,33 @@ export default function DynamicBeamformerPage() {
           <Button variant="outline" onClick={()=>setAutoRun(true)}>Auto Run</Button>
         )}
         {!autoRun && <Button onClick={run}>Run simulation</Button>}
+        <Button variant="outline" onClick={recordCine} disabled={cineRecording}>{cineRecording ? "Recording…" : "Record cine"}</Button>
       </div>
-      <BeamformOutputViewer frame={frame} cfg={cfg} />
+      {runError && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Simulation failed</AlertTitle>
+          <AlertDescription>{runError}</AlertDescription>
+        </Alert>
+      )}
+      <BeamformOutputViewer
+        frame={cine ? cine.frames[cineIndex] ?? [] : frame} cfg={cfg}
+        overlay={flowMap ?? (showCoherence ? coherenceMap : undefined)}
+        overlayLabel={flowMap ? "velocity" : coherence}
+        overlayMode={flowMap ? "velocity" : "tint"}
+        overlayRange={dopplerNyquistVelocity(c, prfHz, freqMhz * 1e6)}
+        gate={pwResult ? { scanlineIndex: gateLine, startSample: (gateDepthMm - gateLengthMm / 2) / 1000 / (dtUs * 1e-6 * c / 2), endSample: (gateDepthMm + gateLengthMm / 2) / 1000 / (dtUs * 1e-6 * c / 2) } : undefined}
+        mmode={mmodeEnabled && mmode && !cine ? { ...mmode, scanlineIndex: mmodeLine } : undefined}
+        onPickScanline={mmodeEnabled ? setMmodeLine : undefined}
+        display={display}
+        cine={cine ? {
+          count: cine.frames.length, index: cineIndex, timeS: cine.times[cineIndex] ?? 0,
+          onSeek: (i) => { setCinePlaying(false); setCineIndex(i); },
+          playing: cinePlaying, onTogglePlay: () => setCinePlaying(p => !p),
+          frames: cine.frames, frameTimeMs: 1000 / cineFps,
+        } : undefined}
+      />
+      {pwResult && <DopplerSpectrogramViewer result={pwResult} />}
+      {clutterReport && <ClutterResponsePlot report={clutterReport} nyquistVelocity={dopplerNyquistVelocity(c, prfHz, freqMhz * 1e6)} />}
     </div>
   );
 }
@@ -20,4 +20,15 @@ export class NodeStorage implements StoragePort {
       return null;
     }
   }
+  async saveBinary(filePath: string, data: Uint8Array): Promise<void> {
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+  async loadBinary(filePath: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await readFile(filePath));
+    } catch {
+      return null;
+    }
+  }
 }
@@ -7,7 +7,23 @@ import { StoragePort } from "@aloe/core";
 
 export class WebStorage implements StoragePort {
   async saveText(fileName: string, content: string): Promise<void> {
-    const blob = new Blob([content], { type: "text/plain" });
+    this.download(fileName, new Blob([content], { type: "text/plain" }));
+  }
+
+  async saveBinary(fileName: string, data: Uint8Array): Promise<void> {
+    // copy into a plain ArrayBuffer so a view over a shared or larger buffer saves only its bytes
+    this.download(fileName, new Blob([data.slice().buffer as ArrayBuffer], { type: "application/octet-stream" }));
+  }
+
+  async loadText(filePath: string): Promise<string | null> {
+    throw new Error("Load not supported in web environment");
+  }
+
+  async loadBinary(filePath: string): Promise<Uint8Array | null> {
+    throw new Error("Load not supported in web environment");
+  }
+
+  private download(fileName: string, blob: Blob): void {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
@@ -15,8 +31,4 @@ export class WebStorage implements StoragePort {
     a.click();
     URL.revokeObjectURL(url);
   }
-
-  async loadText(filePath: string): Promise<string | null> {
-    throw new Error("Load not supported in web environment");
-  }
 }
@@ -0,0 +1,127 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: IQ demodulation of channel data and a baseband delay-and-sum beamformer using phase rotation.
+ */
+
+import { DynamicBeamformingConfig, ReceiveFocusing, SampleMatrix, ScanlineGenerator } from "./types.js";
+import { FrameResult } from "./runner.js";
+import { scanlineParam } from "./util.js";
+import { channelAlignment } from "./beamformers/align.js";
+import { IqDemodulationOptions, IqSignal, demodulateIq, iqLowPass, remodulateIq } from "../../signal/iq.js";
+import { InterpolationMethod, createInterpolator } from "../../signal/fractional-delay.js";
+import { makeWindow } from "../profile/windows.js";
+import { WindowType } from "../profile/types.js";
+
+/** Demodulated channel data; sample m of each matrix is at time m · decimation · timeStep. */
+export interface IqChannelData {
+  /** In-phase samples with shape [samples / decimation][elements] */
+  i: SampleMatrix;
+  /** Quadrature samples with the same shape */
+  q: SampleMatrix;
+  carrierHz: number;
+  decimation: number;
+}
+
+/** IQ-demodulate every element of a [samples][elements] RF matrix. */
+export function demodulateChannels(matrix: SampleMatrix, cfg: DynamicBeamformingConfig, opts: IqDemodulationOptions): IqChannelData {
+  const fs = 1 / cfg.timeStep;
+  const decimation = Math.max(1, Math.round(opts.decimation ?? 1));
+  const lowPass = iqLowPass(fs, opts);
+  const elements = matrix[0]?.length ?? 0;
+  const rows = Math.ceil(matrix.length / decimation);
+  const i: SampleMatrix = Array.from({ length: rows }, () => new Array(elements).fill(0));
+  const q: SampleMatrix = Array.from({ length: rows }, () => new Array(elements).fill(0));
+  for (let e = 0; e < elements; e++) {
+    const iq = demodulateIq(matrix.map((row) => row[e]), fs, opts, lowPass);
+    for (let m = 0; m < rows; m++) {
+      i[m][e] = iq.i[m];
+      q[m][e] = iq.q[m];
+    }
+  }
+  return { i, q, carrierHz: opts.carrierHz, decimation };
+}
+
+export interface BasebandOptions {
+  focusing?: ReceiveFocusing; // default fixed
+  interpolation?: InterpolationMethod; // interpolator for the (slowly varying) IQ envelope; default linear
+  windowType?: WindowType; // receive apodization; default rectangular
+  chebyshevSidelobeDb?: number; // used when windowType == "chebyshev"
+}
+
+export interface BasebandBeamformer {
+  /** Beamformed IQ scanline at the decimated rate (length ceil(samples / decimation)) */
+  beamformIq(iq: IqChannelData, scanlineIndex: number, cfg: DynamicBeamformingConfig): IqSignal;
+}
+
+/**
+ * Baseband delay-and-sum. Each element is read at the same delay as the RF beamformers, but the
+ * delay is split: the IQ samples (which vary at the pulse bandwidth, not the carrier) are
+ * interpolated at the delayed time τ, and the carrier's share is restored exactly by a phase
+ * rotation e^{j2π·f0·(τ - t)}, t being the output sample's time.
+ */
+export function createBasebandBeamformer(opts: BasebandOptions = {}): BasebandBeamformer {
+  const focusing = opts.focusing ?? "fixed";
+  const interpolator = createInterpolator(opts.interpolation ?? "linear");
+  return {
+    beamformIq: (iq: IqChannelData, scanlineIndex: number, cfg: DynamicBeamformingConfig): IqSignal => {
+      const D = iq.decimation;
+      const dt = cfg.timeStep; // seconds
+      const omega = 2 * Math.PI * iq.carrierHz;
+      const { aperture, readIndex } = channelAlignment(scanlineIndex, cfg, focusing);
+      const weights = makeWindow(opts.windowType ?? "rectangular", aperture.length, opts.chebyshevSidelobeDb ?? 30);
+      const rows = iq.i.length;
+      const outI: number[] = new Array(rows).fill(0);
+      const outQ: number[] = new Array(rows).fill(0);
+      for (let m = 0; m < rows; m++) {
+        const s = m * D; // output time in RF samples
+        let accI = 0, accQ = 0;
+        for (let k = 0; k < aperture.length; k++) {
+          const r = readIndex(s, k); // RF samples
+          const I = interpolator.sample(iq.i, aperture[k], r / D);
+          const Q = interpolator.sample(iq.q, aperture[k], r / D);
+          const phi = omega * (r - s) * dt;
+          const cos = Math.cos(phi), sin = Math.sin(phi);
+          accI += weights[k] * (I * cos - Q * sin);
+          accQ += weights[k] * (I * sin + Q * cos);
+        }
+        outI[m] = accI;
+        outQ[m] = accQ;
+      }
+      return { i: outI, q: outQ };
+    }
+  };
+}
+
+export interface BasebandFrameResult extends FrameResult {
+  /** Beamformed IQ per scanline at the decimated rate */
+  iq: IqSignal[];
+  decimation: number;
+}
+
+/**
+ * runFrame on the baseband path: each scanline's channel data is demodulated with `demod`,
+ * beamformed as IQ, and re-modulated to RF at the full rate for `beamformed`.
+ */
+export function runBasebandFrame(
+  cfg: DynamicBeamformingConfig,
+  generator: ScanlineGenerator,
+  demod: IqDemodulationOptions,
+  beamformer: BasebandBeamformer
+): BasebandFrameResult {
+  const L = cfg.scanning.numScanLines;
+  const samples = cfg.scanning.samples;
+  const fs = 1 / cfg.timeStep;
+  const out: number[][] = new Array(L);
+  const iq: IqSignal[] = new Array(L);
+  const params: number[] = new Array(L);
+  let decimation = 1;
+  for (let i = 0; i < L; i++) {
+    params[i] = scanlineParam(cfg, i);
+    const channels = demodulateChannels(generator.generateScanline(i, cfg), cfg, demod);
+    decimation = channels.decimation;
+    iq[i] = beamformer.beamformIq(channels, i, cfg);
+    out[i] = remodulateIq(iq[i], fs, demod.carrierHz, decimation, samples);
+  }
+  return { beamformed: out, scanParams: params, transmits: L, iq, decimation };
+}
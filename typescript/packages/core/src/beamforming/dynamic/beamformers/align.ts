@@ -0,0 +1,83 @@
+/* Delay alignment of per-element channel data, shared by the delay-based beamformers. */
+
+import { DynamicBeamformingConfig, ReceiveFocusing, SampleMatrix, elementPositionMeters } from "../types.js";
+import { receiveAperture, sampleDepth, scanlineParam, scanlinePoint } from "../util.js";
+import { FractionalDelayInterpolator } from "../../../signal/fractional-delay.js";
+
+export interface AlignedChannels {
+  /** Delay-aligned samples with shape [samples][aperture.length] */
+  data: SampleMatrix;
+  /** Array element index of each aligned column */
+  aperture: number[];
+}
+
+export interface ChannelAlignment {
+  /** Array element index of each aligned column */
+  aperture: number[];
+  /** Fractional record sample at which column k is read for output sample s (s may be fractional) */
+  readIndex(s: number, k: number): number;
+}
+
+/**
+ * Where each element of the scanline's receive aperture must be read so echoes from the scanline
+ * line up.
+ *
+ * - "fixed": one shift per element, applied to every sample. Phased lines use the far-field
+ *   steering delay (x·sinθ/c); linear lines look straight down and need no shift.
+ * - "dynamic": for each output sample the focal point is the depth on the scanline reached at
+ *   that round-trip time, and each element is read at (depth + |focus - element|) / c
+ */
+export function channelAlignment(
+  scanlineIndex: number,
+  cfg: DynamicBeamformingConfig,
+  focusing: ReceiveFocusing
+): ChannelAlignment {
+  const dt = cfg.timeStep; // seconds
+  const c = cfg.propagationSpeed; // m/s
+  const aperture = receiveAperture(cfg, scanlineIndex);
+  const xs = aperture.map((e) => elementPositionMeters(e, cfg.array));
+
+  if (focusing === "dynamic") {
+    return {
+      aperture,
+      readIndex: (s, k) => {
+        const depth = sampleDepth(cfg, s);
+        const focus = scanlinePoint(cfg, scanlineIndex, depth);
+        const dx = xs[k] - focus.x;
+        const rRx = Math.sqrt(dx * dx + focus.z * focus.z);
+        // transmit leg (depth) + receive leg back to this element, in samples
+        return (depth + rRx) / (c * dt);
+      },
+    };
+  }
+
+  const sinTheta = cfg.scanning.type === "phased"
+    ? Math.sin((scanlineParam(cfg, scanlineIndex) * Math.PI) / 180)
+    : 0;
+  // Precompute per-element fractional sample shift (negative delay to advance)
+  const shifts = xs.map((x) => -((x * sinTheta) / c) / dt);
+  return { aperture, readIndex: (s, k) => s + shifts[k] };
+}
+
+/**
+ * Shift every element of the scanline's receive aperture per channelAlignment. Samples between
+ * the recorded ones are read with `interpolator`; samples outside the record are zero.
+ */
+export function alignChannels(
+  matrix: SampleMatrix,
+  scanlineIndex: number,
+  cfg: DynamicBeamformingConfig,
+  focusing: ReceiveFocusing,
+  interpolator: FractionalDelayInterpolator
+): AlignedChannels {
+  const samples = cfg.scanning.samples;
+  const { aperture, readIndex } = channelAlignment(scanlineIndex, cfg, focusing);
+  const n = aperture.length;
+  const data: SampleMatrix = new Array(samples);
+  for (let s = 0; s < samples; s++) {
+    const row: number[] = new Array(n);
+    for (let k = 0; k < n; k++) row[k] = interpolator.sample(matrix, aperture[k], readIndex(s, k));
+    data[s] = row;
+  }
+  return { data, aperture };
+}
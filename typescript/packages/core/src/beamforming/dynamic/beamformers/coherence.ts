@@ -0,0 +1,138 @@
+/* Coherence-based post-weighting (CF, GCF, PCF) wrapped around a delay-based beamformer. */
+
+import { DynamicBeamformer, DynamicBeamformingConfig, ReceiveFocusing, SampleMatrix, ScanlineVector } from "../types.js";
+import { alignChannels } from "./align.js";
+import { InterpolationMethod, createInterpolator } from "../../../signal/fractional-delay.js";
+import { hilbertAnalytic } from "../../../signal/hilbert.js";
+
+/**
+ * - "cf": coherence factor, |Σx|² / (M·Σx²)
+ * - "gcf": generalized coherence factor, the share of the aperture's spatial spectrum within
+ *   `gcfCutoff` bins of DC (gcfCutoff = 0 is the CF)
+ * - "pcf": phase coherence factor, 1 - γ·σ(φ)/σ₀ from the spread of the channels' instantaneous phase
+ */
+export type CoherenceMethod = "cf" | "gcf" | "pcf";
+
+export interface CoherenceOptions {
+  method?: CoherenceMethod; // default cf
+  focusing?: ReceiveFocusing; // alignment used for the coherence; match the wrapped beamformer. default fixed
+  interpolation?: InterpolationMethod; // fractional-delay interpolator for that alignment; default linear
+  gcfCutoff?: number; // GCF low-frequency cutoff M0 (spatial frequency bins either side of DC); default 1
+  pcfGamma?: number; // PCF sensitivity γ; default 1
+  averaging?: number; // samples either side averaged into the CF/GCF energies; default 2
+}
+
+export interface CoherenceScanline {
+  /** Wrapped beamformer output weighted by the coherence */
+  beamformed: ScanlineVector;
+  /** Coherence (0..1) applied to each sample */
+  coherence: ScanlineVector;
+}
+
+export interface CoherenceBeamformer extends DynamicBeamformer {
+  /** Weighted scanline together with the coherence map that produced it */
+  beamformWithCoherence(matrix: SampleMatrix, scanlineIndex: number, cfg: DynamicBeamformingConfig): CoherenceScanline;
+}
+
+/** True when `bf` can also report its coherence map (see runCoherenceFrame). */
+export function isCoherenceBeamformer(bf: DynamicBeamformer): bf is CoherenceBeamformer {
+  return typeof (bf as CoherenceBeamformer).beamformWithCoherence === "function";
+}
+
+/**
+ * Factory wrapping `base` (e.g. createDelayAndSumBeamformer) with coherence weighting: every output
+ * sample is multiplied by the coherence of the delay-aligned aperture at that sample, suppressing
+ * sidelobes and clutter whose echoes do not add up in phase across the elements.
+ */
+export function createCoherenceBeamformer(base: DynamicBeamformer, opts: CoherenceOptions = {}): CoherenceBeamformer {
+  const method = opts.method ?? "cf";
+  const focusing = opts.focusing ?? "fixed";
+  const interpolator = createInterpolator(opts.interpolation ?? "linear");
+  const beamformWithCoherence = (matrix: SampleMatrix, scanlineIndex: number, cfg: DynamicBeamformingConfig): CoherenceScanline => {
+    const { data } = alignChannels(matrix, scanlineIndex, cfg, focusing, interpolator);
+    const coherence = method === "pcf"
+      ? phaseCoherence(data, opts.pcfGamma ?? 1)
+      : spectralCoherence(data, method === "gcf" ? Math.max(0, Math.round(opts.gcfCutoff ?? 1)) : 0, Math.max(0, Math.round(opts.averaging ?? 2)));
+    const beamformed = base.beamform(matrix, scanlineIndex, cfg).map((v, s) => v * coherence[s]);
+    return { beamformed, coherence };
+  };
+  return {
+    beamform: (matrix, scanlineIndex, cfg) => beamformWithCoherence(matrix, scanlineIndex, cfg).beamformed,
+    beamformWithCoherence,
+  };
+}
+
+/**
+ * GCF per sample: energy in the spatial DFT bins |k| <= cutoff over the total energy (Parseval,
+ * M·Σx²), both summed over ±averaging samples. cutoff = 0 gives the coherence factor.
+ */
+function spectralCoherence(data: SampleMatrix, cutoff: number, averaging: number): number[] {
+  const samples = data.length;
+  const M = data[0]?.length ?? 0;
+  const low: number[] = new Array(samples).fill(0);
+  const total: number[] = new Array(samples).fill(0);
+  const bins = Math.min(cutoff, Math.floor((M - 1) / 2));
+  for (let s = 0; s < samples; s++) {
+    const row = data[s];
+    let energy = 0;
+    for (let m = 0; m < M; m++) energy += row[m] * row[m];
+    // real data: |X(-k)| = |X(k)|, so each bin above DC counts twice
+    let lowEnergy = 0;
+    for (let k = 0; k <= bins; k++) {
+      let re = 0, im = 0;
+      for (let m = 0; m < M; m++) {
+        const a = (-2 * Math.PI * k * m) / M;
+        re += row[m] * Math.cos(a);
+        im += row[m] * Math.sin(a);
+      }
+      lowEnergy += (k === 0 ? 1 : 2) * (re * re + im * im);
+    }
+    low[s] = lowEnergy;
+    total[s] = M * energy;
+  }
+  const out: number[] = new Array(samples);
+  for (let s = 0; s < samples; s++) {
+    let num = 0, den = 0;
+    for (let k = Math.max(0, s - averaging); k <= Math.min(samples - 1, s + averaging); k++) {
+      num += low[k];
+      den += total[k];
+    }
+    out[s] = den > 0 ? Math.min(1, num / den) : 0;
+  }
+  return out;
+}
+
+/**
+ * PCF per sample from the standard deviation of the channels' instantaneous phase (analytic signal
+ * along each aligned channel). Phases near ±π wrap, so the spread is also taken with every phase
+ * shifted by π and the smaller one is used. σ₀ = π/√3 is the spread of uniformly random phase.
+ */
+function phaseCoherence(data: SampleMatrix, gamma: number): number[] {
+  const samples = data.length;
+  const M = data[0]?.length ?? 0;
+  const sigma0 = Math.PI / Math.sqrt(3);
+  const phases: number[][] = new Array(M);
+  for (let m = 0; m < M; m++) {
+    const a = hilbertAnalytic(data.map((row) => row[m]));
+    phases[m] = a.real.map((re, s) => Math.atan2(a.imag[s], re));
+  }
+  const out: number[] = new Array(samples);
+  for (let s = 0; s < samples; s++) {
+    const phi: number[] = new Array(M);
+    const aux: number[] = new Array(M);
+    for (let m = 0; m < M; m++) {
+      phi[m] = phases[m][s];
+      aux[m] = phi[m] > 0 ? phi[m] - Math.PI : phi[m] + Math.PI;
+    }
+    const spread = Math.min(standardDeviation(phi), standardDeviation(aux));
+    out[s] = M > 0 ? Math.max(0, 1 - (gamma * spread) / sigma0) : 0;
+  }
+  return out;
+}
+
+function standardDeviation(x: number[]): number {
+  const n = x.length;
+  if (n === 0) return 0;
+  const mean = x.reduce((a, b) => a + b, 0) / n;
+  return Math.sqrt(x.reduce((a, b) => a + (b - mean) * (b - mean), 0) / n);
+}
@@ -0,0 +1,75 @@
+/* Minimum-variance (Capon) adaptive beamformer with subarray averaging, diagonal loading and temporal averaging. */
+
+import { DynamicBeamformer, DynamicBeamformingConfig, SampleMatrix, ScanlineVector } from "../types.js";
+import { DelayAndSumOptions } from "./delay-sum.js";
+import { alignChannels } from "./align.js";
+import { createInterpolator } from "../../../signal/fractional-delay.js";
+import { solveSymmetricPositiveDefinite } from "../../../math/linear-algebra.js";
+
+export interface MinimumVarianceOptions extends DelayAndSumOptions {
+  subarrayLength?: number; // elements per subarray; default half the aperture
+  diagonalLoading?: number; // fraction of the mean channel power added to the diagonal; default 0.01
+  temporalAveraging?: number; // samples averaged on either side of the output sample; default 0
+}
+
+/**
+ * Per output sample, estimates the spatial covariance R of the delay-aligned aperture by averaging
+ * the outer products of every length-L subarray (spatial smoothing) over ±K samples, loads its
+ * diagonal with Δ·trace(R)/L, and applies the Capon weights w = R⁻¹a / (aᵀR⁻¹a), a = 1, to the
+ * average of the subarrays. The distortionless constraint (wᵀa = 1) passes aligned echoes at
+ * single-channel amplitude, so the output is scaled by the aperture size to match delay-and-sum.
+ */
+export function createMinimumVarianceBeamformer(opts: MinimumVarianceOptions = {}): DynamicBeamformer {
+  const focusing = opts.focusing ?? "fixed";
+  const interpolator = createInterpolator(opts.interpolation ?? "linear");
+  const loading = opts.diagonalLoading ?? 0.01;
+  const K = Math.max(0, Math.round(opts.temporalAveraging ?? 0));
+  return {
+    beamform: (matrix: SampleMatrix, scanlineIndex: number, cfg: DynamicBeamformingConfig): ScanlineVector => {
+      const samples = cfg.scanning.samples;
+      const { data, aperture } = alignChannels(matrix, scanlineIndex, cfg, focusing, interpolator);
+      const M = aperture.length;
+      const L = Math.max(1, Math.min(M, Math.round(opts.subarrayLength ?? M / 2)));
+      const subarrays = M - L + 1;
+      const ones: number[] = new Array(L).fill(1);
+
+      const out: number[] = new Array(samples).fill(0);
+      const R: number[][] = Array.from({ length: L }, () => new Array(L).fill(0));
+      for (let s = 0; s < samples; s++) {
+        for (let i = 0; i < L; i++) R[i].fill(0);
+        const k0 = Math.max(0, s - K);
+        const k1 = Math.min(samples - 1, s + K);
+        for (let k = k0; k <= k1; k++) {
+          const row = data[k];
+          for (let l = 0; l < subarrays; l++) {
+            for (let i = 0; i < L; i++) {
+              const xi = row[l + i];
+              if (xi === 0) continue;
+              for (let j = i; j < L; j++) R[i][j] += xi * row[l + j];
+            }
+          }
+        }
+        let trace = 0;
+        for (let i = 0; i < L; i++) trace += R[i][i];
+        // subarray average of the output sample
+        const avg: number[] = new Array(L).fill(0);
+        for (let l = 0; l < subarrays; l++) for (let i = 0; i < L; i++) avg[i] += data[s][l + i] / subarrays;
+        if (trace <= 0) {
+          out[s] = (M / L) * avg.reduce((a, b) => a + b, 0);
+          continue;
+        }
+        const eps = (loading * trace) / L;
+        for (let i = 0; i < L; i++) {
+          R[i][i] += eps;
+          for (let j = 0; j < i; j++) R[i][j] = R[j][i];
+        }
+        const Ria = solveSymmetricPositiveDefinite(R, ones);
+        const norm = Ria.reduce((a, b) => a + b, 0);
+        let acc = 0;
+        for (let i = 0; i < L; i++) acc += (Ria[i] / norm) * avg[i];
+        out[s] = M * acc;
+      }
+      return out;
+    }
+  };
+}
@@ -0,0 +1,59 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Cine sequences: frames acquired at advancing slow time, yielded as an async iterator.
+ */
+
+import { DynamicBeamformingConfig } from "./types.js";
+import { FrameResult, frameRateHz } from "./runner.js";
+
+export interface CineOptions {
+  /** Frames to acquire (default 30) */
+  frames?: number;
+  /**
+   * Frames per second; slow time advances 1 / frameRateHz between frames (default: the fastest
+   * the acquisition allows, see frameRateHz)
+   */
+  frameRateHz?: number;
+  /** Slow time of the first frame (seconds) (default cfg.slowTime, or 0) */
+  startTime?: number;
+}
+
+export type CineFrame<R extends FrameResult = FrameResult> = R & {
+  /** Position in the sequence, from 0 */
+  index: number;
+  /** Slow time at which the frame was acquired (seconds) */
+  timeS: number;
+};
+
+/**
+ * Acquire a cine sequence. `acquire` produces one frame for a config (e.g. runFrame with a
+ * generator and beamformer, or a compounding run) and is called with `slowTime` set to each
+ * frame's start, so scatterers with velocities or trajectories have moved on. Each frame is a
+ * snapshot: targets stand still while its transmits fire. Frames are yielded as they complete,
+ * with a turn of the event loop in between so a UI stays responsive.
+ */
+export async function* runCine<R extends FrameResult>(
+  cfg: DynamicBeamformingConfig,
+  acquire: (cfg: DynamicBeamformingConfig) => R,
+  opts: CineOptions = {}
+): AsyncGenerator<CineFrame<R>> {
+  const frames = Math.max(1, Math.round(opts.frames ?? 30));
+  const t0 = opts.startTime ?? cfg.slowTime ?? 0;
+  // the frame period is known once the first frame reports its transmit count
+  let period = 0;
+  for (let k = 0; k < frames; k++) {
+    const timeS = t0 + k * period;
+    const res = acquire({ ...cfg, slowTime: timeS });
+    if (k === 0) {
+      const maxRate = frameRateHz(cfg, res);
+      const rate = opts.frameRateHz ?? maxRate;
+      if (!(rate > 0) || rate > maxRate) {
+        throw new Error(`Frame rate ${rate} Hz must be positive and at most ${maxRate.toFixed(1)} Hz, the rate the acquisition allows`);
+      }
+      period = 1 / rate;
+    }
+    yield { ...res, index: k, timeS };
+    await new Promise<void>((resolve) => setTimeout(resolve, 0));
+  }
+}
@@ -0,0 +1,356 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Clutter (wall) filters for slow-time Doppler ensembles: FIR/IIR high-pass, polynomial regression and SVD.
+ */
+
+import { IqSignal } from "../../signal/iq.js";
+import { designLowPassFir } from "../../signal/fir.js";
+import { symmetricEigen } from "../../math/linear-algebra.js";
+
+/**
+ * Slow-time clutter filter.
+ * - "fir": windowed-sinc high-pass; only the fully overlapped outputs are kept, so the ensemble
+ *   loses `taps - 1` pulses
+ * - "iir": Butterworth high-pass with step initialization (as if the first pulse had always been
+ *   there), which suppresses the start-up transient of stationary tissue
+ * - "regression": projects out polynomials in slow time up to `order` (order 0 removes the mean)
+ * - "svd": spatiotemporal; the `clutterRank` strongest singular components of the whole frame's
+ *   Casorati matrix (pixels × pulses) are removed. "auto" picks the knee of the singular values.
+ */
+export type ClutterFilter =
+  | { type: "none" }
+  | { type: "fir"; cutoffHz: number; taps?: number } // default 5 taps
+  | { type: "iir"; cutoffHz: number; order?: number } // default order 2
+  | { type: "regression"; order: number }
+  | { type: "svd"; clutterRank?: number | "auto" }; // default auto
+
+/** Gain of a slow-time filter against Doppler frequency. */
+export interface ClutterFilterResponse {
+  /** Doppler frequency (Hz), from -PRF/2 up to +PRF/2 */
+  frequenciesHz: number[];
+  /** Mean output power over the ensemble for a unit complex tone (dB) */
+  gainDb: number[];
+}
+
+/** What a filter did, without the data. */
+export interface ClutterFilterReport {
+  /** Response of the slow-time filter that was applied (for SVD, the learned projection) */
+  response: ClutterFilterResponse;
+  /** SVD only: singular values of the Casorati matrix (descending) */
+  singularValues?: number[];
+  /** SVD only: number of singular components removed */
+  clutterRank?: number;
+}
+
+export interface ClutterFilterResult extends ClutterFilterReport {
+  /** Filtered ensembles, [scanline][pulse] like the input */
+  filtered: IqSignal[][];
+}
+
+/** Complex slow-time vector of one pixel */
+interface SlowTime {
+  re: number[];
+  im: number[];
+}
+
+type SlowTimeOperator = (x: SlowTime) => SlowTime;
+
+/** Second-order section b0 + b1 z⁻¹ + b2 z⁻² over 1 + a1 z⁻¹ + a2 z⁻² */
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+/** High-pass FIR taps: a unit impulse minus the windowed-sinc low-pass at the same cutoff. */
+export function firWallFilter(cutoffHz: number, prfHz: number, taps = 5): number[] {
+  const h = designLowPassFir(cutoffHz, prfHz, taps).map((v) => -v);
+  h[(h.length - 1) / 2] += 1;
+  return h;
+}
+
+/**
+ * Butterworth high-pass of the given order as second-order sections (an odd order ends with a
+ * first-order section, stored with b2 = a2 = 0), by the bilinear transform with pre-warping.
+ */
+function butterworthHighPass(cutoffHz: number, prfHz: number, order: number): Biquad[] {
+  if (!(cutoffHz > 0 && cutoffHz < prfHz / 2)) throw new Error(`IIR wall filter cutoff must be between 0 and PRF/2 (${prfHz / 2} Hz)`);
+  const K = Math.tan((Math.PI * cutoffHz) / prfHz);
+  const sections: Biquad[] = [];
+  for (let k = 0; k < Math.floor(order / 2); k++) {
+    // analog section s² + d·K·s + K² for the pole pair at angle π(2k + n + 1) / 2n
+    const d = -2 * Math.cos((Math.PI * (2 * k + order + 1)) / (2 * order));
+    const a0 = 1 + d * K + K * K;
+    sections.push({ b: [1 / a0, -2 / a0, 1 / a0], a: [(2 * K * K - 2) / a0, (1 - d * K + K * K) / a0] });
+  }
+  if (order % 2 === 1) sections.push({ b: [1 / (1 + K), -1 / (1 + K), 0], a: [(K - 1) / (1 + K), 0] });
+  return sections;
+}
+
+function iirHighPass(x: number[], sections: Biquad[]): number[] {
+  let y = x;
+  sections.forEach((sec, index) => {
+    const [b0, b1, b2] = sec.b;
+    const [a1, a2] = sec.a;
+    // step initialization: a high-pass settles to 0 for a constant input x0, leaving
+    // states z1 = -b0·x0, z2 = b2·x0; later sections then see a settled (zero) input
+    const x0 = index === 0 ? y[0] ?? 0 : 0;
+    let z1 = -b0 * x0, z2 = b2 * x0;
+    const out: number[] = new Array(y.length);
+    for (let n = 0; n < y.length; n++) {
+      const v = b0 * y[n] + z1;
+      z1 = b1 * y[n] - a1 * v + z2;
+      z2 = b2 * y[n] - a2 * v;
+      out[n] = v;
+    }
+    y = out;
+  });
+  return y;
+}
+
+/** Orthonormal polynomial basis (degrees 0..order) over n = 0..N-1, by Gram-Schmidt. */
+function regressionBasis(N: number, order: number): number[][] {
+  if (order >= N) throw new Error(`Regression order ${order} needs more than ${order + 1} pulses`);
+  const mid = (N - 1) / 2;
+  const basis: number[][] = [];
+  for (let p = 0; p <= order; p++) {
+    // centred powers keep the Gram-Schmidt well conditioned
+    const v = Array.from({ length: N }, (_, n) => Math.pow((n - mid) / Math.max(1, mid), p));
+    for (const b of basis) {
+      const dot = v.reduce((acc, x, n) => acc + x * b[n], 0);
+      for (let n = 0; n < N; n++) v[n] -= dot * b[n];
+    }
+    const norm = Math.sqrt(v.reduce((acc, x) => acc + x * x, 0));
+    basis.push(v.map((x) => x / norm));
+  }
+  return basis;
+}
+
+/** Slow-time operator of a fixed (data-independent) filter for ensembles of N pulses. */
+function fixedOperator(filter: Exclude<ClutterFilter, { type: "svd" }>, N: number, prfHz: number): SlowTimeOperator {
+  const real = (f: (x: number[]) => number[]): SlowTimeOperator => (x) => ({ re: f(x.re), im: f(x.im) });
+  switch (filter.type) {
+    case "none":
+      return (x) => x;
+    case "fir": {
+      const h = firWallFilter(filter.cutoffHz, prfHz, filter.taps ?? 5);
+      if (h.length > N) throw new Error(`FIR wall filter with ${h.length} taps needs at least ${h.length} pulses`);
+      return real((x) => {
+        const out: number[] = new Array(N - h.length + 1);
+        for (let m = 0; m < out.length; m++) {
+          let acc = 0;
+          for (let k = 0; k < h.length; k++) acc += h[k] * x[m + h.length - 1 - k];
+          out[m] = acc;
+        }
+        return out;
+      });
+    }
+    case "iir": {
+      const sections = butterworthHighPass(filter.cutoffHz, prfHz, Math.max(1, Math.round(filter.order ?? 2)));
+      return real((x) => iirHighPass(x, sections));
+    }
+    case "regression": {
+      const basis = regressionBasis(N, Math.max(0, Math.round(filter.order)));
+      return real((x) => {
+        const out = x.slice();
+        for (const b of basis) {
+          const dot = x.reduce((acc, v, n) => acc + v * b[n], 0);
+          for (let n = 0; n < N; n++) out[n] -= dot * b[n];
+        }
+        return out;
+      });
+    }
+  }
+}
+
+/**
+ * Knee of a descending singular-value curve: the index farthest from the straight line joining
+ * the first and last log singular values. Components before it are treated as tissue clutter.
+ */
+export function svdAutoRank(singularValues: number[]): number {
+  const n = singularValues.length;
+  if (n < 3) return Math.min(1, n - 1);
+  const y = singularValues.map((s) => Math.log10(Math.max(s, 1e-30)));
+  const dy = y[n - 1] - y[0];
+  const dx = n - 1;
+  const len = Math.hypot(dx, dy);
+  let best = 1, bestDist = -Infinity;
+  for (let k = 1; k < n - 1; k++) {
+    const dist = Math.abs(dy * k - dx * (y[k] - y[0])) / len;
+    if (dist > bestDist) { bestDist = dist; best = k; }
+  }
+  return best;
+}
+
+/**
+ * Largest Hermitian matrix the SVD filter diagonalises (its real embedding is twice this size);
+ * Jacobi rotations cost O(n³), and 128 keeps one decomposition to about a second.
+ */
+const MAX_SVD_DIMENSION = 128;
+
+/** Real embedding [[Re H, -Im H], [Im H, Re H]] of the Hermitian matrix with entries `entry(j, k)` (k ≤ j). */
+function hermitianEmbedding(n: number, entry: (j: number, k: number) => { re: number; im: number }): number[][] {
+  const E: number[][] = Array.from({ length: 2 * n }, () => new Array(2 * n).fill(0));
+  for (let j = 0; j < n; j++) {
+    for (let k = 0; k <= j; k++) {
+      const { re, im } = entry(j, k);
+      E[j][k] = re; E[j + n][k + n] = re;
+      E[j + n][k] = im; E[j][k + n] = -im;
+      E[k][j] = re; E[k + n][j + n] = re;
+      E[k + n][j] = -im; E[k][j + n] = im;
+    }
+  }
+  return E;
+}
+
+/**
+ * Learn the SVD clutter projection from a frame. The temporal covariance R = Σ z·zᴴ over every
+ * pixel's slow-time vector z is Hermitian; it is diagonalised through its real embedding
+ * [[Re R, -Im R], [Im R, Re R]], whose eigenvalues come in equal pairs, so removing the top
+ * 2·rank real eigenvectors removes the top `rank` complex singular components. When the frame
+ * has fewer pixels than pulses (e.g. a PW gate), the pixels × pixels Gram matrix is decomposed
+ * instead and its eigenvectors v mapped to R's as Z·v / √λ, which gives the same components.
+ */
+function svdOperator(frame: IqSignal[][], clutterRank: number | "auto"): { op: SlowTimeOperator; singularValues: number[]; rank: number } {
+  const N = frame[0]?.length ?? 0;
+  const M = 2 * N;
+  // pixel p is sample s of ensemble e; its slow-time vector is ensemble[n].i/q[s]
+  const pixels: { ensemble: IqSignal[]; s: number }[] = [];
+  for (const ensemble of frame) for (let s = 0; s < ensemble[0].i.length; s++) pixels.push({ ensemble, s });
+  const P = pixels.length;
+  const dim = Math.min(N, P);
+  if (dim > MAX_SVD_DIMENSION) {
+    throw new Error(`SVD clutter filter supports at most ${MAX_SVD_DIMENSION} pulses or pixels (got ${N} pulses x ${P} pixels); shorten the ensemble or use a fixed filter`);
+  }
+
+  let values: number[];
+  let vectors: number[][];
+  if (P < N) {
+    // G[p][q] = z_pᴴ · z_q
+    const G = hermitianEmbedding(P, (j, k) => {
+      const a = pixels[j], b = pixels[k];
+      let re = 0, im = 0;
+      for (let n = 0; n < N; n++) {
+        const ar = a.ensemble[n].i[a.s], ai = a.ensemble[n].q[a.s];
+        const br = b.ensemble[n].i[b.s], bi = b.ensemble[n].q[b.s];
+        re += ar * br + ai * bi;
+        im += ar * bi - ai * br;
+      }
+      return { re, im };
+    });
+    const eig = symmetricEigen(G);
+    const floor = 1e-12 * Math.max(eig.values[0] ?? 0, 0);
+    values = [];
+    vectors = [];
+    eig.vectors.forEach((v, k) => {
+      const lambda = eig.values[k];
+      if (!(lambda > floor)) return;
+      // u = Z · (a + jb) / √λ, stored as [Re u, Im u]
+      const u = new Array(M).fill(0);
+      pixels.forEach(({ ensemble, s }, p) => {
+        const a = v[p], b = v[p + P];
+        for (let n = 0; n < N; n++) {
+          const zr = ensemble[n].i[s], zi = ensemble[n].q[s];
+          u[n] += zr * a - zi * b;
+          u[n + N] += zr * b + zi * a;
+        }
+      });
+      const scale = 1 / Math.sqrt(lambda);
+      values.push(lambda);
+      vectors.push(u.map((x) => x * scale));
+    });
+  } else {
+    const E: number[][] = Array.from({ length: M }, () => new Array(M).fill(0));
+    for (const { ensemble, s } of pixels) {
+      for (let j = 0; j < N; j++) {
+        const jr = ensemble[j].i[s], ji = ensemble[j].q[s];
+        for (let k = 0; k <= j; k++) {
+          const kr = ensemble[k].i[s], ki = ensemble[k].q[s];
+          // R[j][k] = z_j · conj(z_k)
+          const re = jr * kr + ji * ki;
+          const im = ji * kr - jr * ki;
+          E[j][k] += re; E[j + N][k + N] += re;
+          E[j + N][k] += im; E[j][k + N] -= im;
+          if (k !== j) {
+            E[k][j] += re; E[k + N][j + N] += re;
+            E[k + N][j] -= im; E[k][j + N] += im;
+          }
+        }
+      }
+    }
+    ({ values, vectors } = symmetricEigen(E));
+  }
+  const singularValues = Array.from({ length: N }, (_, k) => Math.sqrt(Math.max(0, values[2 * k] ?? 0)));
+  // a frame with fewer pixels than pulses has only `pixels` non-zero singular values
+  const auto = () => svdAutoRank(singularValues.slice(0, Math.max(1, dim)));
+  const requested = clutterRank === "auto" ? auto() : Math.round(clutterRank);
+  const rank = Math.max(0, Math.min(N - 1, Math.floor(vectors.length / 2), requested));
+  const clutter = vectors.slice(0, 2 * rank);
+  const op: SlowTimeOperator = (x) => {
+    const w = x.re.concat(x.im);
+    const out = w.slice();
+    for (const u of clutter) {
+      let dot = 0;
+      for (let n = 0; n < M; n++) dot += u[n] * w[n];
+      for (let n = 0; n < M; n++) out[n] -= dot * u[n];
+    }
+    return { re: out.slice(0, N), im: out.slice(N) };
+  };
+  return { op, singularValues, rank };
+}
+
+/** Response of a slow-time operator: a unit complex tone of N pulses at each frequency, mean output power. */
+function operatorResponse(op: SlowTimeOperator, N: number, prfHz: number, points: number): ClutterFilterResponse {
+  const frequenciesHz = Array.from({ length: points }, (_, k) => -prfHz / 2 + (k * prfHz) / points);
+  const gainDb = frequenciesHz.map((f) => {
+    const w = (2 * Math.PI * f) / prfHz;
+    const y = op({ re: Array.from({ length: N }, (_, n) => Math.cos(w * n)), im: Array.from({ length: N }, (_, n) => Math.sin(w * n)) });
+    let power = 0;
+    for (let n = 0; n < y.re.length; n++) power += y.re[n] * y.re[n] + y.im[n] * y.im[n];
+    return 10 * Math.log10(Math.max(1e-10, power / Math.max(1, y.re.length)));
+  });
+  return { frequenciesHz, gainDb };
+}
+
+/** Frequency response of a fixed clutter filter for ensembles of `ensembleSize` pulses. */
+export function clutterFilterResponse(
+  filter: Exclude<ClutterFilter, { type: "svd" }>,
+  ensembleSize: number,
+  prfHz: number,
+  points = 128
+): ClutterFilterResponse {
+  return operatorResponse(fixedOperator(filter, ensembleSize, prfHz), ensembleSize, prfHz, points);
+}
+
+/**
+ * Filter every pixel's slow-time signal. `frame` holds one ensemble per scanline, each a list of
+ * IQ lines with slow time as the outer index; all ensembles must have the same number of pulses.
+ * The SVD filter is learned from the whole frame; its cost grows with the cube of the smaller of the
+ * ensemble length and the pixel count, which is capped at 128.
+ */
+export function applyClutterFilter(frame: IqSignal[][], filter: ClutterFilter, prfHz: number): ClutterFilterResult {
+  const N = frame[0]?.length ?? 0;
+  let op: SlowTimeOperator;
+  let report: Omit<ClutterFilterReport, "response"> = {};
+  if (filter.type === "svd") {
+    const svd = svdOperator(frame, filter.clutterRank ?? "auto");
+    op = svd.op;
+    report = { singularValues: svd.singularValues, clutterRank: svd.rank };
+  } else {
+    op = fixedOperator(filter, N, prfHz);
+  }
+  const filtered = frame.map((ensemble) => {
+    const samples = ensemble[0].i.length;
+    let out: IqSignal[] = [];
+    for (let s = 0; s < samples; s++) {
+      const y = op({ re: ensemble.map((z) => z.i[s]), im: ensemble.map((z) => z.q[s]) });
+      if (s === 0) out = y.re.map(() => ({ i: new Array(samples), q: new Array(samples) }));
+      for (let n = 0; n < y.re.length; n++) {
+        out[n].i[s] = y.re[n];
+        out[n].q[s] = y.im[n];
+      }
+    }
+    return out;
+  });
+  return { filtered, response: operatorResponse(op, N, prfHz, 128), ...report };
+}
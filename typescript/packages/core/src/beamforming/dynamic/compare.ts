@@ -0,0 +1,46 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Image-level comparison of a beamformed frame against a reference frame (e.g. TFM).
+ */
+
+import { envelope } from "../../signal/hilbert.js";
+
+export interface FrameComparison {
+  /** Pearson correlation of the two envelope images (1 = identical up to scale) */
+  correlation: number;
+  /** RMS difference of the peak-normalized envelope images (dB re the peak) */
+  rmsErrorDb: number;
+}
+
+/**
+ * Compare two RF frames of the same shape ([scanlines][samples]). Both are envelope-detected and
+ * normalized to their own peak first, so differences in gain and carrier phase do not count.
+ */
+export function compareFrames(frame: number[][], reference: number[][]): FrameComparison {
+  if (frame.length !== reference.length || frame[0]?.length !== reference[0]?.length) {
+    throw new Error("compareFrames: frames must have the same shape");
+  }
+  const a = frame.flatMap(envelope);
+  const b = reference.flatMap(envelope);
+  const maxA = a.reduce((m, v) => Math.max(m, v), 0) || 1;
+  const maxB = b.reduce((m, v) => Math.max(m, v), 0) || 1;
+  const n = a.length;
+
+  let meanA = 0, meanB = 0, sq = 0;
+  for (let k = 0; k < n; k++) {
+    a[k] /= maxA;
+    b[k] /= maxB;
+    meanA += a[k] / n;
+    meanB += b[k] / n;
+    sq += (a[k] - b[k]) * (a[k] - b[k]);
+  }
+  let cov = 0, varA = 0, varB = 0;
+  for (let k = 0; k < n; k++) {
+    cov += (a[k] - meanA) * (b[k] - meanB);
+    varA += (a[k] - meanA) * (a[k] - meanA);
+    varB += (b[k] - meanB) * (b[k] - meanB);
+  }
+  const correlation = varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+  return { correlation, rmsErrorDb: 20 * Math.log10(Math.sqrt(sq / n) || 1e-12) };
+}
@@ -0,0 +1,157 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Slow-time ensemble acquisition and colour-flow velocity estimation with the Kasai lag-one autocorrelator.
+ */
+
+import { DynamicBeamformer, DynamicBeamformingConfig, ScanlineGenerator } from "./types.js";
+import { FrameResult } from "./runner.js";
+import { scanlineParam } from "./util.js";
+import { ClutterFilter, ClutterFilterReport, applyClutterFilter } from "./clutter.js";
+import { IqSignal, demodulateIq, iqLowPass } from "../../signal/iq.js";
+
+export interface DopplerOptions {
+  /** Transmit centre frequency f0 (Hz); sets the demodulation carrier and the velocity scale */
+  carrierHz: number;
+  /** Pulses fired along each scanline (default 8) */
+  ensembleSize?: number;
+  /** Pulse repetition frequency (Hz) (default 4000) */
+  prfHz?: number;
+  /** Clutter filter (default: regression of order 0, i.e. removing the ensemble mean) */
+  wallFilter?: ClutterFilter;
+  /** Depth samples averaged into each autocorrelation estimate (default two carrier periods) */
+  axialAverage?: number;
+}
+
+export interface DopplerFrameResult extends FrameResult {
+  /** Axial velocity (m/s), positive towards the array, with shape [numScanLines][samples] */
+  velocity: number[][];
+  /** Mean clutter-filtered echo power per sample (linear), same shape */
+  power: number[][];
+  /** Largest unaliased speed c · PRF / (4 f0) (m/s) */
+  nyquistVelocity: number;
+  ensembleSize: number;
+  prfHz: number;
+  /** Response (and for SVD the singular values) of the clutter filter */
+  clutter: ClutterFilterReport;
+}
+
+/** Largest axial speed the lag-one estimator measures without aliasing (m/s). */
+export function dopplerNyquistVelocity(propagationSpeed: number, prfHz: number, carrierHz: number): number {
+  return (propagationSpeed * prfHz) / (4 * carrierHz);
+}
+
+/**
+ * Kasai lag-one autocorrelator along slow time. For every depth sample, R(1) = Σ z[n+1]·z*[n]
+ * and R(0) = Σ |z[n]|² are summed over the ensemble and `axialAverage` neighbouring samples;
+ * the mean Doppler phase shift per pulse is ∠R(1), so v = c · PRF · ∠R(1) / (4π f0). Speeds past
+ * the Nyquist velocity wrap round to the opposite sign (aliasing).
+ */
+export function kasaiEstimate(
+  ensemble: IqSignal[],
+  propagationSpeed: number,
+  prfHz: number,
+  carrierHz: number,
+  axialAverage = 1
+): { velocity: number[]; power: number[] } {
+  const n = ensemble.length;
+  const samples = n > 0 ? ensemble[0].i.length : 0;
+  const half = Math.floor(Math.max(1, axialAverage) / 2);
+  const scale = (propagationSpeed * prfHz) / (4 * Math.PI * carrierHz);
+  const velocity: number[] = new Array(samples).fill(0);
+  const power: number[] = new Array(samples).fill(0);
+  for (let s = 0; s < samples; s++) {
+    const s0 = Math.max(0, s - half);
+    const s1 = Math.min(samples - 1, s - half + Math.max(1, axialAverage) - 1);
+    let r1re = 0, r1im = 0, r0 = 0, count = 0;
+    for (let k = s0; k <= s1; k++) {
+      for (let p = 0; p < n; p++) {
+        const a = ensemble[p];
+        r0 += a.i[k] * a.i[k] + a.q[k] * a.q[k];
+        count++;
+        if (p + 1 < n) {
+          const b = ensemble[p + 1];
+          // b · conj(a)
+          r1re += b.i[k] * a.i[k] + b.q[k] * a.q[k];
+          r1im += b.q[k] * a.i[k] - b.i[k] * a.q[k];
+        }
+      }
+    }
+    velocity[s] = n > 1 ? scale * Math.atan2(r1im, r1re) : 0;
+    power[s] = count > 0 ? r0 / count : 0;
+  }
+  return { velocity, power };
+}
+
+/**
+ * Colour-flow acquisition. Each scanline is fired `ensembleSize` times at `prfHz` before moving
+ * to the next, so pulse n of line i leaves at slow time (i · ensembleSize + n) / PRF and moving
+ * targets have moved between firings. Every firing is beamformed and demodulated to IQ; the
+ * frame's ensembles are then clutter filtered along slow time (SVD filters learn from the whole
+ * frame) and passed through the Kasai estimator. `beamformed` is the first firing of each
+ * ensemble, for the B-mode underlay.
+ */
+export function runDopplerFrame(
+  cfg: DynamicBeamformingConfig,
+  generator: ScanlineGenerator,
+  beamformer: DynamicBeamformer,
+  opts: DopplerOptions
+): DopplerFrameResult {
+  const L = cfg.scanning.numScanLines;
+  const N = Math.max(2, Math.round(opts.ensembleSize ?? 8));
+  const prf = opts.prfHz ?? 4000;
+  const fs = 1 / cfg.timeStep;
+  const maxPrf = 1 / (cfg.scanning.samples * cfg.timeStep);
+  if (!(prf > 0) || prf > maxPrf) {
+    throw new Error(`PRF ${prf} Hz must be positive and at most ${maxPrf.toFixed(0)} Hz, the rate at which the record depth allows pulses`);
+  }
+  const demod = { carrierHz: opts.carrierHz };
+  const lowPass = iqLowPass(fs, demod);
+  const axialAverage = opts.axialAverage ?? Math.max(1, Math.round((2 * fs) / opts.carrierHz));
+
+  const out: number[][] = new Array(L);
+  const ensembles: IqSignal[][] = new Array(L);
+  const params: number[] = new Array(L);
+  for (let i = 0; i < L; i++) {
+    params[i] = scanlineParam(cfg, i);
+    ensembles[i] = new Array(N);
+    for (let n = 0; n < N; n++) {
+      const shot = { ...cfg, slowTime: (cfg.slowTime ?? 0) + (i * N + n) / prf };
+      const line = beamformer.beamform(generator.generateScanline(i, shot), i, shot);
+      if (n === 0) out[i] = line;
+      ensembles[i][n] = demodulateIq(line, fs, demod, lowPass);
+    }
+  }
+  const { filtered, ...clutter } = applyClutterFilter(ensembles, opts.wallFilter ?? { type: "regression", order: 0 }, prf);
+  const velocity: number[][] = new Array(L);
+  const power: number[][] = new Array(L);
+  for (let i = 0; i < L; i++) {
+    const est = kasaiEstimate(filtered[i], cfg.propagationSpeed, prf, opts.carrierHz, axialAverage);
+    velocity[i] = est.velocity;
+    power[i] = est.power;
+  }
+  return {
+    beamformed: out,
+    scanParams: params,
+    transmits: L * N,
+    velocity,
+    power,
+    nyquistVelocity: dopplerNyquistVelocity(cfg.propagationSpeed, prf, opts.carrierHz),
+    ensembleSize: N,
+    prfHz: prf,
+    clutter,
+  };
+}
+
+/**
+ * Colour-flow map for display: velocity / Nyquist velocity (-1..1), or NaN where the flow power
+ * is more than `powerThresholdDb` below the frame's peak so the B-mode shows through.
+ */
+export function colorFlowMap(result: DopplerFrameResult, powerThresholdDb = -30): number[][] {
+  let peak = 0;
+  for (const line of result.power) for (const p of line) if (p > peak) peak = p;
+  const floor = peak * Math.pow(10, powerThresholdDb / 10);
+  return result.velocity.map((line, i) =>
+    line.map((v, s) => (peak > 0 && result.power[i][s] >= floor ? v / result.nyquistVelocity : NaN))
+  );
+}
@@ -0,0 +1,63 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Full-matrix capture (synthetic transmit aperture) acquisition and total focusing method reconstruction.
+ */
+
+import { DynamicBeamformingConfig, ScanlineGenerator, SampleMatrix } from "./types.js";
+import { FrameResult } from "./runner.js";
+import { singleElementEvent } from "./transmit.js";
+import { scanlineParam } from "./util.js";
+import { createInterpolator } from "../../signal/fractional-delay.js";
+import { PixelApertureOptions, PixelGrid, createPixelApodization, delayAndSumPixel, scanlinePixelGrid } from "./pixel.js";
+
+/** Full-matrix capture: one [samples][elements] channel matrix per transmitting element. */
+export type FullMatrixCapture = SampleMatrix[];
+
+/** Fire every element in turn and record all elements for each firing. */
+export function acquireFullMatrix(cfg: DynamicBeamformingConfig, generator: ScanlineGenerator): FullMatrixCapture {
+  if (!generator.generateTransmit) {
+    throw new Error("Full-matrix capture requires a generator that implements generateTransmit");
+  }
+  const fmc: FullMatrixCapture = new Array(cfg.array.elements);
+  for (let e = 0; e < cfg.array.elements; e++) fmc[e] = generator.generateTransmit(singleElementEvent(cfg, e), cfg);
+  return fmc;
+}
+
+/**
+ * Total focusing method: every pixel is focused on both transmit and receive by summing each
+ * transmit/receive pair at the two-way time (|p - x_tx| + |p - x_rx|) / c. The aperture options
+ * apply to both sides, since transmitters and receivers are the same elements.
+ */
+export function totalFocusingImage(
+  fmc: FullMatrixCapture,
+  cfg: DynamicBeamformingConfig,
+  grid: PixelGrid,
+  opts: PixelApertureOptions = {}
+): number[][] {
+  const events = fmc.map((_, e) => singleElementEvent(cfg, e));
+  const apodization = createPixelApodization(cfg, opts);
+  const interpolator = createInterpolator(opts.interpolation ?? "linear");
+  return grid.map((column) => column.map((p) => {
+    const weights = apodization(p);
+    let acc = 0;
+    for (let e = 0; e < fmc.length; e++) {
+      if (weights[e] !== 0) acc += weights[e] * delayAndSumPixel(fmc[e], events[e], p, cfg, weights, interpolator);
+    }
+    return acc;
+  }));
+}
+
+/**
+ * Acquire a full-matrix capture and reconstruct it with TFM on the scanline grid, giving a
+ * transmit- and receive-focused reference frame shaped like runFrame's.
+ */
+export function runTfmFrame(
+  cfg: DynamicBeamformingConfig,
+  generator: ScanlineGenerator,
+  opts: PixelApertureOptions = {}
+): FrameResult {
+  const beamformed = totalFocusingImage(acquireFullMatrix(cfg, generator), cfg, scanlinePixelGrid(cfg), opts);
+  const scanParams = beamformed.map((_, i) => scanlineParam(cfg, i));
+  return { beamformed, scanParams, transmits: cfg.array.elements };
+}
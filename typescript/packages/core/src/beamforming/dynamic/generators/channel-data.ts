@@ -0,0 +1,39 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Replay recorded or imported per-element channel data as a scanline generator.
+ */
+
+import { DynamicBeamformingConfig, ScanlineGenerator, SampleMatrix } from "../types.js";
+
+/**
+ * Channel data of a whole frame, one sample matrix per scanline: shape
+ * [scanlines][samples][elements], the layout `recordChannelData` produces and .npy exports use.
+ */
+export type ChannelData = SampleMatrix[];
+
+/** Per-element samples of every scanline from a generator, e.g. to export or replay them. */
+export function recordChannelData(cfg: DynamicBeamformingConfig, generator: ScanlineGenerator): ChannelData {
+  return Array.from({ length: cfg.scanning.numScanLines }, (_, i) => generator.generateScanline(i, cfg));
+}
+
+/**
+ * Factory for a generator that returns stored channel data, so measured or imported records
+ * (e.g. from NumPy) can be fed to any DynamicBeamformer. The data must match the config's
+ * scanlines, samples and elements; it does not depend on slow time or the transmit settings.
+ */
+export function createChannelDataGenerator(data: ChannelData): ScanlineGenerator {
+  return {
+    generateScanline(scanlineIndex: number, cfg: DynamicBeamformingConfig): SampleMatrix {
+      const { numScanLines, samples } = cfg.scanning;
+      const elements = cfg.array.elements;
+      if (data.length !== numScanLines) throw new Error(`Channel data holds ${data.length} scanlines, the config scans ${numScanLines}`);
+      const matrix = data[scanlineIndex];
+      if (!matrix) throw new Error(`Scanline ${scanlineIndex} is outside the channel data (0..${data.length - 1})`);
+      if (matrix.length !== samples || (matrix[0]?.length ?? 0) !== elements) {
+        throw new Error(`Channel data scanline ${scanlineIndex} is ${matrix.length} samples x ${matrix[0]?.length ?? 0} elements, the config expects ${samples} x ${elements}`);
+      }
+      return matrix;
+    },
+  };
+}
@@ -0,0 +1,200 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Multi-scatterer tissue phantom generator with speckle, cyst, wire-target and flowing vessel builders.
+ */
+
+import { PhantomRegion, Point2D, ScanlineGenerator } from "../types.js";
+import { PulseConfig } from "../pulse.js";
+import { Scatterer, createPulsedScattererGenerator } from "./pulsed-scatterer.js";
+import { Trajectory } from "./trajectory.js";
+import { Random, createRandom } from "../../../math/random.js";
+
+export interface SpeckleFeature {
+  type: "speckle";
+  region: PhantomRegion;
+  /** Scatterers per mm² */
+  density: number;
+  /** RMS reflectivity of the speckle (default 1) */
+  amplitude?: number;
+}
+
+export interface CystFeature {
+  type: "cyst";
+  /** anechoic: scatterers inside are removed. hyperechoic: they are scaled by `contrastDb`. */
+  kind: "anechoic" | "hyperechoic";
+  center: Point2D;
+  /** Radius (meters) */
+  radius: number;
+  /** Reflectivity change inside a hyperechoic cyst (dB, default +6) */
+  contrastDb?: number;
+}
+
+export interface WireGridFeature {
+  type: "wires";
+  /** Position of the first wire (meters) */
+  origin: Point2D;
+  rows: number;
+  cols: number;
+  /** Lateral / axial wire pitch (meters) */
+  spacingX: number;
+  spacingZ: number;
+  /** Wire reflectivity (default 1) */
+  amplitude?: number;
+}
+
+/**
+ * Straight vessel segment filled with moving blood scatterers. Blood is not recycled, so make the
+ * segment long enough that it still spans the field of view after the acquisition's slow time.
+ */
+export interface VesselFeature {
+  type: "vessel";
+  /** Centre of the segment (meters) */
+  center: Point2D;
+  /** Lumen radius (meters) */
+  radius: number;
+  /** Segment length along its axis (meters) */
+  length: number;
+  /** Axis direction measured from the lateral axis, positive turning deeper (degrees, default 0) */
+  angleDeg?: number;
+  /** Centre-line speed along the axis (m/s); laminar, falling parabolically to 0 at the wall */
+  peakVelocity: number;
+  /** Blood scatterers per mm² (default 2) */
+  density?: number;
+  /** RMS reflectivity of blood (default 0.1, about 20 dB below unit speckle) */
+  amplitude?: number;
+}
+
+/** Features are applied in order, so a cyst only affects speckle listed before it. */
+export type PhantomFeature = SpeckleFeature | CystFeature | WireGridFeature | VesselFeature;
+
+export interface PhantomConfig {
+  /** Explicit scatterers, placed before any features */
+  scatterers?: Scatterer[];
+  features?: PhantomFeature[];
+  /** Seed for the speckle positions and reflectivities (default 1) */
+  seed?: number;
+  /** Bulk motion of the whole phantom (tissue and any vessel with it), e.g. a heartbeat */
+  motion?: Trajectory;
+  /** Transmit pulse fired for every scanline */
+  pulse: PulseConfig;
+}
+
+/** Uniformly placed speckle with normally distributed reflectivity. */
+export function speckleScatterers(feature: SpeckleFeature, rng: Random): Scatterer[] {
+  const { xMin, xMax, zMin, zMax } = feature.region;
+  const areaMm2 = Math.abs(xMax - xMin) * Math.abs(zMax - zMin) * 1e6;
+  const count = Math.round(areaMm2 * feature.density);
+  const amplitude = feature.amplitude ?? 1;
+  const out: Scatterer[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    out[i] = {
+      x: xMin + rng.next() * (xMax - xMin),
+      z: zMin + rng.next() * (zMax - zMin),
+      amplitude: amplitude * rng.normal(),
+    };
+  }
+  return out;
+}
+
+/** Remove (anechoic) or scale (hyperechoic) the scatterers inside a circular cyst. */
+export function applyCyst(scatterers: Scatterer[], feature: CystFeature): Scatterer[] {
+  const r2 = feature.radius * feature.radius;
+  const inside = (s: Scatterer) => {
+    const dx = s.x - feature.center.x;
+    const dz = s.z - feature.center.z;
+    return dx * dx + dz * dz <= r2;
+  };
+  if (feature.kind === "anechoic") return scatterers.filter((s) => !inside(s));
+  const gain = Math.pow(10, (feature.contrastDb ?? 6) / 20);
+  return scatterers.map((s) => (inside(s) ? { ...s, amplitude: (s.amplitude ?? 1) * gain } : s));
+}
+
+/** Regular grid of point (wire) targets. */
+export function wireTargets(feature: WireGridFeature): Scatterer[] {
+  const out: Scatterer[] = [];
+  for (let r = 0; r < feature.rows; r++) {
+    for (let c = 0; c < feature.cols; c++) {
+      out.push({
+        x: feature.origin.x + c * feature.spacingX,
+        z: feature.origin.z + r * feature.spacingZ,
+        amplitude: feature.amplitude ?? 1,
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Fill a vessel with blood: scatterers already inside the lumen are removed and replaced by
+ * speckle moving along the axis with a parabolic (Poiseuille) velocity profile.
+ */
+export function applyVessel(scatterers: Scatterer[], feature: VesselFeature, rng: Random): Scatterer[] {
+  const a = ((feature.angleDeg ?? 0) * Math.PI) / 180;
+  const ux = Math.cos(a), uz = Math.sin(a); // along the axis
+  const r = feature.radius;
+  const inside = (s: Scatterer) => {
+    const dx = s.x - feature.center.x;
+    const dz = s.z - feature.center.z;
+    return Math.abs(dx * ux + dz * uz) <= feature.length / 2 && Math.abs(-dx * uz + dz * ux) <= r;
+  };
+  const out = scatterers.filter((s) => !inside(s));
+  const count = Math.round(feature.length * 2 * r * 1e6 * (feature.density ?? 2));
+  const amplitude = feature.amplitude ?? 0.1;
+  for (let i = 0; i < count; i++) {
+    const along = (rng.next() - 0.5) * feature.length;
+    const across = (rng.next() * 2 - 1) * r;
+    const speed = feature.peakVelocity * (1 - (across * across) / (r * r));
+    out.push({
+      x: feature.center.x + along * ux - across * uz,
+      z: feature.center.z + along * uz + across * ux,
+      amplitude: amplitude * rng.normal(),
+      vx: speed * ux,
+      vz: speed * uz,
+    });
+  }
+  return out;
+}
+
+/** Expand a phantom description into its scatterer list. */
+export function buildPhantom(config: Omit<PhantomConfig, "pulse">): Scatterer[] {
+  const rng = createRandom(config.seed ?? 1);
+  let out: Scatterer[] = [...(config.scatterers ?? [])];
+  for (const f of config.features ?? []) {
+    switch (f.type) {
+      case "speckle": out = out.concat(speckleScatterers(f, rng)); break;
+      case "cyst":    out = applyCyst(out, f); break;
+      case "wires":   out = out.concat(wireTargets(f)); break;
+      case "vessel":  out = applyVessel(out, f, rng); break;
+    }
+  }
+  const motion = config.motion;
+  return motion ? out.map((s) => ({ ...s, trajectory: s.trajectory ?? motion })) : out;
+}
+
+/**
+ * QA-style layout inside a region: background speckle, an anechoic and a hyperechoic cyst,
+ * and a cross of wire targets down the centre.
+ */
+export function createQaPhantomFeatures(region: PhantomRegion, density = 2): PhantomFeature[] {
+  const w = region.xMax - region.xMin;
+  const h = region.zMax - region.zMin;
+  const xMid = (region.xMin + region.xMax) / 2;
+  const radius = Math.min(w, h) / 10;
+  return [
+    { type: "speckle", region, density },
+    { type: "cyst", kind: "anechoic", center: { x: xMid - w / 4, z: region.zMin + h * 0.6 }, radius },
+    { type: "cyst", kind: "hyperechoic", center: { x: xMid + w / 4, z: region.zMin + h * 0.6 }, radius, contrastDb: 6 },
+    { type: "wires", origin: { x: xMid, z: region.zMin + h * 0.15 }, rows: 4, cols: 1, spacingX: 0, spacingZ: h / 8, amplitude: 10 },
+    { type: "wires", origin: { x: xMid - w / 4, z: region.zMin + h * 0.3 }, rows: 1, cols: 5, spacingX: w / 8, spacingZ: 0, amplitude: 10 },
+  ];
+}
+
+/**
+ * Factory to create a phantom generator. The scatterer list is built once from the seed, so
+ * frames from the same config differ only by motion over slow time; it runs through runFrame
+ * with any beamformer.
+ */
+export function createPhantomGenerator(config: PhantomConfig): ScanlineGenerator {
+  return createPulsedScattererGenerator({ scatterers: buildPhantom(config), pulse: config.pulse });
+}
@@ -1,9 +1,11 @@
 /* Author: Nathaniel <nathaniel@aloe-health.tech>
  * Created: 2025-08-20
- * Purpose: Ideal point-source scanline generator with constant reflection and no attenuation.
+ * Purpose: Ideal point-source scanline generator with constant reflection, attenuated by the configured medium.
  */
 
-import { DynamicBeamformingConfig, ScanlineGenerator, SampleMatrix, elementPositionMeters } from "../types.js";
+import { DynamicBeamformingConfig, Point2D, ScanlineGenerator, SampleMatrix, TransmitEvent, elementPositionMeters } from "../types.js";
+import { pathAttenuationDb } from "../medium.js";
+import { idealTransmitOrigin, transmitEventForScanline, transmitField } from "../transmit.js";
 
 export interface PointSourceGeneratorConfig {
   /** Offset within scanning range. For phased: degrees. For linear: meters. */
@@ -20,59 +22,70 @@ export interface PointSourceGeneratorConfig {
 
 /**
  * Factory to create a point-source generator instance.
- * The generated scanline is identical for all scanlineIndex values.
+ * Without `cfg.transmit` the transmit path starts at the scanline's origin (see
+ * idealTransmitOrigin), so phased scanlines are identical for all scanlineIndex values; with it, the source is weighted and delayed by each scanline's transmit field.
+ * `generateTransmit` does the same for any other transmit event. The source keeps moving in
+ * slow time, so it starts each record `speed · cfg.slowTime` further from the array.
  */
 export function createPointSourceGenerator(config: PointSourceGeneratorConfig): ScanlineGenerator {
   const amplitude = config.amplitude ?? 1;
   const phase0 = config.phase0 ?? 0;
 
-  return {
-    generateScanline: (_scanlineIndex: number, cfg: DynamicBeamformingConfig): SampleMatrix => {
-      const samples = cfg.scanning.samples;
-      const elements = cfg.array.elements;
-      const dt = cfg.timeStep; // seconds
-      const c = cfg.propagationSpeed; // m/s
+  const generate = (event: TransmitEvent | null, cfg: DynamicBeamformingConfig, idealOrigin?: Point2D): SampleMatrix => {
+    const samples = cfg.scanning.samples;
+    const elements = cfg.array.elements;
+    const dt = cfg.timeStep; // seconds
+    const c = cfg.propagationSpeed; // m/s
 
-      const matrix: SampleMatrix = new Array(samples);
-      for (let s = 0; s < samples; s++) {
-        matrix[s] = new Array(elements);
-      }
+    const matrix: SampleMatrix = new Array(samples);
+    for (let s = 0; s < samples; s++) {
+      matrix[s] = new Array(elements);
+    }
 
-      // Determine point source ray path geometry per element.
-      // Two scanning modes:
-      // - phased: point source located along angle = offset (degrees) from array normal, moving away
-      // - linear: point source located at lateral x = offset (meters) on central axis, moving away
-      const isPhased = cfg.scanning.type === "phased";
-      const thetaRad = isPhased ? (config.offset * Math.PI) / 180 : 0;
+    // Determine point source ray path geometry per element.
+    // Two scanning modes:
+    // - phased: point source located along angle = offset (degrees) from array normal, moving away
+    // - linear: point source located at lateral x = offset (meters) on central axis, moving away
+    const isPhased = cfg.scanning.type === "phased";
+    const thetaRad = isPhased ? (config.offset * Math.PI) / 180 : 0;
 
-      // We place the source at z(t) = z0 + speed * t (z away from array), x(t) fixed by offset
-      // Choose z0 small positive to avoid singularity at t=0
-      const z0 = 1e-3; // meters
-      const xOffset = isPhased ? 0 : config.offset; // meters when linear
+    // We place the source at z(t) = z0 + speed * t (z away from array), x(t) fixed by offset
+    // Choose z0 small positive to avoid singularity at t=0
+    const z0 = 1e-3 + config.speed * (cfg.slowTime ?? 0); // meters
+    const xOffset = isPhased ? 0 : config.offset; // meters when linear
 
-      for (let s = 0; s < samples; s++) {
-        const t = s * dt;
-        const z = z0 + config.speed * t;
-        const xCenter = isPhased ? z * Math.tan(thetaRad) : xOffset;
+    for (let s = 0; s < samples; s++) {
+      const t = s * dt;
+      const z = z0 + config.speed * t;
+      const xCenter = isPhased ? z * Math.tan(thetaRad) : xOffset;
 
-        // Transmit path assumed from array center to point (common across elements)
-        const rTx = Math.sqrt(xCenter * xCenter + z * z);
-        const tauTx = rTx / c; // seconds
+      // Transmit path (common across elements): from the scanline's origin, or the transmit
+      // event when one is given
+      const field = transmitField(event, { x: xCenter, z }, cfg, config.frequencyHz, idealOrigin);
+      const tauTx = field.delay; // seconds
+      const rTx = tauTx * c;
 
-        const omega = 2 * Math.PI * config.frequencyHz; // radians per second
+      const omega = 2 * Math.PI * config.frequencyHz; // radians per second
+      const dbPerMeter = cfg.medium ? pathAttenuationDb(cfg.medium, { x: xCenter, z }, 1, config.frequencyHz) : 0;
 
-        for (let e = 0; e < elements; e++) {
-          const xElem = elementPositionMeters(e, cfg.array);
-          const rRx = Math.sqrt((xElem - xCenter) * (xElem - xCenter) + z * z);
-          const tauRx = rRx / c; // seconds (receive)
-          // Round-trip time = transmit (common) + receive (per element)
-          const phase = omega * (t - (tauTx + tauRx)) + phase0;
-          matrix[s][e] = amplitude * Math.cos(phase);
-        }
+      for (let e = 0; e < elements; e++) {
+        const xElem = elementPositionMeters(e, cfg.array);
+        const rRx = Math.sqrt((xElem - xCenter) * (xElem - xCenter) + z * z);
+        const tauRx = rRx / c; // seconds (receive)
+        // Round-trip time = transmit (common) + receive (per element)
+        const phase = omega * (t - (tauTx + tauRx)) + phase0;
+        const gain = Math.pow(10, (-dbPerMeter * (rTx + rRx)) / 20);
+        matrix[s][e] = amplitude * field.amplitude * gain * Math.cos(phase);
       }
-
-      return matrix;
     }
+
+    return matrix;
+  };
+
+  return {
+    generateScanline: (scanlineIndex: number, cfg: DynamicBeamformingConfig): SampleMatrix =>
+      generate(transmitEventForScanline(cfg, scanlineIndex), cfg, idealTransmitOrigin(cfg, scanlineIndex)),
+    generateTransmit: (event: TransmitEvent, cfg: DynamicBeamformingConfig): SampleMatrix => generate(event, cfg),
   };
 }
 
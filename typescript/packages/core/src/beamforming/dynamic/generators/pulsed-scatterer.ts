@@ -0,0 +1,99 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Static point-scatterer generator firing a broadband transmit pulse.
+ */
+
+import { DynamicBeamformingConfig, Point2D, ScanlineGenerator, SampleMatrix, TransmitEvent, elementPositionMeters } from "../types.js";
+import { PulseConfig, TransmitPulse, createPulse } from "../pulse.js";
+import { pathAttenuationDb } from "../medium.js";
+import { idealTransmitOrigin, transmitArrivalTime, transmitEventForScanline, transmitField } from "../transmit.js";
+import { Trajectory, trajectoryPosition } from "./trajectory.js";
+
+/** Point reflector in the imaging plane; (x, z) is its base position, where it sits at slow time 0 unless a sinusoidal trajectory's phase offsets it. */
+export interface Scatterer {
+  /** Lateral position (meters) */
+  x: number;
+  /** Depth (meters) */
+  z: number;
+  /** Reflection amplitude (default 1) */
+  amplitude?: number;
+  /** Lateral velocity (m/s, default 0) */
+  vx?: number;
+  /** Axial velocity, positive away from the array (m/s, default 0) */
+  vz?: number;
+  /** Further motion over slow time, applied after the vx/vz drift */
+  trajectory?: Trajectory;
+}
+
+/** Where a scatterer is at slow time t: drifted by vx/vz, then moved along its trajectory. */
+export function scattererAt(sc: Scatterer, t: number): Scatterer {
+  if (!sc.vx && !sc.vz && !sc.trajectory) return sc;
+  const drifted = { x: sc.x + (sc.vx ?? 0) * t, z: sc.z + (sc.vz ?? 0) * t };
+  return { ...sc, ...(sc.trajectory ? trajectoryPosition(sc.trajectory, drifted, t) : drifted) };
+}
+
+export interface PulsedScattererGeneratorConfig {
+  scatterers: Scatterer[];
+  /** Transmit pulse fired for every scanline */
+  pulse: PulseConfig;
+}
+
+/**
+ * Factory to create a pulsed scatterer generator.
+ * Every scatterer returns a delayed copy of the transmit pulse to each element, attenuated by
+ * `cfg.medium` at the pulse's centre frequency. When `cfg.transmit` is set, each echo is
+ * weighted and delayed by the scanline's transmit field (two-way beam); otherwise the transmit
+ * path is taken from the scanline's origin (see idealTransmitOrigin), so phased scanlines are
+ * identical for every scanlineIndex.
+ * `generateTransmit` fires any other event (plane or diverging wave) the same way.
+ * Moving scatterers are placed at `cfg.slowTime`; they stand still during a single record.
+ */
+export function createPulsedScattererGenerator(config: PulsedScattererGeneratorConfig): ScanlineGenerator {
+  const pulse = createPulse(config.pulse);
+  const generate = (event: TransmitEvent | null, cfg: DynamicBeamformingConfig, idealOrigin?: Point2D): SampleMatrix => {
+    const matrix = emptyMatrix(cfg);
+    const t = cfg.slowTime ?? 0;
+    for (const sc of config.scatterers) addEcho(matrix, cfg, pulse, scattererAt(sc, t), event, idealOrigin);
+    return matrix;
+  };
+  return {
+    generateScanline: (scanlineIndex: number, cfg: DynamicBeamformingConfig): SampleMatrix =>
+      generate(transmitEventForScanline(cfg, scanlineIndex), cfg, idealTransmitOrigin(cfg, scanlineIndex)),
+    generateTransmit: (event: TransmitEvent, cfg: DynamicBeamformingConfig): SampleMatrix => generate(event, cfg),
+  };
+}
+
+function emptyMatrix(cfg: DynamicBeamformingConfig): SampleMatrix {
+  const samples = cfg.scanning.samples;
+  const elements = cfg.array.elements;
+  const matrix: SampleMatrix = new Array(samples);
+  for (let s = 0; s < samples; s++) matrix[s] = new Array(elements).fill(0);
+  return matrix;
+}
+
+/** Accumulate one scatterer's echo into the channel matrix (only samples under the pulse). */
+function addEcho(matrix: SampleMatrix, cfg: DynamicBeamformingConfig, pulse: TransmitPulse, sc: Scatterer, event: TransmitEvent | null, idealOrigin?: Point2D): void {
+  const samples = cfg.scanning.samples;
+  const elements = cfg.array.elements;
+  const dt = cfg.timeStep; // seconds
+  const c = cfg.propagationSpeed; // m/s
+  const amplitude = sc.amplitude ?? 1;
+  if (amplitude === 0) return;
+
+  const field = transmitField(event, sc, cfg, pulse.centerFrequencyHz, idealOrigin);
+  if (field.amplitude < 1e-6) return;
+
+  // attenuation is linear in path length for a given point, so evaluate it per meter once
+  const dbPerMeter = cfg.medium ? pathAttenuationDb(cfg.medium, sc, 1, pulse.centerFrequencyHz) : 0;
+  const rTx = transmitArrivalTime(event, sc, c, idealOrigin) * c; // meters travelled by the transmit wavefront
+  for (let e = 0; e < elements; e++) {
+    const dx = elementPositionMeters(e, cfg.array) - sc.x;
+    const rRx = Math.sqrt(dx * dx + sc.z * sc.z);
+    const tau = field.delay + rRx / c; // round trip (seconds)
+    const a = amplitude * field.amplitude * Math.pow(10, (-dbPerMeter * (rTx + rRx)) / 20);
+    const s0 = Math.max(0, Math.ceil((tau - pulse.halfDuration) / dt));
+    const s1 = Math.min(samples - 1, Math.floor((tau + pulse.halfDuration) / dt));
+    for (let s = s0; s <= s1; s++) matrix[s][e] += a * pulse.at(s * dt - tau);
+  }
+}
@@ -0,0 +1,43 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Scatterer trajectories over slow time (constant velocity, sinusoidal and rotation) for cine sequences.
+ */
+
+import { Point2D } from "../types.js";
+
+/**
+ * Motion of a point over slow time t (seconds) about its base position. Constant and rotation
+ * motion start from the base position at t = 0; a sinusoid is already offset by
+ * amplitude · sin(phase) there.
+ * - "constant": drifts at (vx, vz) m/s; vz is positive away from the array
+ * - "sinusoidal": oscillates about its position by amplitude · sin(2π f t + phase), e.g. a
+ *   heartbeat or breathing motion
+ * - "rotation": turns about `center` at a constant angular speed, positive turning from +x to +z
+ */
+export type Trajectory =
+  | { type: "constant"; vx?: number; vz?: number }
+  | { type: "sinusoidal"; amplitude: Point2D; frequencyHz: number; phaseDeg?: number }
+  | { type: "rotation"; center: Point2D; angularVelocityDegPerS: number };
+
+/** Position at slow time t of a point with base position `p`. */
+export function trajectoryPosition(trajectory: Trajectory, p: Point2D, t: number): Point2D {
+  switch (trajectory.type) {
+    case "constant":
+      return { x: p.x + (trajectory.vx ?? 0) * t, z: p.z + (trajectory.vz ?? 0) * t };
+    case "sinusoidal": {
+      const phase = ((trajectory.phaseDeg ?? 0) * Math.PI) / 180;
+      const s = Math.sin(2 * Math.PI * trajectory.frequencyHz * t + phase);
+      return { x: p.x + trajectory.amplitude.x * s, z: p.z + trajectory.amplitude.z * s };
+    }
+    case "rotation": {
+      const a = (trajectory.angularVelocityDegPerS * t * Math.PI) / 180;
+      const dx = p.x - trajectory.center.x;
+      const dz = p.z - trajectory.center.z;
+      return {
+        x: trajectory.center.x + dx * Math.cos(a) - dz * Math.sin(a),
+        z: trajectory.center.z + dx * Math.sin(a) + dz * Math.cos(a),
+      };
+    }
+  }
+}
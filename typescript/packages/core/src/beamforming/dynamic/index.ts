@@ -1,9 +1,31 @@
 export * from "./types.js";
 export * from "./generators/point-source.js";
+export * from "./generators/pulsed-scatterer.js";
+export * from "./generators/phantom.js";
+export * from "./generators/trajectory.js";
+export * from "./pulse.js";
+export * from "./medium.js";
+export * from "./tgc.js";
+export * from "./transmit.js";
 export * from "./beamformers/sum.js";
 export * from "./beamformers/delay-sum.js";
 export * from "./beamformers/delay-sum-apod.js";
+export * from "./beamformers/minimum-variance.js";
+export * from "./beamformers/coherence.js";
+export * from "./beamformers/dmas.js";
 export * from "./runner.js";
+export * from "./cine.js";
+export * from "./compounding.js";
+export * from "./fmc.js";
+export * from "./baseband.js";
+export * from "./clutter.js";
+export * from "./doppler.js";
+export * from "./pw-doppler.js";
+export * from "./mmode.js";
+export * from "./scan-conversion.js";
+export * from "./pixel.js";
+export * from "./compare.js";
 export * from "./util.js";
 
 
+export * from "./generators/channel-data.js";
@@ -0,0 +1,51 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Frequency-dependent attenuation of the propagation medium.
+ */
+
+import { MediumConfig, Point2D } from "./types.js";
+
+/**
+ * Attenuation coefficient (dB/cm/MHz) at a depth (meters).
+ */
+export function attenuationCoefficientAt(medium: MediumConfig, depth: number): number {
+  let alpha = medium.attenuationDbPerCmMHz;
+  let start = -Infinity;
+  for (const layer of medium.layers ?? []) {
+    if (layer.startDepth <= depth && layer.startDepth >= start) {
+      alpha = layer.attenuationDbPerCmMHz;
+      start = layer.startDepth;
+    }
+  }
+  return alpha;
+}
+
+/**
+ * One-way attenuation (dB) along a straight path of `pathLength` meters from the array
+ * surface (z = 0) to `point`. Layers are horizontal, so the depth-integrated coefficient is
+ * scaled by pathLength / depth to account for oblique paths.
+ */
+export function pathAttenuationDb(medium: MediumConfig, point: Point2D, pathLength: number, frequencyHz: number): number {
+  const fMHz = frequencyHz / 1e6;
+  const z = Math.max(0, point.z);
+  if (z <= 1e-12) return attenuationCoefficientAt(medium, 0) * pathLength * 100 * fMHz;
+
+  // integrate alpha(z) over [0, z] piecewise across the layer boundaries
+  const bounds = [0, ...(medium.layers ?? []).map((l) => l.startDepth).filter((d) => d > 0 && d < z), z].sort((a, b) => a - b);
+  let dbPerMHz = 0;
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const dz = bounds[i + 1] - bounds[i];
+    dbPerMHz += attenuationCoefficientAt(medium, bounds[i]) * dz * 100; // dB/MHz (dz in cm)
+  }
+  return dbPerMHz * fMHz * (pathLength / z);
+}
+
+/**
+ * Linear amplitude factor for a one-way path (1 when no medium is configured).
+ * Uses a narrowband approximation at `frequencyHz`: the pulse is scaled, not reshaped.
+ */
+export function pathAttenuationGain(medium: MediumConfig | undefined, point: Point2D, pathLength: number, frequencyHz: number): number {
+  if (!medium) return 1;
+  return Math.pow(10, -pathAttenuationDb(medium, point, pathLength, frequencyHz) / 20);
+}
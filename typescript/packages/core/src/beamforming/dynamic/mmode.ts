@@ -0,0 +1,62 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: M-mode acquisition: one scanline fired repeatedly, giving a depth-versus-time image.
+ */
+
+import { DynamicBeamformer, DynamicBeamformingConfig, ScanlineGenerator } from "./types.js";
+import { sampleDepth, scanlineParam } from "./util.js";
+
+export interface MModeOptions {
+  /** Scanline fired on every pulse */
+  scanlineIndex: number;
+  /** Firings per second (default 1000) */
+  lineRateHz?: number;
+  /** Firings to acquire (default 256) */
+  lines?: number;
+  /** Slow time of the first firing (seconds) (default cfg.slowTime, or 0) */
+  startTime?: number;
+}
+
+export interface MModeResult {
+  /** Beamformed scanline of each firing, with shape [time][samples] */
+  lines: number[][];
+  /** Slow time of each firing (seconds) */
+  timesS: number[];
+  /** Depth of each sample (meters) */
+  depthsM: number[];
+  lineRateHz: number;
+  /** Parameter of the fired scanline (deg for phased, meters for linear) */
+  scanParam: number;
+}
+
+/**
+ * Fire one scanline `lines` times at the line rate (firing k at slow time startTime + k / rate)
+ * and beamform each record, so moving scatterers trace their depth over time. Fails when the
+ * rate is faster than the record depth allows.
+ */
+export function runMMode(
+  cfg: DynamicBeamformingConfig,
+  generator: ScanlineGenerator,
+  beamformer: DynamicBeamformer,
+  opts: MModeOptions
+): MModeResult {
+  const rate = opts.lineRateHz ?? 1000;
+  const count = Math.max(1, Math.round(opts.lines ?? 256));
+  const maxRate = 1 / (cfg.scanning.samples * cfg.timeStep);
+  if (!(rate > 0) || rate > maxRate) {
+    throw new Error(`Line rate ${rate} Hz must be positive and at most ${maxRate.toFixed(0)} Hz, the rate at which the record depth allows pulses`);
+  }
+  const index = opts.scanlineIndex;
+  if (index < 0 || index >= cfg.scanning.numScanLines) throw new Error(`Scanline ${index} is outside the scan (0..${cfg.scanning.numScanLines - 1})`);
+  const t0 = opts.startTime ?? cfg.slowTime ?? 0;
+  const lines: number[][] = new Array(count);
+  const timesS: number[] = new Array(count);
+  for (let k = 0; k < count; k++) {
+    timesS[k] = t0 + k / rate;
+    const shot = { ...cfg, slowTime: timesS[k] };
+    lines[k] = beamformer.beamform(generator.generateScanline(index, shot), index, shot);
+  }
+  const depthsM = Array.from({ length: cfg.scanning.samples }, (_, s) => sampleDepth(cfg, s));
+  return { lines, timesS, depthsM, lineRateHz: rate, scanParam: scanlineParam(cfg, index) };
+}
@@ -0,0 +1,89 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Pixel-wise delay-and-sum of per-transmit channel data, shared by the compounding and TFM runners.
+ */
+
+import { DynamicBeamformingConfig, Point2D, SampleMatrix, TransmitEvent, elementPositionMeters } from "./types.js";
+import { transmitArrivalTime } from "./transmit.js";
+import { sampleDepth, scanlinePoint } from "./util.js";
+import { FractionalDelayInterpolator, InterpolationMethod } from "../../signal/fractional-delay.js";
+import { makeWindow } from "../profile/windows.js";
+import { WindowType } from "../profile/types.js";
+
+/** Pixel grid with shape [columns][rows]; reconstructed images have the same shape. */
+export type PixelGrid = Point2D[][];
+
+export interface PixelApertureOptions {
+  /** Apodization across each pixel's aperture (default hamming) */
+  windowType?: WindowType;
+  /** Used when windowType == "chebyshev" */
+  chebyshevSidelobeDb?: number;
+  /**
+   * f-number: each pixel uses the elements within depth / fNumber of it, so the aperture grows
+   * with depth. 0 uses the whole array at every depth. (default 1.5)
+   */
+  fNumber?: number;
+  /** Fractional-delay interpolator used to read the channel data (default linear) */
+  interpolation?: InterpolationMethod;
+}
+
+/**
+ * The scanline geometry as a pixel grid: column i holds the points of scanline i at the depth
+ * of every sample, so a pixel-wise image has the same shape as a runFrame result.
+ */
+export function scanlinePixelGrid(cfg: DynamicBeamformingConfig): PixelGrid {
+  const { numScanLines, samples } = cfg.scanning;
+  return Array.from({ length: numScanLines }, (_, i) =>
+    Array.from({ length: samples }, (_, s) => scanlinePoint(cfg, i, sampleDepth(cfg, s))));
+}
+
+// Resolution of the window lookup table used for the depth-dependent aperture
+const WINDOW_TABLE_SIZE = 101;
+
+/**
+ * Factory for the per-element apodization of a pixel: the window spread over the elements within
+ * the f-number aperture centred under the pixel, 0 elsewhere (or over the whole array).
+ */
+export function createPixelApodization(cfg: DynamicBeamformingConfig, opts: PixelApertureOptions = {}): (point: Point2D) => number[] {
+  const elements = cfg.array.elements;
+  const fNumber = opts.fNumber ?? 1.5;
+  const xs = Array.from({ length: elements }, (_, e) => elementPositionMeters(e, cfg.array));
+  // whole-array window, or a finely sampled one indexed by position within the pixel's aperture
+  const table = makeWindow(opts.windowType ?? "hamming", fNumber > 0 ? WINDOW_TABLE_SIZE : elements, opts.chebyshevSidelobeDb ?? 30);
+  if (fNumber <= 0) return () => table;
+  return (point: Point2D): number[] => {
+    const width = point.z / fNumber; // aperture width (meters)
+    return xs.map((x) => {
+      const u = (x - point.x) / width + 0.5; // 0..1 across the aperture
+      return u >= 0 && u <= 1 ? table[Math.round(u * (WINDOW_TABLE_SIZE - 1))] : 0;
+    });
+  };
+}
+
+/**
+ * Delay-and-sum one transmit's channel data at `point`: each element is read at the transmit
+ * wavefront's arrival time plus the receive path back to it (read with `interpolator`), and
+ * weighted by `weights`.
+ */
+export function delayAndSumPixel(
+  channels: SampleMatrix,
+  event: TransmitEvent,
+  point: Point2D,
+  cfg: DynamicBeamformingConfig,
+  weights: number[],
+  interpolator: FractionalDelayInterpolator
+): number {
+  const dt = cfg.timeStep; // seconds
+  const c = cfg.propagationSpeed; // m/s
+  const tauTx = transmitArrivalTime(event, point, c); // seconds
+  let acc = 0;
+  for (let e = 0; e < weights.length; e++) {
+    const w = weights[e];
+    if (w === 0) continue;
+    const dx = elementPositionMeters(e, cfg.array) - point.x;
+    const tau = tauTx + Math.sqrt(dx * dx + point.z * point.z) / c;
+    acc += w * interpolator.sample(channels, e, tau / dt);
+  }
+  return acc;
+}
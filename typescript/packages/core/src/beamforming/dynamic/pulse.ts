@@ -0,0 +1,84 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Transmit pulse models (Gaussian-modulated sinusoid, tone burst, custom waveform).
+ */
+
+export type PulseShape = "gaussian" | "tone-burst" | "custom";
+
+export interface PulseConfig {
+  shape: PulseShape;
+  /** Centre (carrier) frequency in Hz */
+  centerFrequencyHz: number;
+  /**
+   * -6 dB fractional bandwidth (bandwidth / centre frequency). Sets the envelope width of the
+   * gaussian pulse (default 0.6), and the cycle count of a tone burst when `cycles` is omitted.
+   */
+  fractionalBandwidth?: number;
+  /** Number of carrier cycles in a tone burst (default 2) */
+  cycles?: number;
+  /** Samples of a user-supplied waveform (shape === "custom"), centred on its middle sample */
+  waveform?: number[];
+  /** Sample interval (seconds) of `waveform` */
+  waveformTimeStep?: number;
+}
+
+/** Transmit pulse evaluated in continuous time, centred on t = 0. */
+export interface TransmitPulse {
+  /** Pulse amplitude at time t (seconds) */
+  at(t: number): number;
+  /** The pulse is zero (or below -60 dB) for |t| > halfDuration (seconds) */
+  halfDuration: number;
+  centerFrequencyHz: number;
+}
+
+/** Factory to create a transmit pulse from its config. */
+export function createPulse(config: PulseConfig): TransmitPulse {
+  const f0 = config.centerFrequencyHz;
+  switch (config.shape) {
+    case "gaussian": {
+      // Same parameterisation as MATLAB's gauspuls: -6 dB bandwidth reference, -60 dB cut-off
+      const bw = config.fractionalBandwidth ?? 0.6;
+      const a = -Math.pow(Math.PI * f0 * bw, 2) / (4 * Math.log(Math.pow(10, -6 / 20)));
+      const halfDuration = Math.sqrt(-Math.log(Math.pow(10, -60 / 20)) / a);
+      return {
+        at: (t: number) => (Math.abs(t) > halfDuration ? 0 : Math.exp(-a * t * t) * Math.cos(2 * Math.PI * f0 * t)),
+        halfDuration,
+        centerFrequencyHz: f0,
+      };
+    }
+    case "tone-burst": {
+      // an N-cycle rectangular burst has a -6 dB bandwidth of about 1.21 / N
+      const fbw = config.fractionalBandwidth;
+      const cycles = config.cycles ?? (fbw ? Math.max(1, Math.round(1.21 / fbw)) : 2);
+      const halfDuration = cycles / (2 * f0);
+      return {
+        at: (t: number) => (Math.abs(t) > halfDuration ? 0 : Math.cos(2 * Math.PI * f0 * t)),
+        halfDuration,
+        centerFrequencyHz: f0,
+      };
+    }
+    case "custom": {
+      const w = config.waveform;
+      const step = config.waveformTimeStep;
+      if (!w || w.length === 0 || !step || step <= 0) {
+        throw new Error("Custom pulse requires a non-empty waveform and a positive waveformTimeStep.");
+      }
+      const mid = (w.length - 1) / 2;
+      return {
+        at: (t: number) => {
+          const idx = t / step + mid;
+          const i0 = Math.floor(idx);
+          if (i0 < 0 || i0 >= w.length) return 0;
+          const frac = idx - i0;
+          const next = i0 + 1 < w.length ? w[i0 + 1] : 0;
+          return w[i0] * (1 - frac) + next * frac;
+        },
+        halfDuration: (mid + 1) * step,
+        centerFrequencyHz: f0,
+      };
+    }
+    default:
+      throw new Error(`Unknown pulse shape: ${String((config as PulseConfig).shape)}`);
+  }
+}
@@ -0,0 +1,188 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Pulsed-wave Doppler: range-gated slow-time signal, short-time FFT spectrogram and directional audio.
+ */
+
+import { DynamicBeamformer, DynamicBeamformingConfig, ScanlineGenerator, elementPositionMeters } from "./types.js";
+import { dopplerNyquistVelocity } from "./doppler.js";
+import { ClutterFilter, ClutterFilterReport, applyClutterFilter } from "./clutter.js";
+import { IqSignal, demodulateIq, iqLowPass } from "../../signal/iq.js";
+import { fft, fftShift, fftShiftedFrequencies, nextPowerOfTwo } from "../../signal/fft.js";
+import { makeWindow } from "../profile/windows.js";
+import { WindowType } from "../profile/types.js";
+
+export interface PwDopplerOptions {
+  /** Transmit centre frequency f0 (Hz) */
+  carrierHz: number;
+  /** Scanline the sample gate sits on */
+  scanlineIndex: number;
+  /** Depth of the gate centre (meters) */
+  gateDepth: number;
+  /** Axial gate length (meters) (default 1 mm) */
+  gateLength?: number;
+  /** Pulse repetition frequency (Hz) (default 4000) */
+  prfHz?: number;
+  /** Pulses fired, i.e. slow-time samples (default 256) */
+  pulses?: number;
+  /** Clutter filter over the whole record (default: regression of order 0, i.e. mean removal) */
+  wallFilter?: ClutterFilter;
+  /** Spectrogram settings */
+  spectrogram?: SpectrogramOptions;
+}
+
+export interface SpectrogramOptions {
+  /** FFT length per column, a power of two (default 64) */
+  fftSize?: number;
+  /** Slow-time samples between columns (default fftSize / 4) */
+  hop?: number;
+  /** Window applied before each FFT (default hamming) */
+  windowType?: WindowType;
+}
+
+export interface DopplerSpectrogram {
+  /** Power in dB relative to the peak, shape [columns][fftSize]; bins run from -PRF/2 up to +PRF/2 */
+  powerDb: number[][];
+  /** Time of each column's centre (seconds) */
+  timesS: number[];
+  /** Doppler frequency of each bin (Hz) */
+  frequenciesHz: number[];
+}
+
+export interface PwDopplerResult {
+  /** Range-gated, clutter-filtered complex slow-time signal, one sample per pulse */
+  signal: IqSignal;
+  spectrogram: DopplerSpectrogram;
+  /** Axial velocity of each spectrogram bin (m/s), positive towards the array */
+  velocities: number[];
+  nyquistVelocity: number;
+  prfHz: number;
+  /** Response of the clutter filter, for plotting beside the spectrum */
+  clutter: ClutterFilterReport;
+}
+
+export interface GateSignal {
+  /** Range-gated, clutter-filtered complex slow-time signal, one sample per pulse */
+  signal: IqSignal;
+  clutter: ClutterFilterReport;
+}
+
+/**
+ * Fire one scanline `pulses` times at the PRF (pulse n at slow time n / PRF), beamform each
+ * firing, demodulate it, clutter filter each gate sample along slow time (an SVD filter uses
+ * the gate samples as its spatial dimension) and sum the IQ coherently over the gate. Only the
+ * record up to the gate (plus room for the receive delays and IQ filter) is simulated, since
+ * nothing deeper is used.
+ */
+export function acquireGateSignal(
+  cfg: DynamicBeamformingConfig,
+  generator: ScanlineGenerator,
+  beamformer: DynamicBeamformer,
+  opts: PwDopplerOptions
+): GateSignal {
+  const dt = cfg.timeStep;
+  const c = cfg.propagationSpeed;
+  const fs = 1 / dt;
+  const prf = opts.prfHz ?? 4000;
+  const pulses = Math.max(2, Math.round(opts.pulses ?? 256));
+  const metersPerSample = (c * dt) / 2;
+  const halfGate = (opts.gateLength ?? 1e-3) / 2;
+  const g0 = Math.max(0, Math.round((opts.gateDepth - halfGate) / metersPerSample));
+  const g1 = Math.min(cfg.scanning.samples - 1, Math.round((opts.gateDepth + halfGate) / metersPerSample));
+  if (g1 < g0) throw new Error(`Sample gate at ${opts.gateDepth} m is outside the record`);
+  const maxPrf = 1 / (cfg.scanning.samples * dt);
+  if (!(prf > 0) || prf > maxPrf) {
+    throw new Error(`PRF ${prf} Hz must be positive and at most ${maxPrf.toFixed(0)} Hz, the rate at which the record depth allows pulses`);
+  }
+  const index = opts.scanlineIndex;
+  if (index < 0 || index >= cfg.scanning.numScanLines) throw new Error(`Scanline ${index} is outside the scan (0..${cfg.scanning.numScanLines - 1})`);
+
+  const demod = { carrierHz: opts.carrierHz };
+  const lowPass = iqLowPass(fs, demod);
+  const aperture = Math.abs(elementPositionMeters(0, cfg.array)) * 2;
+  const margin = lowPass.length + Math.ceil(aperture / (c * dt));
+  const gated: DynamicBeamformingConfig = { ...cfg, scanning: { ...cfg.scanning, samples: Math.min(cfg.scanning.samples, g1 + margin + 1) } };
+
+  const ensemble: IqSignal[] = new Array(pulses);
+  for (let n = 0; n < pulses; n++) {
+    const shot = { ...gated, slowTime: (cfg.slowTime ?? 0) + n / prf };
+    const iq = demodulateIq(beamformer.beamform(generator.generateScanline(index, shot), index, shot), fs, demod, lowPass);
+    ensemble[n] = { i: iq.i.slice(g0, g1 + 1), q: iq.q.slice(g0, g1 + 1) };
+  }
+  const { filtered, ...clutter } = applyClutterFilter([ensemble], opts.wallFilter ?? { type: "regression", order: 0 }, prf);
+  return {
+    signal: {
+      i: filtered[0].map((z) => z.i.reduce((a, b) => a + b, 0)),
+      q: filtered[0].map((z) => z.q.reduce((a, b) => a + b, 0)),
+    },
+    clutter,
+  };
+}
+
+/**
+ * Short-time FFT of a complex slow-time signal. Each column windows `fftSize` samples, and columns
+ * step by `hop`; positive frequencies are flow towards the array.
+ */
+export function dopplerSpectrogram(signal: IqSignal, prfHz: number, opts: SpectrogramOptions = {}): DopplerSpectrogram {
+  const n = opts.fftSize ?? 64;
+  const hop = Math.max(1, Math.round(opts.hop ?? n / 4));
+  const w = makeWindow(opts.windowType ?? "hamming", n);
+  const columns: number[][] = [];
+  const timesS: number[] = [];
+  let peak = 0;
+  for (let start = 0; start + n <= signal.i.length; start += hop) {
+    const re = w.map((wk, k) => wk * signal.i[start + k]);
+    const im = w.map((wk, k) => wk * signal.q[start + k]);
+    fft(re, im);
+    const p = fftShift(re.map((r, k) => r * r + im[k] * im[k]));
+    for (const v of p) if (v > peak) peak = v;
+    columns.push(p);
+    timesS.push((start + n / 2) / prfHz);
+  }
+  const floor = 1e-12;
+  const powerDb = columns.map((p) => p.map((v) => 10 * Math.log10(Math.max(floor, peak > 0 ? v / peak : 0))));
+  return { powerDb, timesS, frequenciesHz: fftShiftedFrequencies(n, prfHz) };
+}
+
+/**
+ * Directional Doppler audio: the slow-time signal split into flow towards the array (positive
+ * frequencies) and away from it (negative frequencies), as two real channels normalized together
+ * to a peak of 1. Played back at the PRF.
+ */
+export function dopplerAudio(signal: IqSignal): { towards: number[]; away: number[] } {
+  const len = signal.i.length;
+  const m = nextPowerOfTwo(len);
+  const spectrum = (keepPositive: boolean): number[] => {
+    const re = new Array(m).fill(0);
+    const im = new Array(m).fill(0);
+    for (let k = 0; k < len; k++) { re[k] = signal.i[k]; im[k] = signal.q[k]; }
+    fft(re, im);
+    for (let k = 1; k < m; k++) {
+      const positive = k < m / 2;
+      if (positive !== keepPositive) { re[k] = 0; im[k] = 0; }
+    }
+    re[0] /= 2; im[0] /= 2; // DC is shared between the two directions
+    fft(re, im, true);
+    return re.slice(0, len);
+  };
+  const towards = spectrum(true);
+  const away = spectrum(false);
+  let peak = 0;
+  for (let k = 0; k < len; k++) peak = Math.max(peak, Math.abs(towards[k]), Math.abs(away[k]));
+  const scale = peak > 0 ? 1 / peak : 1;
+  return { towards: towards.map((v) => v * scale), away: away.map((v) => v * scale) };
+}
+
+/** Pulsed-wave Doppler at a sample gate: slow-time signal plus its spectrogram and velocity axis. */
+export function runPwDoppler(
+  cfg: DynamicBeamformingConfig,
+  generator: ScanlineGenerator,
+  beamformer: DynamicBeamformer,
+  opts: PwDopplerOptions
+): PwDopplerResult {
+  const prf = opts.prfHz ?? 4000;
+  const { signal, clutter } = acquireGateSignal(cfg, generator, beamformer, opts);
+  const spectrogram = dopplerSpectrogram(signal, prf, opts.spectrogram);
+  const velocities = spectrogram.frequenciesHz.map((f) => (f * cfg.propagationSpeed) / (2 * opts.carrierHz));
+  return { signal, spectrogram, velocities, nyquistVelocity: dopplerNyquistVelocity(cfg.propagationSpeed, prf, opts.carrierHz), prfHz: prf, clutter };
+}
@@ -2,12 +2,15 @@
 
 import { DynamicBeamformingConfig, ScanlineGenerator, DynamicBeamformer, ScanlineVector } from "./types.js";
 import { scanlineParam } from "./util.js";
+import { CoherenceBeamformer } from "./beamformers/coherence.js";
 
 export interface FrameResult {
   /** Matrix with shape [numScanLines][samples] */
   beamformed: number[][];
   /** Per-scanline parameter value (deg for phased, meters for linear) */
   scanParams: number[];
+  /** Transmit events fired to acquire the frame (default numScanLines) */
+  transmits?: number;
 }
 
 export function runFrame(
@@ -24,7 +27,40 @@ export function runFrame(
     const bf: ScanlineVector = beamformer.beamform(raw, i, cfg);
     out[i] = bf;
   }
-  return { beamformed: out, scanParams: params };
+  return { beamformed: out, scanParams: params, transmits: L };
+}
+
+export interface CoherenceFrameResult extends FrameResult {
+  /** Coherence map with shape [numScanLines][samples], values 0..1 */
+  coherence: number[][];
+}
+
+/** runFrame for a coherence-weighted beamformer, also returning its coherence map for overlay. */
+export function runCoherenceFrame(
+  cfg: DynamicBeamformingConfig,
+  generator: ScanlineGenerator,
+  beamformer: CoherenceBeamformer
+): CoherenceFrameResult {
+  const L = cfg.scanning.numScanLines;
+  const out: number[][] = new Array(L);
+  const coherence: number[][] = new Array(L);
+  const params: number[] = new Array(L);
+  for (let i = 0; i < L; i++) {
+    params[i] = scanlineParam(cfg, i);
+    const res = beamformer.beamformWithCoherence(generator.generateScanline(i, cfg), i, cfg);
+    out[i] = res.beamformed;
+    coherence[i] = res.coherence;
+  }
+  return { beamformed: out, scanParams: params, transmits: L, coherence };
+}
+
+/**
+ * Highest frame rate (Hz) the acquisition allows: every transmit must wait for the echoes of
+ * the full record (samples · timeStep) before the next one fires.
+ */
+export function frameRateHz(cfg: DynamicBeamformingConfig, result: FrameResult): number {
+  const transmits = result.transmits ?? cfg.scanning.numScanLines;
+  return 1 / (transmits * cfg.scanning.samples * cfg.timeStep);
 }
 
 
@@ -0,0 +1,143 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Scan conversion of scanline frames (phased sectors or linear rectangles) onto a Cartesian pixel grid.
+ */
+
+import { DynamicBeamformingConfig, PhantomRegion } from "./types.js";
+import { FrameResult } from "./runner.js";
+import { phantomRegionForConfig } from "./util.js";
+
+/**
+ * Interpolation between neighbouring scanlines and samples.
+ * - "nearest": closest scanline and sample
+ * - "bilinear": linear in both the scanline and the sample direction
+ * - "bicubic": Catmull-Rom cubic in both directions (4×4 neighbours)
+ */
+export type ScanConversionInterpolation = "nearest" | "bilinear" | "bicubic";
+
+export interface ScanConversionOptions {
+  /** Output columns (default 512) */
+  width?: number;
+  /** Output rows (default: as many as give square pixels over the region) */
+  height?: number;
+  /** Area covered by the grid (meters) (default: phantomRegionForConfig, the scanned area's bounding box) */
+  region?: PhantomRegion;
+  /** default bilinear */
+  interpolation?: ScanConversionInterpolation;
+}
+
+export interface ScanConvertedImage {
+  /** Values with shape [rows][columns]; row 0 is the shallowest and NaN marks pixels outside the scan */
+  pixels: number[][];
+  /** Lateral position of each column centre (meters) */
+  xM: number[];
+  /** Depth of each row centre (meters) */
+  zM: number[];
+}
+
+export interface ScanConverter {
+  xM: number[];
+  zM: number[];
+  /** Resample a [scanline][sample] frame (e.g. beamformed lines, an envelope or an overlay map) onto the grid. */
+  convert(frame: number[][], interpolation?: ScanConversionInterpolation): ScanConvertedImage;
+}
+
+/**
+ * Factory for a scan converter over a fixed grid. Each pixel's position is mapped back once to a
+ * fraction along the scan range (the angle from the array centre for phased scans, the lateral
+ * position for linear ones) and a depth; `convert` then reads any frame there, so frames of the
+ * same geometry (an image and its overlays) share the work.
+ */
+export function createScanConverter(cfg: DynamicBeamformingConfig, opts: ScanConversionOptions = {}): ScanConverter {
+  const region = opts.region ?? phantomRegionForConfig(cfg);
+  const spanX = region.xMax - region.xMin;
+  const spanZ = region.zMax - region.zMin;
+  const width = Math.max(1, Math.round(opts.width ?? 512));
+  const height = Math.max(1, Math.round(opts.height ?? (spanX > 0 ? (width * spanZ) / spanX : width)));
+  const xM = Array.from({ length: width }, (_, i) => region.xMin + ((i + 0.5) * spanX) / width);
+  const zM = Array.from({ length: height }, (_, j) => region.zMin + ((j + 0.5) * spanZ) / height);
+  const [r0, r1] = cfg.scanning.range;
+  const phased = cfg.scanning.type === "phased";
+
+  // per pixel: fraction along the scan range (NaN outside it) and depth along the scanline
+  const fraction = new Float64Array(width * height);
+  const depth = new Float64Array(width * height);
+  for (let j = 0; j < height; j++) {
+    for (let i = 0; i < width; i++) {
+      const x = xM[i], z = zM[j];
+      const k = j * width + i;
+      const param = phased ? (Math.atan2(x, z) * 180) / Math.PI : x;
+      const t = r1 !== r0 ? (param - r0) / (r1 - r0) : param === r0 ? 0 : NaN;
+      fraction[k] = z >= 0 && t >= 0 && t <= 1 ? t : NaN;
+      depth[k] = phased ? Math.hypot(x, z) : z;
+    }
+  }
+
+  const metersPerSample = (cfg.timeStep * cfg.propagationSpeed) / 2;
+  const convert = (frame: number[][], interpolation: ScanConversionInterpolation = opts.interpolation ?? "bilinear"): ScanConvertedImage => {
+    const lines = frame.length;
+    const samples = lines > 0 ? frame[0].length : 0;
+    const read = READERS[interpolation];
+    const pixels: number[][] = new Array(height);
+    for (let j = 0; j < height; j++) {
+      const row: number[] = new Array(width);
+      for (let i = 0; i < width; i++) {
+        const k = j * width + i;
+        const l = fraction[k] * (lines - 1);
+        const s = depth[k] / metersPerSample;
+        row[i] = lines > 0 && !Number.isNaN(l) && s <= samples - 1 ? read(frame, l, s) : NaN;
+      }
+      pixels[j] = row;
+    }
+    return { pixels, xM, zM };
+  };
+  return { xM, zM, convert };
+}
+
+/** Scan convert a frame's beamformed lines in one go. */
+export function scanConvert(result: FrameResult, cfg: DynamicBeamformingConfig, opts: ScanConversionOptions = {}): ScanConvertedImage {
+  return createScanConverter(cfg, opts).convert(result.beamformed);
+}
+
+type FrameReader = (frame: number[][], line: number, sample: number) => number;
+
+/** Value at integer indices, clamped to the frame's edges. */
+function at(frame: number[][], line: number, sample: number): number {
+  const l = Math.min(frame.length - 1, Math.max(0, line));
+  const row = frame[l];
+  return row[Math.min(row.length - 1, Math.max(0, sample))];
+}
+
+/** Catmull-Rom weights for the four neighbours at offsets -1, 0, 1, 2 of a fractional position u. */
+function catmullRom(u: number): [number, number, number, number] {
+  const u2 = u * u, u3 = u2 * u;
+  return [
+    0.5 * (-u3 + 2 * u2 - u),
+    0.5 * (3 * u3 - 5 * u2 + 2),
+    0.5 * (-3 * u3 + 4 * u2 + u),
+    0.5 * (u3 - u2),
+  ];
+}
+
+const READERS: Record<ScanConversionInterpolation, FrameReader> = {
+  nearest: (frame, line, sample) => at(frame, Math.round(line), Math.round(sample)),
+  bilinear: (frame, line, sample) => {
+    const l0 = Math.floor(line), s0 = Math.floor(sample);
+    const a = line - l0, b = sample - s0;
+    const top = at(frame, l0, s0) * (1 - a) + at(frame, l0 + 1, s0) * a;
+    const bottom = at(frame, l0, s0 + 1) * (1 - a) + at(frame, l0 + 1, s0 + 1) * a;
+    return top * (1 - b) + bottom * b;
+  },
+  bicubic: (frame, line, sample) => {
+    const l0 = Math.floor(line), s0 = Math.floor(sample);
+    const wl = catmullRom(line - l0), ws = catmullRom(sample - s0);
+    let acc = 0;
+    for (let m = 0; m < 4; m++) {
+      let col = 0;
+      for (let n = 0; n < 4; n++) col += ws[n] * at(frame, l0 + m - 1, s0 + n - 1);
+      acc += wl[m] * col;
+    }
+    return acc;
+  },
+};
@@ -0,0 +1,60 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Time-gain compensation: a depth-gain curve applied to beamformed scanlines.
+ */
+
+import { DynamicBeamformingConfig, MediumConfig } from "./types.js";
+import { pathAttenuationDb } from "./medium.js";
+import { sampleDepth } from "./util.js";
+
+export interface TgcPoint {
+  /** Depth (meters) */
+  depth: number;
+  /** Gain (dB) at this depth */
+  gainDb: number;
+}
+
+/** Depth-gain control points; sorted by depth when evaluated. */
+export type TgcCurve = TgcPoint[];
+
+/** Gain (dB) at a depth, linearly interpolated and held flat beyond the end points. */
+export function tgcGainDb(curve: TgcCurve, depth: number): number {
+  if (curve.length === 0) return 0;
+  const pts = curve.slice().sort((a, b) => a.depth - b.depth);
+  if (depth <= pts[0].depth) return pts[0].gainDb;
+  for (let i = 0; i < pts.length - 1; i++) {
+    const a = pts[i], b = pts[i + 1];
+    if (depth <= b.depth) {
+      const t = b.depth > a.depth ? (depth - a.depth) / (b.depth - a.depth) : 1;
+      return a.gainDb + t * (b.gainDb - a.gainDb);
+    }
+  }
+  return pts[pts.length - 1].gainDb;
+}
+
+/** Curve from gains (dB) at evenly spaced depths spanning the record (first at 0, last at max depth). */
+export function tgcCurveFromGains(gainsDb: number[], cfg: DynamicBeamformingConfig): TgcCurve {
+  const maxDepth = sampleDepth(cfg, cfg.scanning.samples - 1);
+  const n = gainsDb.length;
+  return gainsDb.map((gainDb, i) => ({ depth: n > 1 ? (i / (n - 1)) * maxDepth : 0, gainDb }));
+}
+
+/** Curve that undoes the medium's round-trip attenuation straight down at `frequencyHz`. */
+export function tgcCurveForMedium(medium: MediumConfig, frequencyHz: number, cfg: DynamicBeamformingConfig, points = 8): TgcCurve {
+  const maxDepth = sampleDepth(cfg, cfg.scanning.samples - 1);
+  const curve: TgcCurve = [];
+  for (let i = 0; i < points; i++) {
+    const depth = points > 1 ? (i / (points - 1)) * maxDepth : 0;
+    curve.push({ depth, gainDb: 2 * pathAttenuationDb(medium, { x: 0, z: depth }, depth, frequencyHz) });
+  }
+  return curve;
+}
+
+/** Apply a TGC curve to a frame with shape [scanlines][samples]; returns a new matrix. */
+export function applyTgc(frame: number[][], curve: TgcCurve, cfg: DynamicBeamformingConfig): number[][] {
+  const samples = frame[0]?.length ?? 0;
+  const gains: number[] = new Array(samples);
+  for (let s = 0; s < samples; s++) gains[s] = Math.pow(10, tgcGainDb(curve, sampleDepth(cfg, s)) / 20);
+  return frame.map((line) => line.map((v, s) => v * gains[s]));
+}
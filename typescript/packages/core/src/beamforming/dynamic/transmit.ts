@@ -0,0 +1,164 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Transmit events (per-scanline, plane and diverging waves, single elements) and the transmit field they produce.
+ */
+
+import { DynamicBeamformingConfig, Point2D, TransmitEvent, elementPositionMeters } from "./types.js";
+import { centredAperture, scanlineParam } from "./util.js";
+import { makeWindow } from "../profile/windows.js";
+import { WindowType } from "../profile/types.js";
+
+/** Narrowband transmit field at a point: pressure amplitude and effective arrival time. */
+export interface TransmitField {
+  /** Amplitude relative to a coherent sum of the aperture (1 at an ideal focus) */
+  amplitude: number;
+  /** Arrival time of the transmitted wave (seconds) */
+  delay: number;
+}
+
+/** Transmit event for a scanline, or null when `cfg.transmit` is not configured. */
+export function transmitEventForScanline(cfg: DynamicBeamformingConfig, scanlineIndex: number): TransmitEvent | null {
+  const tx = cfg.transmit;
+  if (!tx) return null;
+  const n = cfg.array.elements;
+  const c = cfg.propagationSpeed;
+  const param = scanlineParam(cfg, scanlineIndex);
+  const isPhased = cfg.scanning.type === "phased";
+
+  const steeringRad = isPhased ? (param * Math.PI) / 180 : 0;
+  const origin: Point2D = { x: isPhased ? 0 : param, z: 0 };
+  const focus: Point2D | null = tx.focusDepth
+    ? { x: origin.x + tx.focusDepth * Math.sin(steeringRad), z: tx.focusDepth * Math.cos(steeringRad) }
+    : null;
+
+  const size = tx.aperture ?? (isPhased ? n : cfg.array.activeElements ?? n / 2);
+  const active = centredAperture(cfg, origin.x, size);
+  const window = makeWindow(tx.windowType ?? "rectangular", active.length, tx.chebyshevSidelobeDb ?? 30);
+
+  const weights: number[] = new Array(n).fill(0);
+  const delays: number[] = new Array(n).fill(0);
+  const rFocus = focus ? Math.hypot(focus.x - origin.x, focus.z) : 0;
+  active.forEach((e, k) => {
+    const x = elementPositionMeters(e, cfg.array);
+    weights[e] = window[k];
+    // focused: fire so every wavelet reaches the focus when the origin's would;
+    // unfocused: linear steering delay across the aperture
+    delays[e] = focus
+      ? (rFocus - Math.hypot(focus.x - x, focus.z)) / c
+      : ((x - origin.x) * Math.sin(steeringRad)) / c;
+  });
+  return { weights, delays, origin, steeringRad, wavefront: "scanline", focus };
+}
+
+/**
+ * Where a scanline's ideal transmit (no `cfg.transmit`) leaves the array: the array centre for
+ * phased scans, the scanline's lateral position for linear ones, as the beamformers assume.
+ */
+export function idealTransmitOrigin(cfg: DynamicBeamformingConfig, scanlineIndex: number): Point2D {
+  return { x: cfg.scanning.type === "linear" ? scanlineParam(cfg, scanlineIndex) : 0, z: 0 };
+}
+
+/** Apodization applied across the whole array for plane and diverging waves. */
+export interface WaveTransmitOptions {
+  /** Transmit window across the array (default rectangular) */
+  windowType?: WindowType;
+  /** Used when windowType == "chebyshev" */
+  chebyshevSidelobeDb?: number;
+}
+
+/** Plane wave fired from the whole array, steered by `angleDeg` from the array normal. */
+export function planeWaveEvent(cfg: DynamicBeamformingConfig, angleDeg: number, opts: WaveTransmitOptions = {}): TransmitEvent {
+  const c = cfg.propagationSpeed;
+  const steeringRad = (angleDeg * Math.PI) / 180;
+  const weights = makeWindow(opts.windowType ?? "rectangular", cfg.array.elements, opts.chebyshevSidelobeDb ?? 30);
+  const delays = weights.map((_, e) => (elementPositionMeters(e, cfg.array) * Math.sin(steeringRad)) / c);
+  return { weights, delays, origin: { x: 0, z: 0 }, steeringRad, wavefront: "plane", focus: null };
+}
+
+/**
+ * Diverging wave fired from the whole array, as if emitted by a virtual point source
+ * `sourceDistance` meters behind the array centre along the steering direction.
+ */
+export function divergingWaveEvent(
+  cfg: DynamicBeamformingConfig,
+  angleDeg: number,
+  sourceDistance: number,
+  opts: WaveTransmitOptions = {}
+): TransmitEvent {
+  const c = cfg.propagationSpeed;
+  const steeringRad = (angleDeg * Math.PI) / 180;
+  const virtualSource: Point2D = { x: -sourceDistance * Math.sin(steeringRad), z: -sourceDistance * Math.cos(steeringRad) };
+  const weights = makeWindow(opts.windowType ?? "rectangular", cfg.array.elements, opts.chebyshevSidelobeDb ?? 30);
+  const delays = weights.map((_, e) => {
+    const dx = elementPositionMeters(e, cfg.array) - virtualSource.x;
+    return (Math.sqrt(dx * dx + virtualSource.z * virtualSource.z) - sourceDistance) / c;
+  });
+  return { weights, delays, origin: { x: 0, z: 0 }, steeringRad, wavefront: "diverging", focus: null, virtualSource };
+}
+
+/** Element `elementIndex` firing alone, as in a synthetic transmit aperture / full-matrix capture. */
+export function singleElementEvent(cfg: DynamicBeamformingConfig, elementIndex: number): TransmitEvent {
+  const n = cfg.array.elements;
+  const weights: number[] = new Array(n).fill(0);
+  weights[elementIndex] = 1;
+  const origin: Point2D = { x: elementPositionMeters(elementIndex, cfg.array), z: 0 };
+  return { weights, delays: new Array(n).fill(0), origin, steeringRad: 0, wavefront: "element", focus: null };
+}
+
+/**
+ * Nominal arrival time (seconds) of the transmitted wavefront at `point`. With no event this is
+ * the ideal transmit from `idealOrigin` (default the array centre), |point - idealOrigin| / c.
+ */
+export function transmitArrivalTime(event: TransmitEvent | null, point: Point2D, c: number, idealOrigin: Point2D = { x: 0, z: 0 }): number {
+  if (!event) return Math.hypot(point.x - idealOrigin.x, point.z - idealOrigin.z) / c;
+  const dx = point.x - event.origin.x;
+  const dz = point.z - event.origin.z;
+  switch (event.wavefront) {
+    case "plane":
+      return (dx * Math.sin(event.steeringRad) + dz * Math.cos(event.steeringRad)) / c;
+    case "diverging": {
+      const v = event.virtualSource ?? event.origin;
+      const r0 = Math.hypot(event.origin.x - v.x, event.origin.z - v.z);
+      return (Math.hypot(point.x - v.x, point.z - v.z) - r0) / c;
+    }
+    case "scanline":
+    case "element":
+    default:
+      return Math.hypot(dx, dz) / c;
+  }
+}
+
+/**
+ * Transmit field at `point` for a carrier at `frequencyHz`: the phasor sum of every element's
+ * delayed wavelet, relative to the nominal arrival of the event's wavefront. The phase of the sum is
+ * folded back into the arrival time, so a pulse can be delayed and scaled to model it.
+ * With no event, returns the ideal transmit from `idealOrigin` (amplitude 1, |point - idealOrigin| / c).
+ */
+export function transmitField(
+  event: TransmitEvent | null,
+  point: Point2D,
+  cfg: DynamicBeamformingConfig,
+  frequencyHz: number,
+  idealOrigin: Point2D = { x: 0, z: 0 }
+): TransmitField {
+  const c = cfg.propagationSpeed;
+  if (!event) return { amplitude: 1, delay: transmitArrivalTime(null, point, c, idealOrigin) };
+
+  const omega = 2 * Math.PI * frequencyHz;
+  const tauRef = transmitArrivalTime(event, point, c);
+  let re = 0, im = 0, wSum = 0;
+  for (let e = 0; e < event.weights.length; e++) {
+    const w = event.weights[e];
+    if (w === 0) continue;
+    const dx = point.x - elementPositionMeters(e, cfg.array);
+    const phi = -omega * (event.delays[e] + Math.sqrt(dx * dx + point.z * point.z) / c - tauRef);
+    re += w * Math.cos(phi);
+    im += w * Math.sin(phi);
+    wSum += Math.abs(w);
+  }
+  if (wSum === 0) return { amplitude: 0, delay: tauRef };
+  const amplitude = Math.hypot(re, im) / wSum;
+  const delay = omega > 0 ? tauRef - Math.atan2(im, re) / omega : tauRef;
+  return { amplitude, delay };
+}
@@ -3,6 +3,8 @@
  * Purpose: Strict types and interfaces for dynamic beamforming (simulation loop).
  */
 
+import { WindowType } from "../profile/types.js";
+
 export type ScanType = "linear" | "phased";
 
 export interface ScanningConfig {
@@ -25,6 +27,39 @@ export interface ArrayConfig {
   elements: number;
   /** Center-to-center element spacing (meters) */
   elementSpacing: number;
+  /**
+   * Size of the sliding receive sub-aperture used for linear scanning (elements).
+   * Defaults to half the array. Ignored for phased scanning, which always uses the full array.
+   */
+  activeElements?: number;
+}
+
+export interface AttenuationLayer {
+  /** Depth (meters) where the layer starts; it extends to the next layer's start */
+  startDepth: number;
+  /** Attenuation coefficient (dB/cm/MHz) */
+  attenuationDbPerCmMHz: number;
+}
+
+export interface MediumConfig {
+  /** Attenuation coefficient (dB/cm/MHz) of the medium, or of the region above the first layer */
+  attenuationDbPerCmMHz: number;
+  /** Optional depth-dependent layers, e.g. fat over muscle */
+  layers?: AttenuationLayer[];
+}
+
+export interface TransmitConfig {
+  /** Focal depth along each scanline (meters). Omit or 0 for an unfocused, steered transmit. */
+  focusDepth?: number;
+  /**
+   * Active transmit aperture (elements) centred on the scanline origin. Defaults to the
+   * whole array for phased scans and to `array.activeElements` for linear scans.
+   */
+  aperture?: number;
+  /** Transmit apodization across the active aperture (default rectangular) */
+  windowType?: WindowType;
+  /** Used when windowType == "chebyshev" */
+  chebyshevSidelobeDb?: number;
 }
 
 export interface DynamicBeamformingConfig {
@@ -36,6 +71,66 @@ export interface DynamicBeamformingConfig {
   scanning: ScanningConfig;
   /** Array geometry configuration */
   array: ArrayConfig;
+  /** Propagation medium; no attenuation when omitted */
+  medium?: MediumConfig;
+  /**
+   * Per-scanline transmit events. When omitted, generators model an ideal transmit that
+   * insonifies every point equally from the scanline's origin (the array centre for phased scans,
+   * the scanline's lateral position for linear ones).
+   */
+  transmit?: TransmitConfig;
+  /**
+   * Slow time (seconds) at which this acquisition fires, e.g. the pulse's place in a Doppler
+   * ensemble. Generators with moving targets move them to where they are at this time (default 0).
+   */
+  slowTime?: number;
+}
+
+/**
+ * Receive focusing strategy for the delay-based beamformers.
+ * - "fixed": far-field steering delay (x·sinθ/c), constant over depth
+ * - "dynamic": per-sample delays recomputed from the round-trip geometry to each depth on the scanline
+ */
+export type ReceiveFocusing = "fixed" | "dynamic";
+
+/** Point in the imaging plane (meters). x is lateral along the array, z is depth away from it. */
+export interface Point2D {
+  x: number;
+  z: number;
+}
+
+/** Axis-aligned rectangle in the imaging plane (meters). */
+export interface PhantomRegion {
+  xMin: number;
+  xMax: number;
+  zMin: number;
+  zMax: number;
+}
+
+/**
+ * Shape of a transmitted wavefront; it sets the nominal arrival time at each point.
+ * - "scanline": line-by-line transmit along one scanline, focused or not; |p - origin| / c
+ * - "plane": steered plane wave across the array; (p - origin)·(sinθ, cosθ) / c
+ * - "diverging": circular wave from a virtual source behind the array; (|p - v| - |origin - v|) / c
+ * - "element": a single element firing alone (synthetic aperture); |p - origin| / c
+ */
+export type TransmitWavefront = "scanline" | "plane" | "diverging" | "element";
+
+/** One firing of the array: per-element weights and delays plus the wavefront they launch. */
+export interface TransmitEvent {
+  /** Per-element transmit weight (length = elements); 0 outside the active aperture */
+  weights: number[];
+  /** Per-element firing time (seconds, length = elements) */
+  delays: number[];
+  /** Where the wave leaves the array; the wave passes it at t = 0 */
+  origin: Point2D;
+  /** Steering angle (radians) */
+  steeringRad: number;
+  wavefront: TransmitWavefront;
+  /** Focal point of a focused scanline transmit, otherwise null */
+  focus: Point2D | null;
+  /** Virtual point source of a diverging wave (z < 0) */
+  virtualSource?: Point2D;
 }
 
 /** Matrix with shape [samples][elements] */
@@ -52,6 +147,11 @@ export type ScanlineVector = number[];
  */
 export interface ScanlineGenerator {
   generateScanline(scanlineIndex: number, cfg: DynamicBeamformingConfig): SampleMatrix;
+  /**
+   * Optional: raw per-element samples for an arbitrary transmit event (plane or diverging
+   * waves, single-element firings). Required by the compounding runner.
+   */
+  generateTransmit?(event: TransmitEvent, cfg: DynamicBeamformingConfig): SampleMatrix;
 }
 
 /**
@@ -1,4 +1,4 @@
-import { DynamicBeamformingConfig } from "./types.js";
+import { DynamicBeamformingConfig, PhantomRegion, Point2D } from "./types.js";
 
 export function scanlineParam(cfg: DynamicBeamformingConfig, scanlineIndex: number): number {
   const { numScanLines, range } = cfg.scanning;
@@ -8,4 +8,63 @@ export function scanlineParam(cfg: DynamicBeamformingConfig, scanlineIndex: numb
   return minVal + t * (maxVal - minVal);
 }
 
+/** Depth (meters) reached by a round-trip echo at the given sample index. */
+export function sampleDepth(cfg: DynamicBeamformingConfig, sampleIndex: number): number {
+  return (sampleIndex * cfg.timeStep * cfg.propagationSpeed) / 2;
+}
+
+/** Bounding box of the area imaged by a config (full record depth). */
+export function phantomRegionForConfig(cfg: DynamicBeamformingConfig): PhantomRegion {
+  const depth = sampleDepth(cfg, cfg.scanning.samples);
+  const [r0, r1] = cfg.scanning.range;
+  if (cfg.scanning.type === "phased") {
+    const maxSin = Math.max(Math.abs(Math.sin((r0 * Math.PI) / 180)), Math.abs(Math.sin((r1 * Math.PI) / 180)));
+    return { xMin: -depth * maxSin, xMax: depth * maxSin, zMin: 0, zMax: depth };
+  }
+  return { xMin: Math.min(r0, r1), xMax: Math.max(r0, r1), zMin: 0, zMax: depth };
+}
+
+/**
+ * Position of the point at `depth` (meters) along a scanline.
+ * - phased: ray from the array centre at the scanline angle
+ * - linear: vertical line at the scanline's lateral position
+ */
+export function scanlinePoint(cfg: DynamicBeamformingConfig, scanlineIndex: number, depth: number): Point2D {
+  const param = scanlineParam(cfg, scanlineIndex);
+  if (cfg.scanning.type === "phased") {
+    const theta = (param * Math.PI) / 180;
+    return { x: depth * Math.sin(theta), z: depth * Math.cos(theta) };
+  }
+  return { x: param, z: depth };
+}
+
+/**
+ * Indices of the elements forming the receive aperture of a scanline.
+ * - phased: the whole array
+ * - linear: `array.activeElements` contiguous elements centred on the scanline's lateral
+ *   position; elements that would fall past either end of the array are dropped
+ */
+export function receiveAperture(cfg: DynamicBeamformingConfig, scanlineIndex: number): number[] {
+  const n = cfg.array.elements;
+  if (cfg.scanning.type === "phased") return Array.from({ length: n }, (_, i) => i);
+  const active = cfg.array.activeElements;
+  if (active !== undefined && !(Number.isInteger(active) && active >= 1 && active <= n)) {
+    throw new Error(`Active aperture ${active} must be a whole number of elements between 1 and ${n}`);
+  }
+  return centredAperture(cfg, scanlineParam(cfg, scanlineIndex), active ?? n / 2);
+}
 
+/**
+ * `size` contiguous element indices centred on lateral position `x` (meters), dropping any
+ * that fall past either end of the array.
+ */
+export function centredAperture(cfg: DynamicBeamformingConfig, x: number, size: number): number[] {
+  const n = cfg.array.elements;
+  const active = Math.max(1, Math.min(n, Math.round(size)));
+  // fractional element index under x
+  const center = x / cfg.array.elementSpacing + (n - 1) / 2;
+  const start = Math.round(center - (active - 1) / 2);
+  const indices: number[] = [];
+  for (let i = start; i < start + active; i++) if (i >= 0 && i < n) indices.push(i);
+  return indices;
+}
@@ -0,0 +1,69 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Colour maps turning 0..1 gray levels into 8-bit RGB for display and export.
+ */
+
+export type ColorMapName = "grayscale" | "sepia" | "hot" | "turbo" | "viridis";
+
+export const COLOR_MAP_NAMES: ColorMapName[] = ["grayscale", "sepia", "hot", "turbo", "viridis"];
+
+/** 8-bit red, green, blue */
+export type Rgb = [number, number, number];
+
+type ColorFunction = (t: number) => [number, number, number];
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// matplotlib viridis sampled every 1/8
+const VIRIDIS_ANCHORS: [number, number, number][] = [
+  [68, 1, 84],
+  [71, 44, 122],
+  [59, 81, 139],
+  [44, 113, 142],
+  [33, 144, 141],
+  [39, 173, 129],
+  [92, 200, 99],
+  [170, 220, 50],
+  [253, 231, 37],
+];
+
+/** Colour of each map at t in 0..1, as fractions of full scale. */
+const COLOR_FUNCTIONS: Record<ColorMapName, ColorFunction> = {
+  grayscale: (t) => [t, t, t],
+  // warm brown tone, as on older scanners' photo printers
+  sepia: (t) => [clamp01(1.1 * t), 0.9 * t, 0.7 * t],
+  // black → red → yellow → white
+  hot: (t) => [clamp01(3 * t), clamp01(3 * t - 1), clamp01(3 * t - 2)],
+  // polynomial fit of Google's Turbo (Mikhailov, 2019)
+  turbo: (t) => [
+    0.13572138 + t * (4.6153926 + t * (-42.66032258 + t * (132.13108234 + t * (-152.94239396 + t * 59.28637943)))),
+    0.09140261 + t * (2.19418839 + t * (4.84296658 + t * (-14.18503333 + t * (4.27729857 + t * 2.82956604)))),
+    0.1066733 + t * (12.64194608 + t * (-60.58204836 + t * (110.36276771 + t * (-89.90310912 + t * 27.34824973)))),
+  ],
+  viridis: (t) => {
+    const x = t * (VIRIDIS_ANCHORS.length - 1);
+    const k = Math.min(VIRIDIS_ANCHORS.length - 2, Math.floor(x));
+    const a = x - k;
+    const lo = VIRIDIS_ANCHORS[k], hi = VIRIDIS_ANCHORS[k + 1];
+    return [0, 1, 2].map((c) => (lo[c] + (hi[c] - lo[c]) * a) / 255) as [number, number, number];
+  },
+};
+
+/** Colour of `name` at level t (clamped to 0..1; NaN reads as 0). */
+export function colorMapRgb(name: ColorMapName, t: number): Rgb {
+  const fn = COLOR_FUNCTIONS[name];
+  if (!fn) throw new Error(`Unknown colour map "${name}" (expected ${COLOR_MAP_NAMES.join(", ")})`);
+  const [r, g, b] = fn(Number.isNaN(t) ? 0 : clamp01(t));
+  return [Math.round(255 * clamp01(r)), Math.round(255 * clamp01(g)), Math.round(255 * clamp01(b))];
+}
+
+/**
+ * Factory for a colour lookup: the map is sampled at `size` evenly spaced levels once, and the
+ * returned function picks the nearest entry, which is what per-pixel drawing wants.
+ */
+export function createColorMap(name: ColorMapName, size = 256): (t: number) => Rgb {
+  const n = Math.max(2, Math.round(size));
+  const table = Array.from({ length: n }, (_, k) => colorMapRgb(name, k / (n - 1)));
+  return (t: number) => table[Number.isNaN(t) ? 0 : Math.round(clamp01(t) * (n - 1))];
+}
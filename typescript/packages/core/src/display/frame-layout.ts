@@ -0,0 +1,141 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Layout of an annotated frame (sector or rectangle, ticks, dB bar, stats) shared by renderFrame and the web viewer.
+ */
+
+import { DynamicBeamformingConfig, PhantomRegion } from "../beamforming/dynamic/types.js";
+
+/** Placement of the dB colour bar (image pixels) */
+export interface BarRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Tick at an image position (x or y in pixels) with its label */
+export interface Tick {
+  position: number;
+  label: string;
+}
+
+/**
+ * Where a frame goes in a `width` x `height` image (image pixels, `pixelRatio` per display pixel).
+ * - "phased": a sector with its apex at (cx, cy) and the record depth at radius R, filling the image
+ * - "linear": a rectangle at (x0, y0) of rw x rh pixels at 1:1 aspect (`scale` pixels per meter),
+ *   leaving room for the axis labels and the dB bar
+ */
+export type FrameLayout = (
+  | { type: "phased"; cx: number; cy: number; R: number; minAngleDeg: number; maxAngleDeg: number }
+  | { type: "linear"; x0: number; y0: number; rw: number; rh: number; scale: number; minX: number; maxX: number }
+) & {
+  width: number;
+  height: number;
+  pixelRatio: number;
+  /** Record depth (meters) */
+  maxDepth: number;
+  /** Scan-conversion target of the image: position, size and physical region */
+  image: { x: number; y: number; width: number; height: number; region: PhantomRegion };
+  bar: BarRect;
+};
+
+/** Lay out a frame of `samples` per scanline the way the dynamic page's viewer draws it. */
+export function frameLayout(cfg: DynamicBeamformingConfig, samples: number, width: number, height: number, pixelRatio: number): FrameLayout {
+  const pr = pixelRatio;
+  const maxDepth = (samples * cfg.timeStep * cfg.propagationSpeed) / 2;
+  const barW = Math.round(width * 0.04);
+  if (cfg.scanning.type === "phased") {
+    const cx = width / 2, cy = Math.max(4 * pr, Math.round(height * 0.08));
+    const R = Math.min(cx, height - cy) * 0.92;
+    // one grid point per image pixel, with the array centre at (cx, cy)
+    const mPerPx = maxDepth / R;
+    const [minAngleDeg, maxAngleDeg] = cfg.scanning.range;
+    return {
+      type: "phased", cx, cy, R, minAngleDeg, maxAngleDeg, width, height, pixelRatio, maxDepth,
+      image: { x: 0, y: 0, width, height, region: { xMin: -cx * mPerPx, xMax: (width - cx) * mPerPx, zMin: -cy * mPerPx, zMax: (height - cy) * mPerPx } },
+      bar: { x: Math.min(Math.round(cx + R + 8 * pr), width - barW - 60 * pr), y: Math.round(cy + R * 0.05), w: barW, h: Math.round(R * 0.9) },
+    };
+  }
+  const [minX, maxX] = cfg.scanning.range;
+  const span = Math.abs(maxX - minX) || 1e-3;
+  // fit the rectangle with a 1:1 aspect ratio between the axis labels and the dB bar
+  const left = 150 * pr, right = 110 * pr, top = 28 * pr, bottom = 10 * pr;
+  const scale = Math.min((width - left - right) / span, (height - top - bottom) / maxDepth); // px per meter
+  const rw = Math.max(1, Math.round(span * scale)), rh = Math.max(1, Math.round(maxDepth * scale));
+  const x0 = Math.round(left + (width - left - right - rw) / 2), y0 = top;
+  return {
+    type: "linear", x0, y0, rw, rh, scale, minX, maxX, width, height, pixelRatio, maxDepth,
+    image: { x: x0, y: y0, width: rw, height: rh, region: { xMin: Math.min(minX, maxX), xMax: Math.max(minX, maxX), zMin: 0, zMax: maxDepth } },
+    bar: { x: Math.min(x0 + rw + 24 * pr, width - barW - 60 * pr), y: y0 + Math.round(rh * 0.05), w: barW, h: Math.round(Math.min(rh, height - top - bottom) * 0.9) },
+  };
+}
+
+/** Millimetre ticks of a linear layout: depth down the left edge, lateral position along the top. */
+export function linearAxisTicks(layout: Extract<FrameLayout, { type: "linear" }>): { depth: Tick[]; lateral: Tick[] } {
+  const depthMm = layout.maxDepth * 1000;
+  const depthStep = niceStep(depthMm, 6);
+  const depth: Tick[] = [];
+  for (let mm = 0; mm <= depthMm + 1e-9; mm += depthStep) depth.push({ position: layout.y0 + (mm / 1000) * layout.scale, label: `${+mm.toFixed(1)}` });
+  const lo = Math.min(layout.minX, layout.maxX) * 1000, hi = Math.max(layout.minX, layout.maxX) * 1000;
+  const latStep = niceStep(Math.abs(layout.maxX - layout.minX) * 1000 || 1, 6);
+  const lateral: Tick[] = [];
+  for (let mm = Math.ceil(lo / latStep) * latStep; mm <= hi + 1e-9; mm += latStep) lateral.push({ position: layout.x0 + ((mm - lo) / 1000) * layout.scale, label: `${+mm.toFixed(1)}` });
+  return { depth, lateral };
+}
+
+/** Points along a phased layout's outer arc, from the first scan angle to the last; the edges join its ends to (cx, cy). */
+export function sectorArc(layout: Extract<FrameLayout, { type: "phased" }>, steps = 120): { x: number; y: number }[] {
+  const { cx, cy, R } = layout;
+  const start = (layout.minAngleDeg * Math.PI) / 180, end = (layout.maxAngleDeg * Math.PI) / 180;
+  return Array.from({ length: steps + 1 }, (_, k) => {
+    const a = start + ((end - start) * k) / steps;
+    return { x: cx + R * Math.sin(a), y: cy + R * Math.cos(a) };
+  });
+}
+
+/** Record-depth label of a phased layout, right-aligned beside the arc three quarters across. */
+export function sectorDepthLabel(layout: Extract<FrameLayout, { type: "phased" }>): { text: string; x: number; y: number } {
+  const { cx, cy, R, pixelRatio: pr } = layout;
+  const midA = ((layout.minAngleDeg + ((layout.maxAngleDeg - layout.minAngleDeg) * 3) / 4) * Math.PI) / 180;
+  return {
+    text: `${Math.round(layout.maxDepth * 100).toString().padStart(3, " ")} cm`,
+    x: cx + R * Math.sin(midA) * 1.08 + 18 * pr,
+    y: cy + R * Math.cos(midA) * 0.98 + 18 * pr,
+  };
+}
+
+/**
+ * dB bar ticks: levels are relative to the frame's peak, so with gain the bar spans -gain dB at
+ * the top down to -gain - dynamic range at the bottom. Positions are bar rows.
+ */
+export function dbBarTicks(bar: BarRect, dynamicRangeDb = 60, gainDb = 0): Tick[] {
+  const topDb = -gainDb, bottomDb = -gainDb - dynamicRangeDb;
+  const step = niceStep(dynamicRangeDb, 4);
+  const ticks: Tick[] = [];
+  for (let tdb = Math.floor(topDb / step) * step; tdb >= bottomDb - 1e-9; tdb -= step) {
+    ticks.push({ position: bar.y + Math.round(((topDb - tdb) / dynamicRangeDb) * (bar.h - 1)), label: `${+tdb.toFixed(1)} dB` });
+  }
+  return ticks;
+}
+
+/** Config stats shown along the top-left of a frame, one line each. */
+export function frameStats(cfg: DynamicBeamformingConfig, samples: number, scanlines: number): string[] {
+  const [r0, r1] = cfg.scanning.range;
+  return [
+    `type: ${cfg.scanning.type}`,
+    cfg.scanning.type === "linear" ? `range: ${+(r0 * 1000).toFixed(2)} → ${+(r1 * 1000).toFixed(2)} mm` : `range: ${r0}° → ${r1}°`,
+    `dt: ${cfg.timeStep}`,
+    `samples: ${samples}`,
+    `scanlines: ${scanlines}`,
+  ];
+}
+
+/** Round a span / count to a 1-2-5 tick step. */
+export function niceStep(span: number, count: number): number {
+  const raw = span / Math.max(1, count);
+  if (!(raw > 0)) return 1;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const n = raw / mag;
+  return (n <= 1 ? 1 : n <= 2 ? 2 : n <= 5 ? 5 : 10) * mag;
+}
@@ -0,0 +1,95 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Render a frame to RGBA the way the web viewer draws it: scan converted, log compressed and annotated.
+ */
+
+import { DynamicBeamformingConfig } from "../beamforming/dynamic/types.js";
+import { ScanConversionInterpolation, createScanConverter } from "../beamforming/dynamic/scan-conversion.js";
+import { ColorMapName, Rgb, createColorMap } from "./colormaps.js";
+import { DisplayOptions, applyGrayMap, createGrayLevelMap, peakAmplitude } from "./pipeline.js";
+import { dbBarTicks, frameLayout, frameStats, linearAxisTicks, sectorArc, sectorDepthLabel } from "./frame-layout.js";
+import { RgbaImage, createRgbaImage, drawLine, drawText, fillRect, putImage, strokeRect } from "./raster.js";
+
+export interface FrameRenderOptions {
+  /** Image width in display pixels (default 700) */
+  width?: number;
+  /** Image height in display pixels (default 300) */
+  height?: number;
+  /** Output pixels per display pixel; lines and text scale with it (default 2, as the viewer renders) */
+  pixelRatio?: number;
+  /** Log compression and gray map; lines are compressed as they are, so pass envelopes (default 60 dB, 0 dB, linear) */
+  display?: Omit<DisplayOptions, "envelope">;
+  /** default turbo, as the viewer */
+  colorMap?: ColorMapName;
+  /** default bilinear */
+  interpolation?: ScanConversionInterpolation;
+  /** Draw the scan outline, depth / lateral ticks, dB bar and config stats (default true) */
+  annotations?: boolean;
+}
+
+const WHITE: Rgb = [255, 255, 255];
+// pixels outside the scanned area
+const BACKGROUND: Rgb = [8, 8, 8];
+
+/**
+ * Render a [scanline][sample] frame as the dynamic page's viewer does: a phased sector with its
+ * apex near the top (depth label on the arc) or a linear rectangle at 1:1 aspect with millimetre
+ * ticks, log compressed against the frame's peak, coloured, with a dB bar and config stats.
+ */
+export function renderFrame(frame: number[][], cfg: DynamicBeamformingConfig, opts: FrameRenderOptions = {}): RgbaImage {
+  if (frame.length === 0) throw new Error("Cannot render an empty frame");
+  const pr = Math.max(1, Math.round(opts.pixelRatio ?? 2));
+  const iw = Math.round((opts.width ?? 700) * pr), ih = Math.round((opts.height ?? 300) * pr);
+  const display = opts.display ?? {};
+  const level = createGrayLevelMap(display.reference ?? peakAmplitude(frame), display);
+  const color = createColorMap(opts.colorMap ?? "turbo");
+  const annotate = opts.annotations ?? true;
+  const samples = frame[0].length;
+  const layout = frameLayout(cfg, samples, iw, ih, pr);
+  const img = createRgbaImage(iw, ih, BACKGROUND);
+
+  const { x, y, width, height, region } = layout.image;
+  const { pixels } = createScanConverter(cfg, { width, height, region, interpolation: opts.interpolation }).convert(frame);
+  const tile = createRgbaImage(width, height, BACKGROUND);
+  for (let j = 0; j < tile.height; j++) {
+    for (let i = 0; i < tile.width; i++) {
+      const t = level(pixels[j][i]);
+      if (!Number.isNaN(t)) fillRect(tile, i, j, 1, 1, color(t));
+    }
+  }
+  putImage(img, tile, x, y);
+  if (!annotate) return img;
+
+  if (layout.type === "phased") {
+    const arc = sectorArc(layout);
+    for (let k = 0; k + 1 < arc.length; k++) drawLine(img, arc[k].x, arc[k].y, arc[k + 1].x, arc[k + 1].y, WHITE, 1.5 * pr);
+    for (const p of [arc[0], arc[arc.length - 1]]) drawLine(img, p.x, p.y, layout.cx, layout.cy, WHITE, 1.5 * pr);
+    const label = sectorDepthLabel(layout);
+    drawText(img, label.text, label.x, label.y, WHITE, pr, "right");
+  } else {
+    const { x0, y0 } = layout;
+    strokeRect(img, x0, y0, layout.rw, layout.rh, WHITE, 1.5 * pr);
+    const ticks = linearAxisTicks(layout);
+    for (const t of ticks.depth) {
+      drawLine(img, x0 - 6 * pr, t.position, x0, t.position, WHITE, pr);
+      drawText(img, t.label, x0 - 8 * pr, t.position + 4 * pr, WHITE, pr, "right");
+    }
+    for (const t of ticks.lateral) {
+      drawLine(img, t.position, y0 - 6 * pr, t.position, y0, WHITE, pr);
+      drawText(img, t.label, t.position, y0 - 9 * pr, WHITE, pr, "center");
+    }
+    drawText(img, "mm", x0 - 8 * pr, y0 - 9 * pr, WHITE, pr, "right");
+  }
+
+  // dB bar with ticks, then the config stats
+  const { bar } = layout;
+  for (let by = 0; by < bar.h; by++) fillRect(img, bar.x, bar.y + by, bar.w, 1, color(applyGrayMap(1 - by / Math.max(1, bar.h - 1), display.grayMap)));
+  strokeRect(img, bar.x - 1, bar.y - 1, bar.w + 1, bar.h + 1, WHITE, pr);
+  for (const t of dbBarTicks(bar, display.dynamicRangeDb, display.gainDb)) {
+    drawLine(img, bar.x - 6 * pr, t.position, bar.x, t.position, WHITE, pr);
+    drawText(img, t.label, Math.min(iw - 8 * pr, bar.x + bar.w + 12 * pr), t.position + 4 * pr, WHITE, pr);
+  }
+  frameStats(cfg, samples, frame.length).forEach((text, n) => drawText(img, text, 8 * pr, (12 + 16 * n) * pr, WHITE, pr));
+  return img;
+}
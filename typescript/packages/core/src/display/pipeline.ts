@@ -0,0 +1,119 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Display processing of echo amplitudes: envelope, log compression with gain and dynamic range, gray maps.
+ */
+
+import { envelope } from "../signal/hilbert.js";
+import { ColorMapName, Rgb, createColorMap } from "./colormaps.js";
+
+/**
+ * Shaping of the compressed 0..1 level before colouring.
+ * - "linear": unchanged
+ * - "gamma": t^gamma; below 1 lifts weak echoes, above 1 darkens them
+ * - "s-curve": logistic around `midpoint` (default 0.5) with slope `contrast` (default 8),
+ *   rescaled so 0 and 1 stay put; stretches mid-gray contrast at the cost of both ends
+ */
+export type GrayMap =
+  | { type: "linear" }
+  | { type: "gamma"; gamma: number }
+  | { type: "s-curve"; contrast?: number; midpoint?: number };
+
+export interface LogCompressionOptions {
+  /** Span of echo levels mapped onto black..white (dB) (default 60) */
+  dynamicRangeDb?: number;
+  /** Added to every level before mapping; positive brightens (dB) (default 0) */
+  gainDb?: number;
+  /** Amplitude at 0 dB (default: the peak of the data being displayed) */
+  reference?: number;
+}
+
+export interface DisplayOptions extends LogCompressionOptions {
+  /** Take the Hilbert envelope of each line first; turn off for lines that already are envelopes (default true) */
+  envelope?: boolean;
+  /** default linear */
+  grayMap?: GrayMap;
+}
+
+/** Largest absolute value in a [line][sample] (or [row][column]) array, skipping NaN. */
+export function peakAmplitude(data: number[][]): number {
+  let peak = 0;
+  for (const row of data) for (const v of row) { const a = Math.abs(v); if (a > peak) peak = a; }
+  return peak;
+}
+
+/**
+ * Log compression of one amplitude: 20·log10(|a| / reference) + gain, with the top `dynamicRangeDb`
+ * dB mapped linearly onto 0..1 and clamped. Zero amplitude (or reference) maps to 0; NaN stays NaN.
+ */
+export function logCompress(amplitude: number, reference: number, opts: LogCompressionOptions = {}): number {
+  const range = opts.dynamicRangeDb ?? 60;
+  if (!(range > 0)) throw new Error(`Dynamic range must be positive, got ${range} dB`);
+  const a = Math.abs(amplitude);
+  if (Number.isNaN(a)) return NaN;
+  if (!(a > 0) || !(reference > 0)) return 0;
+  const db = 20 * Math.log10(a / reference) + (opts.gainDb ?? 0);
+  return Math.min(1, Math.max(0, 1 + db / range));
+}
+
+/** Apply a gray map to a level in 0..1. */
+export function applyGrayMap(t: number, map: GrayMap = { type: "linear" }): number {
+  switch (map.type) {
+    case "linear":
+      return t;
+    case "gamma":
+      if (!(map.gamma > 0)) throw new Error(`Gamma must be positive, got ${map.gamma}`);
+      return Math.pow(t, map.gamma);
+    case "s-curve": {
+      const k = map.contrast ?? 8;
+      const m = map.midpoint ?? 0.5;
+      const sigmoid = (x: number) => 1 / (1 + Math.exp(-k * (x - m)));
+      const lo = sigmoid(0), hi = sigmoid(1);
+      return hi > lo ? (sigmoid(t) - lo) / (hi - lo) : t;
+    }
+  }
+}
+
+/**
+ * Factory for the amplitude → gray level mapping (log compression then gray map) against a fixed
+ * reference, so pixels of scan-converted images, M-mode traces and colour bars can be mapped one
+ * at a time with the same settings.
+ */
+export function createGrayLevelMap(reference: number, opts: DisplayOptions = {}): (amplitude: number) => number {
+  const map = opts.grayMap ?? { type: "linear" };
+  logCompress(1, 1, opts); // validates the dynamic range up front
+  applyGrayMap(0.5, map);
+  return (amplitude: number) => applyGrayMap(logCompress(amplitude, reference, opts), map);
+}
+
+/**
+ * Full display pipeline over a [line][sample] frame of RF (or envelope) lines: envelope detection,
+ * log compression against the frame's peak (or `opts.reference`) and the gray map. Returns gray
+ * levels in 0..1 with the frame's shape.
+ */
+export function displayFrame(frame: number[][], opts: DisplayOptions = {}): number[][] {
+  const env = (opts.envelope ?? true) ? frame.map((line) => envelope(line)) : frame;
+  const level = createGrayLevelMap(opts.reference ?? peakAmplitude(env), opts);
+  return env.map((line) => line.map(level));
+}
+
+/**
+ * Colour a [row][column] array of gray levels into 8-bit RGBA, row-major from the top-left
+ * (the layout of canvas ImageData and PNG scanlines). NaN pixels, e.g. outside a sector, get
+ * `background`.
+ */
+export function renderRgba(levels: number[][], colorMap: ColorMapName = "grayscale", background: Rgb = [0, 0, 0]): Uint8ClampedArray {
+  const rows = levels.length;
+  const cols = rows > 0 ? levels[0].length : 0;
+  const color = createColorMap(colorMap);
+  const out = new Uint8ClampedArray(rows * cols * 4);
+  let ptr = 0;
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      const t = levels[j][i];
+      const c = Number.isNaN(t) ? background : color(t);
+      out[ptr++] = c[0]; out[ptr++] = c[1]; out[ptr++] = c[2]; out[ptr++] = 255;
+    }
+  }
+  return out;
+}
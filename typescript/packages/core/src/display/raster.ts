@@ -0,0 +1,93 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: RGBA raster with the few drawing primitives image annotations need: rectangles, lines and bitmap text.
+ */
+
+import { Rgb } from "./colormaps.js";
+import { GLYPH_ADVANCE, GLYPH_HEIGHT, glyphRows } from "./bitmap-font.js";
+
+/** Row-major 8-bit RGBA pixels, the layout of canvas ImageData. */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export function createRgbaImage(width: number, height: number, background: Rgb = [0, 0, 0]): RgbaImage {
+  const w = Math.max(1, Math.round(width)), h = Math.max(1, Math.round(height));
+  const img = { width: w, height: h, data: new Uint8ClampedArray(w * h * 4) };
+  fillRect(img, 0, 0, w, h, background);
+  return img;
+}
+
+/** Opaque pixel; coordinates are rounded and anything outside the image is dropped. */
+export function setPixel(img: RgbaImage, x: number, y: number, color: Rgb): void {
+  const i = Math.round(x), j = Math.round(y);
+  if (i < 0 || j < 0 || i >= img.width || j >= img.height) return;
+  const k = (j * img.width + i) * 4;
+  img.data[k] = color[0]; img.data[k + 1] = color[1]; img.data[k + 2] = color[2]; img.data[k + 3] = 255;
+}
+
+export function fillRect(img: RgbaImage, x: number, y: number, w: number, h: number, color: Rgb): void {
+  const x0 = Math.max(0, Math.round(x)), y0 = Math.max(0, Math.round(y));
+  const x1 = Math.min(img.width, Math.round(x + w)), y1 = Math.min(img.height, Math.round(y + h));
+  for (let j = y0; j < y1; j++) for (let i = x0; i < x1; i++) setPixel(img, i, j, color);
+}
+
+/** Copy `src` into `img` with its top-left corner at (x, y). */
+export function putImage(img: RgbaImage, src: RgbaImage, x: number, y: number): void {
+  const x0 = Math.round(x), y0 = Math.round(y);
+  for (let j = 0; j < src.height; j++) {
+    const ty = y0 + j;
+    if (ty < 0 || ty >= img.height) continue;
+    for (let i = 0; i < src.width; i++) {
+      const tx = x0 + i;
+      if (tx < 0 || tx >= img.width) continue;
+      const s = (j * src.width + i) * 4, t = (ty * img.width + tx) * 4;
+      img.data[t] = src.data[s]; img.data[t + 1] = src.data[s + 1]; img.data[t + 2] = src.data[s + 2]; img.data[t + 3] = src.data[s + 3];
+    }
+  }
+}
+
+/** Straight line drawn with a square pen `width` pixels wide. */
+export function drawLine(img: RgbaImage, x0: number, y0: number, x1: number, y1: number, color: Rgb, width = 1): void {
+  const steps = Math.max(1, Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))));
+  const pen = Math.max(1, Math.round(width));
+  const half = (pen - 1) / 2;
+  for (let k = 0; k <= steps; k++) {
+    const x = x0 + ((x1 - x0) * k) / steps, y = y0 + ((y1 - y0) * k) / steps;
+    fillRect(img, Math.round(x - half), Math.round(y - half), pen, pen, color);
+  }
+}
+
+export function strokeRect(img: RgbaImage, x: number, y: number, w: number, h: number, color: Rgb, width = 1): void {
+  drawLine(img, x, y, x + w, y, color, width);
+  drawLine(img, x + w, y, x + w, y + h, color, width);
+  drawLine(img, x + w, y + h, x, y + h, color, width);
+  drawLine(img, x, y + h, x, y, color, width);
+}
+
+/** Width in pixels of `text` in the bitmap font at integer `scale`. */
+export function textWidth(text: string, scale = 1): number {
+  return Math.max(0, [...text].length * GLYPH_ADVANCE - 1) * scale;
+}
+
+/**
+ * Bitmap text with its baseline at `y` (like canvas fillText), each font pixel drawn as a
+ * `scale`×`scale` block; `align` places `x` at the left edge, centre or right edge.
+ */
+export function drawText(img: RgbaImage, text: string, x: number, y: number, color: Rgb, scale = 1, align: "left" | "center" | "right" = "left"): void {
+  const s = Math.max(1, Math.round(scale));
+  const w = textWidth(text, s);
+  const left = Math.round(align === "left" ? x : align === "center" ? x - w / 2 : x - w);
+  const top = Math.round(y) - GLYPH_HEIGHT * s;
+  [...text].forEach((ch, n) => {
+    const rows = glyphRows(ch);
+    if (!rows) return;
+    const gx = left + n * GLYPH_ADVANCE * s;
+    rows.forEach((row, r) => {
+      for (let c = 0; c < row.length; c++) if (row[c] === "#") fillRect(img, gx + c * s, top + r * s, s, s, color);
+    });
+  });
+}
@@ -10,3 +10,19 @@ export * from "./beamforming/profile/csv.js";
 export * from "./beamforming/profile/pattern-stats.js";
 export * from "./beamforming/dynamic/index.js";
 export * from "./signal/hilbert.js";
+export * from "./signal/fft.js";
+export * from "./signal/fir.js";
+export * from "./signal/fractional-delay.js";
+export * from "./signal/iq.js";
+export * from "./io/wav.js";
+export * from "./display/pipeline.js";
+export * from "./display/colormaps.js";
+export * from "./display/raster.js";
+export * from "./display/frame-layout.js";
+export * from "./display/frame-render.js";
+export * from "./io/png.js";
+export * from "./io/apng.js";
+export * from "./io/dicom.js";
+export * from "./io/npy.js";
+export * from "./io/npz.js";
+export * from "./io/mat.js";
@@ -0,0 +1,65 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Animated PNG (APNG) encoder for cine loops, built on the PNG chunk writer.
+ */
+
+import { PNG_SIGNATURE, concatBytes, pngChunk, pngHeader, pngImageData } from "./png.js";
+
+export interface ApngOptions {
+  /** Display time of each frame (milliseconds) (default 100) */
+  delayMs?: number;
+  /** Times the animation plays; 0 loops forever (default 0) */
+  loops?: number;
+}
+
+/**
+ * Encode equal-sized RGBA frames as an APNG. The first frame is also the default image (IDAT), so
+ * viewers without APNG support show it as a still; each frame replaces the previous one whole.
+ */
+export function encodeApng(width: number, height: number, frames: (Uint8Array | Uint8ClampedArray)[], opts: ApngOptions = {}): Uint8Array {
+  if (frames.length === 0) throw new Error("APNG needs at least one frame");
+  const bytes = width * height * 4;
+  frames.forEach((f, k) => {
+    if (f.length !== bytes) throw new Error(`Frame ${k} holds ${f.length} bytes, expected ${bytes} for ${width}x${height} RGBA`);
+  });
+  const delayMs = Math.round(opts.delayMs ?? 100);
+  if (!(delayMs >= 0 && delayMs <= 65535)) throw new Error(`Frame delay ${opts.delayMs} ms must be between 0 and 65535`);
+  const loops = Math.max(0, Math.round(opts.loops ?? 0));
+
+  const acTL = new Uint8Array(8);
+  new DataView(acTL.buffer).setUint32(0, frames.length);
+  new DataView(acTL.buffer).setUint32(4, loops);
+
+  // fcTL and fdAT chunks share one sequence counter
+  let sequence = 0;
+  const frameControl = () => {
+    const data = new Uint8Array(26);
+    const view = new DataView(data.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    // x / y offsets stay 0: every frame covers the full image
+    view.setUint16(20, delayMs); // delay numerator
+    view.setUint16(22, 1000); // delay denominator: milliseconds
+    data[24] = 0; // dispose: none
+    data[25] = 0; // blend: source
+    return pngChunk("fcTL", data);
+  };
+
+  const parts = [PNG_SIGNATURE, pngChunk("IHDR", pngHeader(width, height)), pngChunk("acTL", acTL)];
+  frames.forEach((f, k) => {
+    parts.push(frameControl());
+    const compressed = pngImageData(width, height, f);
+    if (k === 0) {
+      parts.push(pngChunk("IDAT", compressed));
+      return;
+    }
+    const fdAT = new Uint8Array(4 + compressed.length);
+    new DataView(fdAT.buffer).setUint32(0, sequence++);
+    fdAT.set(compressed, 4);
+    parts.push(pngChunk("fdAT", fdAT));
+  });
+  parts.push(pngChunk("IEND", new Uint8Array(0)));
+  return concatBytes(parts);
+}
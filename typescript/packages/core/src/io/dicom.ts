@@ -0,0 +1,217 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: DICOM Part 10 writer for scan-converted frames as Ultrasound (Multi-frame) Image Storage.
+ */
+
+import { ScanConvertedImage } from "../beamforming/dynamic/scan-conversion.js";
+import { ColorMapName } from "../display/colormaps.js";
+import { renderRgba } from "../display/pipeline.js";
+import { concatBytes } from "./png.js";
+
+export const ULTRASOUND_IMAGE_STORAGE = "1.2.840.10008.5.1.4.1.1.6.1";
+export const ULTRASOUND_MULTIFRAME_IMAGE_STORAGE = "1.2.840.10008.5.1.4.1.1.3.1";
+const EXPLICIT_VR_LITTLE_ENDIAN = "1.2.840.10008.1.2.1";
+const IMPLEMENTATION_CLASS_UID = "2.25.310711413026783138830870386312239282339";
+const IMPLEMENTATION_VERSION = "ALOE_SIM_0_1";
+
+export interface DicomOptions {
+  /** default grayscale, written as MONOCHROME2; other maps are written as RGB */
+  colorMap?: ColorMapName;
+  /** Time between cine frames (milliseconds) (default 33.3, i.e. 30 Hz) */
+  frameTimeMs?: number;
+  /** Written to the ultrasound region when given (Hz) */
+  transducerFrequencyHz?: number;
+  /** default "SIMULATED^PHANTOM" */
+  patientName?: string;
+  /** default "SIM-" and digits of the study UID */
+  patientId?: string;
+  /** default "Simulated ultrasound" */
+  studyDescription?: string;
+  /** default "Simulated B-mode" */
+  seriesDescription?: string;
+  /** Reuse to put several exports in one study / series (default: new UIDs) */
+  studyInstanceUid?: string;
+  seriesInstanceUid?: string;
+  /** Study and content date / time (default now) */
+  date?: Date;
+}
+
+/** Fresh UID under the 2.25 (UUID-derived) root. */
+export function createDicomUid(): string {
+  const bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  let v = 0n;
+  for (const b of bytes) v = (v << 8n) | BigInt(b);
+  return `2.25.${v}`;
+}
+
+/**
+ * Encode scan-converted frames whose pixels are display gray levels (0..1, e.g. from
+ * `createGrayLevelMap`; NaN outside the scan is written black) as a DICOM file. One frame gives
+ * Ultrasound Image Storage, several a cine in Ultrasound Multi-frame Image Storage. Pixel Spacing
+ * and a Sequence of Ultrasound Regions entry (physical deltas in cm, reference pixel at the array
+ * centre) come from the images' grid, so distances measured in a DICOM viewer are physical.
+ */
+export function encodeUltrasoundDicom(frames: ScanConvertedImage[], opts: DicomOptions = {}): Uint8Array {
+  if (frames.length === 0) throw new Error("DICOM export needs at least one frame");
+  const rows = frames[0].zM.length, cols = frames[0].xM.length;
+  frames.forEach((f, k) => {
+    if (f.zM.length !== rows || f.xM.length !== cols) throw new Error(`Frame ${k} is ${f.xM.length}x${f.zM.length}, expected ${cols}x${rows}`);
+  });
+  if (rows > 65535 || cols > 65535) throw new Error(`Image ${cols}x${rows} exceeds the DICOM limit of 65535 rows / columns`);
+  const { xM, zM } = frames[0];
+  const dz = rows > 1 ? zM[1] - zM[0] : cols > 1 ? xM[1] - xM[0] : 1e-4;
+  const dx = cols > 1 ? xM[1] - xM[0] : dz;
+  const multiFrame = frames.length > 1;
+  const color = (opts.colorMap ?? "grayscale") !== "grayscale";
+  const frameTimeMs = opts.frameTimeMs ?? 1000 / 30;
+  const date = opts.date ?? new Date();
+  const sopClass = multiFrame ? ULTRASOUND_MULTIFRAME_IMAGE_STORAGE : ULTRASOUND_IMAGE_STORAGE;
+  const sopInstance = createDicomUid();
+  const studyUid = opts.studyInstanceUid ?? createDicomUid();
+  const seriesUid = opts.seriesInstanceUid ?? createDicomUid();
+  const da = `${date.getFullYear()}${pad2(date.getMonth() + 1)}${pad2(date.getDate())}`;
+  const tm = `${pad2(date.getHours())}${pad2(date.getMinutes())}${pad2(date.getSeconds())}`;
+
+  // pixel data: 8-bit gray, or interleaved RGB
+  const pixels = new Uint8Array(frames.length * rows * cols * (color ? 3 : 1));
+  let ptr = 0;
+  for (const f of frames) {
+    if (color) {
+      const rgba = renderRgba(f.pixels, opts.colorMap);
+      for (let k = 0; k < rgba.length; k += 4) { pixels[ptr++] = rgba[k]; pixels[ptr++] = rgba[k + 1]; pixels[ptr++] = rgba[k + 2]; }
+    } else {
+      for (const row of f.pixels) for (const t of row) pixels[ptr++] = Number.isNaN(t) ? 0 : Math.round(255 * Math.min(1, Math.max(0, t)));
+    }
+  }
+
+  const region = concatBytes([
+    element(0x00186012, "US", us(1)), // region spatial format: 2D
+    element(0x00186014, "US", us(1)), // region data type: tissue
+    element(0x00186016, "UL", ul(0)), // region flags
+    element(0x00186018, "UL", ul(0)),
+    element(0x0018601a, "UL", ul(0)),
+    element(0x0018601c, "UL", ul(cols - 1)),
+    element(0x0018601e, "UL", ul(rows - 1)),
+    // reference pixel: lateral 0 and depth 0, the array centre (may lie outside the image)
+    element(0x00186020, "SL", sl(Math.round(-xM[0] / dx))),
+    element(0x00186022, "SL", sl(Math.round(-zM[0] / dz))),
+    element(0x00186024, "US", us(3)), // physical units: cm
+    element(0x00186026, "US", us(3)),
+    element(0x00186028, "FD", fd(0)),
+    element(0x0018602a, "FD", fd(0)),
+    element(0x0018602c, "FD", fd(dx * 100)),
+    element(0x0018602e, "FD", fd(dz * 100)),
+    ...(opts.transducerFrequencyHz !== undefined ? [element(0x00186030, "UL", ul(Math.round(opts.transducerFrequencyHz / 1000)))] : []),
+  ]);
+
+  const dataset = [
+    element(0x00080008, "CS", text("DERIVED\\PRIMARY")),
+    element(0x00080016, "UI", uid(sopClass)),
+    element(0x00080018, "UI", uid(sopInstance)),
+    element(0x00080020, "DA", text(da)),
+    element(0x00080023, "DA", text(da)),
+    element(0x00080030, "TM", text(tm)),
+    element(0x00080033, "TM", text(tm)),
+    element(0x00080060, "CS", text("US")),
+    element(0x00080070, "LO", text("Aloe Health")),
+    element(0x00080090, "PN", text("")),
+    element(0x00081030, "LO", text(opts.studyDescription ?? "Simulated ultrasound")),
+    element(0x0008103e, "LO", text(opts.seriesDescription ?? "Simulated B-mode")),
+    element(0x00081090, "LO", text("Aloe ultrasound simulator")),
+    element(0x00100010, "PN", text(opts.patientName ?? "SIMULATED^PHANTOM")),
+    element(0x00100020, "LO", text(opts.patientId ?? `SIM-${studyUid.slice(-8)}`)),
+    element(0x00100030, "DA", text("")),
+    element(0x00100040, "CS", text("O")),
+    ...(multiFrame ? [
+      element(0x00180040, "IS", text(String(Math.round(1000 / frameTimeMs)))), // cine rate
+      element(0x00181063, "DS", text(decimal(frameTimeMs))), // frame time
+    ] : []),
+    sequence(0x00186011, [region]),
+    element(0x0020000d, "UI", uid(studyUid)),
+    element(0x0020000e, "UI", uid(seriesUid)),
+    element(0x00200010, "SH", text("1")),
+    element(0x00200011, "IS", text("1")),
+    element(0x00200013, "IS", text("1")),
+    element(0x00280002, "US", us(color ? 3 : 1)),
+    element(0x00280004, "CS", text(color ? "RGB" : "MONOCHROME2")),
+    ...(color ? [element(0x00280006, "US", us(0))] : []), // planar configuration: interleaved
+    ...(multiFrame ? [
+      element(0x00280008, "IS", text(String(frames.length))),
+      element(0x00280009, "AT", at(0x00181063)), // frame increment pointer: frame time
+    ] : []),
+    element(0x00280010, "US", us(rows)),
+    element(0x00280011, "US", us(cols)),
+    // row spacing (depth) then column spacing (lateral), mm
+    element(0x00280030, "DS", text(`${decimal(dz * 1000)}\\${decimal(dx * 1000)}`)),
+    element(0x00280100, "US", us(8)),
+    element(0x00280101, "US", us(8)),
+    element(0x00280102, "US", us(7)),
+    element(0x00280103, "US", us(0)),
+    element(0x00282110, "CS", text("00")),
+    element(0x7fe00010, "OB", pixels),
+  ];
+
+  const meta = concatBytes([
+    element(0x00020001, "OB", new Uint8Array([0, 1])),
+    element(0x00020002, "UI", uid(sopClass)),
+    element(0x00020003, "UI", uid(sopInstance)),
+    element(0x00020010, "UI", uid(EXPLICIT_VR_LITTLE_ENDIAN)),
+    element(0x00020012, "UI", uid(IMPLEMENTATION_CLASS_UID)),
+    element(0x00020013, "SH", text(IMPLEMENTATION_VERSION)),
+  ]);
+  const preamble = new Uint8Array(132);
+  preamble.set([0x44, 0x49, 0x43, 0x4d], 128); // "DICM"
+  return concatBytes([preamble, element(0x00020000, "UL", ul(meta.length)), meta, ...dataset]);
+}
+
+type Vr = "AT" | "CS" | "DA" | "DS" | "FD" | "IS" | "LO" | "OB" | "PN" | "SH" | "SL" | "SQ" | "TM" | "UI" | "UL" | "US";
+
+// VRs with a 2-byte reserved field and a 4-byte length in explicit VR encoding
+const LONG_VRS = new Set<Vr>(["OB", "SQ"]);
+
+/** One explicit VR little endian data element; values are padded to even length. */
+function element(tag: number, vr: Vr, value: Uint8Array): Uint8Array {
+  const padded = value.length % 2 === 0 ? value : concatBytes([value, new Uint8Array([vr === "UI" || vr === "OB" ? 0 : 0x20])]);
+  const long = LONG_VRS.has(vr);
+  const header = new Uint8Array(long ? 12 : 8);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, tag >>> 16, true);
+  view.setUint16(2, tag & 0xffff, true);
+  header[4] = vr.charCodeAt(0); header[5] = vr.charCodeAt(1);
+  if (long) view.setUint32(8, padded.length, true);
+  else {
+    if (padded.length > 0xffff) throw new Error(`DICOM ${vr} value of ${padded.length} bytes is too long`);
+    view.setUint16(6, padded.length, true);
+  }
+  return concatBytes([header, padded]);
+}
+
+/** Sequence of items, each the encoded elements of one item, with explicit lengths. */
+function sequence(tag: number, items: Uint8Array[]): Uint8Array {
+  return element(tag, "SQ", concatBytes(items.map((item) => {
+    const header = new Uint8Array(8);
+    const view = new DataView(header.buffer);
+    view.setUint16(0, 0xfffe, true);
+    view.setUint16(2, 0xe000, true);
+    view.setUint32(4, item.length, true);
+    return concatBytes([header, item]);
+  })));
+}
+
+const text = (s: string) => new Uint8Array([...s].map((ch) => ch.charCodeAt(0) & 0x7f));
+const uid = text;
+const binary = (bytes: number, write: (view: DataView) => void) => {
+  const out = new Uint8Array(bytes);
+  write(new DataView(out.buffer));
+  return out;
+};
+const us = (v: number) => binary(2, (d) => d.setUint16(0, v, true));
+const ul = (v: number) => binary(4, (d) => d.setUint32(0, v, true));
+const sl = (v: number) => binary(4, (d) => d.setInt32(0, v, true));
+const fd = (v: number) => binary(8, (d) => d.setFloat64(0, v, true));
+const at = (tag: number) => binary(4, (d) => { d.setUint16(0, tag >>> 16, true); d.setUint16(2, tag & 0xffff, true); });
+const pad2 = (n: number) => String(n).padStart(2, "0");
+/** Decimal string (DS) of at most 16 characters. */
+const decimal = (v: number) => String(+v.toPrecision(8));
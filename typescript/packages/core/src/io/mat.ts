@@ -0,0 +1,274 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: MATLAB Level-5 MAT-file writer and reader for profiles, frames and their configs.
+ */
+
+import pako from "pako";
+import { BeamformFullProfile } from "../beamforming/profile/types.js";
+import { DynamicBeamformingConfig } from "../beamforming/dynamic/types.js";
+import { FrameResult } from "../beamforming/dynamic/runner.js";
+import { concatBytes } from "./png.js";
+
+/**
+ * Value of a MAT-file variable or struct field:
+ * - number → 1x1 double, boolean → 1x1 logical, string → 1xN char
+ * - number[] / typed array → 1xN double row, equal-length number[][] → rows x columns matrix
+ * - plain object → 1x1 struct (undefined and null fields are skipped), any other array → 1xN cell
+ */
+export type MatValue = number | boolean | string | number[] | number[][] | Float32Array | Float64Array | MatStruct | MatValue[];
+
+export interface MatStruct {
+  [field: string]: MatValue | undefined;
+}
+
+export interface MatOptions {
+  /** Wrap each variable in a zlib-compressed element, as MATLAB's default (v7) save does (default false) */
+  compress?: boolean;
+}
+
+// data types
+const MI_INT8 = 1, MI_UINT8 = 2, MI_INT16 = 3, MI_UINT16 = 4, MI_INT32 = 5, MI_UINT32 = 6;
+const MI_SINGLE = 7, MI_DOUBLE = 9, MI_INT64 = 12, MI_UINT64 = 13, MI_MATRIX = 14, MI_COMPRESSED = 15;
+const MI_UTF8 = 16, MI_UTF16 = 17;
+// array classes
+const MX_CELL = 1, MX_STRUCT = 2, MX_CHAR = 4, MX_DOUBLE = 6, MX_UINT8 = 9;
+const LOGICAL_FLAG = 0x200, COMPLEX_FLAG = 0x800;
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,62}$/;
+
+/** Encode named variables as a Level-5 MAT-file (little endian), readable by MATLAB's `load`. */
+export function encodeMat(variables: Record<string, MatValue>, opts: MatOptions = {}): Uint8Array {
+  const header = new Uint8Array(128);
+  const text = `MATLAB 5.0 MAT-file, Platform: aloe, Created on: ${new Date().toUTCString()}`.padEnd(116, " ");
+  for (let i = 0; i < 116; i++) header[i] = text.charCodeAt(i) & 0x7f;
+  header[124] = 0x00; header[125] = 0x01; // version 0x0100, little endian
+  header[126] = 0x49; header[127] = 0x4d; // "IM"
+  const parts: Uint8Array[] = [header];
+  for (const [name, value] of Object.entries(variables)) {
+    if (!NAME_PATTERN.test(name)) throw new Error(`Invalid MATLAB variable name "${name}"`);
+    const matrix = encodeMatrix(name, value);
+    parts.push(opts.compress ? element(MI_COMPRESSED, pako.deflate(matrix), false) : matrix);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Decode the variables of a Level-5 MAT-file (little endian, compressed or not). Numeric arrays
+ * come back as numbers (1x1), number[] (row or column vectors) or number[][] (rows x columns),
+ * char arrays as strings, structs as objects and cells as arrays. Complex, sparse, object and
+ * N-d (N > 2) arrays are not supported.
+ */
+export function decodeMat(bytes: Uint8Array): Record<string, MatValue> {
+  if (bytes.length < 128) throw new Error("Not a MAT-file (too short)");
+  if (bytes[126] === 0x4d && bytes[127] === 0x49) throw new Error("Big-endian MAT-files are not supported");
+  if (bytes[126] !== 0x49 || bytes[127] !== 0x4d) throw new Error("Not a Level-5 MAT-file (no endian indicator)");
+  const out: Record<string, MatValue> = {};
+  let offset = 128;
+  while (offset + 8 <= bytes.length) {
+    const el = readElement(bytes, offset);
+    offset = el.next;
+    let matrix = el;
+    if (el.type === MI_COMPRESSED) matrix = readElement(pako.inflate(el.data), 0);
+    if (matrix.type !== MI_MATRIX) continue;
+    const { name, value } = decodeMatrix(matrix.data);
+    if (value !== undefined) out[name] = value;
+  }
+  return out;
+}
+
+/** Variables for a beam profile: config struct, weights, delays struct and pattern struct. */
+export function profileToMatVariables(profile: BeamformFullProfile): Record<string, MatValue> {
+  return {
+    config: toMatStruct(profile.config, "config"),
+    weights: profile.snapshot.weights,
+    delays: { timeDelays: profile.snapshot.delays.timeDelays, phaseRadians: profile.snapshot.delays.phaseRadians },
+    pattern: {
+      angleDeg: profile.pattern.map((p) => p.angleDeg),
+      intensityLin: profile.pattern.map((p) => p.intensityLin),
+      intensityDb: profile.pattern.map((p) => p.intensityDb),
+    },
+  };
+}
+
+/** Variables for a frame: beamformed (scanlines x samples), scanParams, transmits and the config struct. */
+export function frameToMatVariables(result: FrameResult, cfg: DynamicBeamformingConfig): Record<string, MatValue> {
+  return {
+    beamformed: result.beamformed,
+    scanParams: result.scanParams,
+    transmits: result.transmits ?? cfg.scanning.numScanLines,
+    config: toMatStruct(cfg, "config"),
+  };
+}
+
+/**
+ * Struct of a plain data object such as a config: null and undefined fields are dropped, nested
+ * objects become structs and arrays are stored as `encodeMat` stores them. Anything else (functions,
+ * class instances other than typed arrays) is an error naming its path.
+ */
+export function toMatStruct(value: object, path = "struct"): MatStruct {
+  const convert = (v: unknown, at: string): MatValue | undefined => {
+    if (v === null || v === undefined) return undefined;
+    if (typeof v === "number" || typeof v === "boolean" || typeof v === "string") return v;
+    if (v instanceof Float32Array || v instanceof Float64Array) return v;
+    if (Array.isArray(v)) return v.map((item, k) => convert(item, `${at}[${k}]`) ?? []);
+    if (typeof v === "object" && Object.getPrototypeOf(v) === Object.prototype) return toMatStruct(v, at);
+    throw new Error(`Cannot store ${at} (${typeof v === "object" ? v.constructor?.name ?? "object" : typeof v}) in a MAT-file`);
+  };
+  const out: MatStruct = {};
+  for (const [field, v] of Object.entries(value)) {
+    const converted = convert(v, `${path}.${field}`);
+    if (converted !== undefined) out[field] = converted;
+  }
+  return out;
+}
+
+/** Tagged data element padded to 8 bytes; the tag's size excludes the padding. */
+function element(type: number, data: Uint8Array, pad = true): Uint8Array {
+  const padded = pad ? (8 - (data.length % 8)) % 8 : 0;
+  const out = new Uint8Array(8 + data.length + padded);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, type, true);
+  view.setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+const typed = (type: number, values: ArrayLike<number>, size: number, set: (v: DataView, offset: number, x: number) => void) => {
+  const data = new Uint8Array(values.length * size);
+  const view = new DataView(data.buffer);
+  for (let i = 0; i < values.length; i++) set(view, i * size, values[i]);
+  return element(type, data);
+};
+const int32s = (values: number[]) => typed(MI_INT32, values, 4, (v, o, x) => v.setInt32(o, x, true));
+const doubles = (values: ArrayLike<number>) => typed(MI_DOUBLE, values, 8, (v, o, x) => v.setFloat64(o, x, true));
+const ascii = (s: string, length = s.length) => {
+  const data = new Uint8Array(length);
+  for (let i = 0; i < s.length && i < length; i++) data[i] = s.charCodeAt(i) & 0x7f;
+  return data;
+};
+
+/** miMATRIX element: array flags, dimensions, name, then the class's data. */
+function encodeMatrix(name: string, value: MatValue): Uint8Array {
+  const matrix = (cls: number, dims: number[], body: Uint8Array[], flags = 0) => {
+    const arrayFlags = new Uint8Array(8);
+    new DataView(arrayFlags.buffer).setUint32(0, cls | flags, true);
+    return element(MI_MATRIX, concatBytes([element(MI_UINT32, arrayFlags), int32s(dims), element(MI_INT8, ascii(name)), ...body]), false);
+  };
+  if (typeof value === "number") return matrix(MX_DOUBLE, [1, 1], [doubles([value])]);
+  if (typeof value === "boolean") return matrix(MX_UINT8, [1, 1], [element(MI_UINT8, new Uint8Array([value ? 1 : 0]))], LOGICAL_FLAG);
+  if (typeof value === "string") {
+    // one entry per UTF-16 code unit, so characters outside the BMP are stored as surrogate pairs
+    const units = Array.from({ length: value.length }, (_, i) => value.charCodeAt(i));
+    return matrix(MX_CHAR, [1, value.length], [typed(MI_UINT16, units, 2, (v, o, x) => v.setUint16(o, x, true))]);
+  }
+  if (value instanceof Float32Array || value instanceof Float64Array) return matrix(MX_DOUBLE, [1, value.length], [doubles(value)]);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return matrix(MX_DOUBLE, [0, 0], [doubles([])]);
+    if (value.every((v) => typeof v === "number")) return matrix(MX_DOUBLE, [1, value.length], [doubles(value as number[])]);
+    const cols = Array.isArray(value[0]) ? value[0].length : -1;
+    if (cols > 0 && value.every((row) => Array.isArray(row) && row.length === cols && row.every((v) => typeof v === "number"))) {
+      // MATLAB stores columns first
+      const rows = value as number[][];
+      const data = new Float64Array(rows.length * cols);
+      for (let c = 0; c < cols; c++) for (let r = 0; r < rows.length; r++) data[c * rows.length + r] = rows[r][c];
+      return matrix(MX_DOUBLE, [rows.length, cols], [doubles(data)]);
+    }
+    return matrix(MX_CELL, [1, value.length], value.map((v) => encodeNested(v)));
+  }
+  if (value === null || typeof value !== "object") throw new Error(`Cannot store ${name || "a nested value"} (${value === null ? "null" : typeof value}) in a MAT-file`);
+  const fields = Object.entries(value).filter(([, v]) => v !== undefined && v !== null) as [string, MatValue][];
+  for (const [field] of fields) if (!NAME_PATTERN.test(field)) throw new Error(`Invalid MATLAB field name "${field}" in ${name || "struct"}`);
+  const fieldLength = Math.max(...fields.map(([f]) => f.length), 0) + 1;
+  return matrix(MX_STRUCT, [1, 1], [
+    int32s([fieldLength]),
+    element(MI_INT8, concatBytes(fields.map(([f]) => ascii(f, fieldLength)))),
+    ...fields.map(([, v]) => encodeNested(v)),
+  ]);
+}
+
+/** Cell contents and struct fields are unnamed matrices. */
+function encodeNested(value: MatValue): Uint8Array {
+  return encodeMatrix("", value);
+}
+
+/** Read one data element (normal or small format) at `offset`. */
+function readElement(bytes: Uint8Array, offset: number): { type: number; data: Uint8Array; next: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const first = view.getUint32(offset, true);
+  if (first >>> 16 !== 0) {
+    // small data element: type and size share the first word, data in the second
+    const size = first >>> 16;
+    return { type: first & 0xffff, data: bytes.subarray(offset + 4, offset + 4 + size), next: offset + 8 };
+  }
+  const size = view.getUint32(offset + 4, true);
+  const data = bytes.subarray(offset + 8, offset + 8 + size);
+  // compressed elements are not padded
+  const next = offset + 8 + (first === MI_COMPRESSED ? size : Math.ceil(size / 8) * 8);
+  return { type: first, data, next };
+}
+
+/** Numbers of a numeric data element of any MAT data type. */
+function readNumbers(el: { type: number; data: Uint8Array }): number[] {
+  const view = new DataView(el.data.buffer, el.data.byteOffset, el.data.byteLength);
+  const read: Record<number, [number, (o: number) => number]> = {
+    [MI_INT8]: [1, (o) => view.getInt8(o)],
+    [MI_UINT8]: [1, (o) => view.getUint8(o)],
+    [MI_INT16]: [2, (o) => view.getInt16(o, true)],
+    [MI_UINT16]: [2, (o) => view.getUint16(o, true)],
+    [MI_INT32]: [4, (o) => view.getInt32(o, true)],
+    [MI_UINT32]: [4, (o) => view.getUint32(o, true)],
+    [MI_SINGLE]: [4, (o) => view.getFloat32(o, true)],
+    [MI_DOUBLE]: [8, (o) => view.getFloat64(o, true)],
+    [MI_INT64]: [8, (o) => Number(view.getBigInt64(o, true))],
+    [MI_UINT64]: [8, (o) => Number(view.getBigUint64(o, true))],
+  };
+  const reader = read[el.type];
+  if (!reader) throw new Error(`Unsupported MAT data type ${el.type}`);
+  const [size, get] = reader;
+  return Array.from({ length: Math.floor(el.data.length / size) }, (_, i) => get(i * size));
+}
+
+function decodeMatrix(data: Uint8Array): { name: string; value: MatValue | undefined } {
+  let offset = 0;
+  const next = () => { const el = readElement(data, offset); offset = el.next; return el; };
+  if (data.length === 0) return { name: "", value: [] };
+  const flags = readNumbers(next())[0];
+  const cls = flags & 0xff;
+  const dims = readNumbers(next());
+  const name = String.fromCharCode(...next().data);
+  const count = dims.reduce((n, d) => n * d, 1);
+  if (flags & COMPLEX_FLAG) throw new Error(`Complex MAT variable ${name || "(nested)"} is not supported`);
+
+  if (cls === MX_STRUCT) {
+    const fieldLength = readNumbers(next())[0];
+    const namesData = next().data;
+    const fields = Array.from({ length: Math.floor(namesData.length / fieldLength) }, (_, k) =>
+      String.fromCharCode(...namesData.subarray(k * fieldLength, (k + 1) * fieldLength)).replace(/\0.*$/s, ""));
+    const structs = Array.from({ length: count }, () => {
+      const s: MatStruct = {};
+      for (const field of fields) s[field] = decodeMatrix(next().data).value;
+      return s;
+    });
+    return { name, value: count === 1 ? structs[0] : structs };
+  }
+  if (cls === MX_CELL) {
+    return { name, value: Array.from({ length: count }, () => decodeMatrix(next().data).value as MatValue) };
+  }
+  if (dims.length > 2) throw new Error(`MAT variable ${name || "(nested)"} has ${dims.length} dimensions; only 2-d arrays are supported`);
+  const [rows, cols] = dims;
+  if (cls === MX_CHAR) {
+    const el = next();
+    const text = el.type === MI_UTF8 || el.type === MI_UTF16 ? new TextDecoder(el.type === MI_UTF8 ? "utf-8" : "utf-16le").decode(el.data) : undefined;
+    const codes = text !== undefined ? Array.from({ length: text.length }, (_, i) => text.charCodeAt(i)) : readNumbers(el);
+    // column-major characters; several rows become several strings
+    const lines = Array.from({ length: rows }, (_, r) => String.fromCharCode(...Array.from({ length: cols }, (_, c) => codes[c * rows + r])));
+    return { name, value: rows === 1 ? lines[0] : lines };
+  }
+  if (cls < MX_DOUBLE || cls > 15) throw new Error(`MAT variable ${name || "(nested)"} has unsupported class ${cls}`);
+  const real = readNumbers(next());
+  const logical = (flags & LOGICAL_FLAG) !== 0;
+  if (count === 1) return { name, value: logical ? real[0] !== 0 : real[0] };
+  if (rows === 1 || cols === 1 || count === 0) return { name, value: real };
+  return { name, value: Array.from({ length: rows }, (_, r) => Array.from({ length: cols }, (_, c) => real[c * rows + r])) };
+}
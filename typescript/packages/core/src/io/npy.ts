@@ -0,0 +1,126 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: NumPy .npy reader and writer for float32 / float64 arrays, to move data to and from Python.
+ */
+
+export type NpyDtype = "float32" | "float64";
+
+/** N-dimensional array in C (row-major) order. */
+export interface NpyArray {
+  shape: number[];
+  dtype: NpyDtype;
+  data: Float32Array | Float64Array;
+}
+
+/** Nested number arrays of any depth, e.g. number[] or number[][][] */
+export type NestedNumbers = number | NestedNumbers[];
+
+const MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59]; // "\x93NUMPY"
+const DESCR: Record<NpyDtype, string> = { float32: "<f4", float64: "<f8" };
+
+/** Flatten equal-length nested arrays into an NpyArray; ragged input is an error. */
+export function npyFromNested(values: NestedNumbers, dtype: NpyDtype = "float64"): NpyArray {
+  const shape: number[] = [];
+  for (let v: NestedNumbers = values; Array.isArray(v); v = v[0]) {
+    shape.push(v.length);
+    if (v.length === 0) break;
+  }
+  const count = shape.reduce((n, d) => n * d, 1);
+  const data = dtype === "float32" ? new Float32Array(count) : new Float64Array(count);
+  let ptr = 0;
+  const walk = (v: NestedNumbers, depth: number) => {
+    if (depth === shape.length) {
+      if (Array.isArray(v)) throw new Error(`Ragged array: expected a number at depth ${depth}`);
+      data[ptr++] = v;
+      return;
+    }
+    if (!Array.isArray(v) || v.length !== shape[depth]) throw new Error(`Ragged array: expected length ${shape[depth]} at depth ${depth}`);
+    for (const item of v) walk(item, depth + 1);
+  };
+  walk(values, 0);
+  return { shape, dtype, data };
+}
+
+/** Nested number arrays with the array's shape (a bare number for 0-d arrays). */
+export function npyToNested(array: NpyArray): NestedNumbers {
+  let ptr = 0;
+  const build = (depth: number): NestedNumbers => {
+    if (depth === array.shape.length) return array.data[ptr++];
+    return Array.from({ length: array.shape[depth] }, () => build(depth + 1));
+  };
+  return build(0);
+}
+
+/** Encode as a version 1.0 .npy file: little-endian, C order, header padded to 64 bytes. */
+export function encodeNpy(array: NpyArray): Uint8Array {
+  if (!DESCR[array.dtype]) throw new Error(`Unsupported NPY dtype ${array.dtype} (expected float32 or float64)`);
+  const count = array.shape.reduce((n, d) => n * d, 1);
+  if (array.data.length !== count) throw new Error(`Array of shape (${array.shape.join(", ")}) needs ${count} values, got ${array.data.length}`);
+  const shape = array.shape.length === 1 ? `(${array.shape[0]},)` : `(${array.shape.join(", ")})`;
+  let header = `{'descr': '${DESCR[array.dtype]}', 'fortran_order': False, 'shape': ${shape}, }`;
+  header += " ".repeat(63 - ((10 + header.length) % 64)) + "\n";
+  if (header.length > 0xffff) throw new Error("NPY header too long");
+  const itemSize = array.dtype === "float32" ? 4 : 8;
+  const out = new Uint8Array(10 + header.length + count * itemSize);
+  const view = new DataView(out.buffer);
+  out.set(MAGIC, 0);
+  out[6] = 1; out[7] = 0; // version 1.0
+  view.setUint16(8, header.length, true);
+  for (let i = 0; i < header.length; i++) out[10 + i] = header.charCodeAt(i);
+  let offset = 10 + header.length;
+  for (let i = 0; i < count; i++, offset += itemSize) {
+    if (itemSize === 4) view.setFloat32(offset, array.data[i], true);
+    else view.setFloat64(offset, array.data[i], true);
+  }
+  return out;
+}
+
+/**
+ * Decode a .npy file (versions 1-3) holding float32 or float64 values of either byte order.
+ * Fortran-ordered arrays are reordered to C order.
+ */
+export function decodeNpy(bytes: Uint8Array): NpyArray {
+  if (bytes.length < 10 || MAGIC.some((b, i) => bytes[i] !== b)) throw new Error("Not a NPY file (bad magic)");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const major = bytes[6];
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = major === 1 ? 10 : 12;
+  const header = String.fromCharCode(...bytes.subarray(headerStart, headerStart + headerLength));
+  const descr = /'descr'\s*:\s*'([^']+)'/.exec(header)?.[1];
+  const fortran = /'fortran_order'\s*:\s*True/.test(header);
+  const shapeText = /'shape'\s*:\s*\(([^)]*)\)/.exec(header)?.[1];
+  if (!descr || shapeText === undefined) throw new Error(`Malformed NPY header: ${header.trim()}`);
+  const match = /^([<>|=])f([48])$/.exec(descr);
+  if (!match) throw new Error(`Unsupported NPY dtype ${descr} (expected float32 or float64)`);
+  const littleEndian = match[1] !== ">";
+  const itemSize = Number(match[2]);
+  const shape = shapeText.split(",").map((s) => s.trim()).filter(Boolean).map(Number);
+  const count = shape.reduce((n, d) => n * d, 1);
+  const dataStart = headerStart + headerLength;
+  if (bytes.length < dataStart + count * itemSize) throw new Error(`NPY data truncated: shape (${shape.join(", ")}) needs ${count * itemSize} bytes`);
+  const dtype: NpyDtype = itemSize === 4 ? "float32" : "float64";
+  const data = dtype === "float32" ? new Float32Array(count) : new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const offset = dataStart + i * itemSize;
+    data[i] = itemSize === 4 ? view.getFloat32(offset, littleEndian) : view.getFloat64(offset, littleEndian);
+  }
+  return { shape, dtype, data: fortran ? toCOrder(data, shape) : data };
+}
+
+/** Reorder column-major (first index fastest) values to row-major. */
+function toCOrder<T extends Float32Array | Float64Array>(data: T, shape: number[]): T {
+  const out = new (data.constructor as { new (n: number): T })(data.length);
+  const index = new Array(shape.length).fill(0);
+  for (let c = 0; c < data.length; c++) {
+    // c walks C order (last index fastest); find the matching Fortran offset
+    let f = 0, stride = 1;
+    for (let d = 0; d < shape.length; d++) { f += index[d] * stride; stride *= shape[d]; }
+    out[c] = data[f];
+    for (let d = shape.length - 1; d >= 0; d--) {
+      if (++index[d] < shape[d]) break;
+      index[d] = 0;
+    }
+  }
+  return out;
+}
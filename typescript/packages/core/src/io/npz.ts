@@ -0,0 +1,103 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: NumPy .npz bundles: a zip archive with one .npy file per named array.
+ */
+
+import pako from "pako";
+import { NpyArray, decodeNpy, encodeNpy } from "./npy.js";
+import { concatBytes, crc32 } from "./png.js";
+
+export interface NpzOptions {
+  /** Deflate each member, as numpy.savez_compressed does (default false, as numpy.savez) */
+  compress?: boolean;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const STORED = 0, DEFLATED = 8;
+
+/** Bundle named arrays into an .npz file; `np.load` returns them under the same keys. */
+export function encodeNpz(arrays: Record<string, NpyArray>, opts: NpzOptions = {}): Uint8Array {
+  const method = opts.compress ? DEFLATED : STORED;
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [key, array] of Object.entries(arrays)) {
+    const name = new TextEncoder().encode(`${key}.npy`);
+    const raw = encodeNpy(array);
+    const body = method === DEFLATED ? pako.deflateRaw(raw) : raw;
+    const crc = crc32(raw);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true); // version needed: 2.0
+    lv.setUint16(8, method, true);
+    lv.setUint16(12, 0x21, true); // date: 1980-01-01, time 00:00
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, body.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(10, method, true);
+    cv.setUint16(14, 0x21, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, body.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, body);
+    centrals.push(central);
+    offset += local.length + body.length;
+  }
+  const directory = concatBytes(centrals);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, directory.length, true);
+  ev.setUint32(16, offset, true);
+  return concatBytes([...locals, directory, end]);
+}
+
+/** Read every .npy member of an .npz file (stored or deflated), keyed by name without ".npy". */
+export function decodeNpz(bytes: Uint8Array): Record<string, NpyArray> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) { end = i; break; }
+  }
+  if (end < 0) throw new Error("Not an NPZ file (no zip directory)");
+  const entries = view.getUint16(end + 10, true);
+  let ptr = view.getUint32(end + 16, true);
+  const out: Record<string, NpyArray> = {};
+  for (let k = 0; k < entries; k++) {
+    if (view.getUint32(ptr, true) !== CENTRAL_HEADER) throw new Error("Corrupt NPZ directory");
+    const method = view.getUint16(ptr + 10, true);
+    const compressedSize = view.getUint32(ptr + 20, true);
+    const nameLength = view.getUint16(ptr + 28, true);
+    const extraLength = view.getUint16(ptr + 30, true);
+    const commentLength = view.getUint16(ptr + 32, true);
+    const localOffset = view.getUint32(ptr + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(ptr + 46, ptr + 46 + nameLength));
+    ptr += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const body = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method !== STORED && method !== DEFLATED) throw new Error(`NPZ member ${name} uses unsupported compression method ${method}`);
+    if (!name.endsWith(".npy")) continue;
+    out[name.slice(0, -4)] = decodeNpy(method === DEFLATED ? pako.inflateRaw(body) : body);
+  }
+  return out;
+}
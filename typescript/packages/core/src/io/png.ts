@@ -0,0 +1,79 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Minimal PNG encoder (8-bit truecolour with alpha), shared by the browser and Node.
+ */
+
+import pako from "pako";
+
+let crcTable: Uint32Array | undefined;
+
+/** CRC-32 (IEEE, as used by PNG chunks) of `bytes`. */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/** One PNG chunk: length, type, data and the CRC over type and data. */
+export function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/** IHDR payload for an 8-bit RGBA image. */
+export function pngHeader(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  data[8] = 8; // bit depth
+  data[9] = 6; // colour type: RGBA
+  // compression, filter and interlace methods stay 0
+  return data;
+}
+
+/** zlib-compressed scanlines of an RGBA buffer, each prefixed by filter type 0 (none). */
+export function pngImageData(width: number, height: number, rgba: Uint8Array | Uint8ClampedArray): Uint8Array {
+  const stride = width * 4;
+  const raw = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  return pako.deflate(raw, { level: 6 });
+}
+
+/** Concatenate byte arrays. */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) { out.set(p, offset); offset += p.length; }
+  return out;
+}
+
+/**
+ * Encode row-major RGBA pixels (e.g. canvas ImageData or `renderFrame` output) as a PNG file.
+ * No resizing or colour-space conversion is done.
+ */
+export function encodePng(width: number, height: number, rgba: Uint8Array | Uint8ClampedArray): Uint8Array {
+  if (rgba.length !== width * height * 4) throw new Error(`Pixel buffer holds ${rgba.length} bytes, expected ${width * height * 4} for ${width}x${height} RGBA`);
+  return concatBytes([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", pngHeader(width, height)),
+    pngChunk("IDAT", pngImageData(width, height, rgba)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ]);
+}
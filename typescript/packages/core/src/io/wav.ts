@@ -0,0 +1,46 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: RIFF/WAVE encoder for 16-bit PCM audio (e.g. Doppler sounds).
+ */
+
+/**
+ * Encode equal-length channels as interleaved 16-bit little-endian PCM. Samples are full scale
+ * at ±1 and clipped beyond it; shorter channels are zero-padded to the longest.
+ */
+export function encodeWav(channels: number[][], sampleRateHz: number): Uint8Array {
+  const numChannels = channels.length;
+  if (numChannels === 0) throw new Error("WAV needs at least one channel");
+  const rate = Math.round(sampleRateHz);
+  if (!(rate > 0)) throw new Error(`Invalid WAV sample rate ${sampleRateHz}`);
+  const frames = Math.max(...channels.map((c) => c.length));
+  const blockAlign = numChannels * 2;
+  const dataBytes = frames * blockAlign;
+  const buf = new Uint8Array(44 + dataBytes);
+  const view = new DataView(buf.buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) buf[offset + i] = text.charCodeAt(i);
+  };
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate * blockAlign, true); // byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // bits per sample
+  ascii(36, "data");
+  view.setUint32(40, dataBytes, true);
+  let offset = 44;
+  for (let n = 0; n < frames; n++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const v = Math.max(-1, Math.min(1, channels[ch][n] ?? 0));
+      view.setInt16(offset, Math.round(v * 32767), true);
+      offset += 2;
+    }
+  }
+  return buf;
+}
@@ -0,0 +1,98 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Small dense linear-algebra helpers for the adaptive beamformers and clutter filters.
+ */
+
+/**
+ * Solve A·x = b for a symmetric positive-definite A (n × n, row-major number[][]) by Cholesky
+ * decomposition. A is not modified. Throws if A is not positive definite.
+ */
+export function solveSymmetricPositiveDefinite(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  // lower-triangular factor, A = L·Lᵀ
+  const L: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (!(sum > 0)) throw new Error("solveSymmetricPositiveDefinite: matrix is not positive definite");
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  // forward substitution L·y = b, then back substitution Lᵀ·x = y
+  const y: number[] = new Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * y[k];
+    y[i] = sum / L[i][i];
+  }
+  const x: number[] = new Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+export interface SymmetricEigen {
+  /** Eigenvalues in descending order */
+  values: number[];
+  /** vectors[k] is the unit eigenvector of values[k] */
+  vectors: number[][];
+}
+
+/**
+ * Eigen-decomposition of a symmetric matrix (n × n, row-major) by cyclic Jacobi rotations.
+ * A is not modified. Intended for small matrices (n up to a few hundred).
+ */
+export function symmetricEigen(A: number[][], maxSweeps = 50): SymmetricEigen {
+  const n = A.length;
+  const a = A.map((row) => row.slice());
+  // columns of v accumulate the rotations
+  const v: number[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    let off = 0, diag = 0;
+    for (let p = 0; p < n; p++) {
+      diag += a[p][p] * a[p][p];
+      for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q];
+    }
+    if (off <= 1e-24 * diag || off === 0) break;
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p][q];
+        if (apq === 0) continue;
+        // rotation angle that zeroes a[p][q]
+        const theta = (a[q][q] - a[p][p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map((i) => a[i][i]),
+    vectors: order.map((i) => v.map((row) => row[i])),
+  };
+}
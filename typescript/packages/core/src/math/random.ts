@@ -0,0 +1,32 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Seeded pseudo-random number generator so simulated phantoms are reproducible.
+ */
+
+export interface Random {
+  /** Uniform sample in [0, 1) */
+  next(): number;
+  /** Standard normal sample (Box-Muller) */
+  normal(): number;
+}
+
+/** mulberry32: small, fast 32-bit generator; the same seed always yields the same sequence. */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    normal: () => {
+      const u = Math.max(next(), 1e-12);
+      const v = next();
+      return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    },
+  };
+}
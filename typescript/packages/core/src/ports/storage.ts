@@ -9,4 +9,8 @@ export interface StoragePort {
   saveText(name: string, content: string): Promise<void>;
   /** Load text by a key or path (node reads file path, web uses localStorage key). */
   loadText(name: string): Promise<string | null>;
+  /** Save raw bytes (e.g. WAV or PNG files) by a key or path. */
+  saveBinary(name: string, data: Uint8Array): Promise<void>;
+  /** Load raw bytes by a key or path; null when missing. */
+  loadBinary(name: string): Promise<Uint8Array | null>;
 }
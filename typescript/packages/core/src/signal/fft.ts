@@ -0,0 +1,62 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Radix-2 FFT of complex sequences and spectrum helpers shared by the Hilbert and Doppler code.
+ */
+
+/** Smallest power of two >= n (1 for n <= 1). */
+export function nextPowerOfTwo(n: number): number {
+  return 1 << Math.ceil(Math.log2(Math.max(1, n)));
+}
+
+/**
+ * In-place radix-2 Cooley–Tukey FFT; the length must be a power of two.
+ * Forward: X[k] = Σ x[n]·e^{-j2πkn/N}. Inverse uses e^{+j2πkn/N} and divides by N.
+ */
+export function fft(re: number[], im: number[], inverse = false): void {
+  const n = re.length;
+  if (n <= 1) return;
+  if ((n & (n - 1)) !== 0) throw new Error(`FFT length ${n} is not a power of two`);
+  // bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j &= ~bit;
+    j |= bit;
+    if (i < j) { const tr = re[i]; const ti = im[i]; re[i] = re[j]; im[i] = im[j]; re[j] = tr; im[j] = ti; }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = 2 * Math.PI / len * (inverse ? 1 : -1);
+    const wlenRe = Math.cos(ang);
+    const wlenIm = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let wRe = 1, wIm = 0;
+      for (let j = 0; j < len / 2; j++) {
+        const uRe = re[i + j], uIm = im[i + j];
+        const vRe = re[i + j + len / 2] * wRe - im[i + j + len / 2] * wIm;
+        const vIm = re[i + j + len / 2] * wIm + im[i + j + len / 2] * wRe;
+        re[i + j] = uRe + vRe;
+        im[i + j] = uIm + vIm;
+        re[i + j + len / 2] = uRe - vRe;
+        im[i + j + len / 2] = uIm - vIm;
+        const nWRe = wRe * wlenRe - wIm * wlenIm;
+        const nWIm = wRe * wlenIm + wIm * wlenRe;
+        wRe = nWRe; wIm = nWIm;
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) { re[i] /= n; im[i] /= n; }
+  }
+}
+
+/** Reorder a spectrum so bin 0 is the most negative frequency (-N/2) and DC sits at N/2. */
+export function fftShift<T>(x: T[]): T[] {
+  const half = Math.floor(x.length / 2);
+  return x.slice(x.length - half).concat(x.slice(0, x.length - half));
+}
+
+/** Frequency (Hz) of each fftShift-ed bin for an N-point FFT at `sampleRateHz`. */
+export function fftShiftedFrequencies(n: number, sampleRateHz: number): number[] {
+  const half = Math.floor(n / 2);
+  return Array.from({ length: n }, (_, k) => ((k - half) * sampleRateHz) / n);
+}
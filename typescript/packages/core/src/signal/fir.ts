@@ -0,0 +1,61 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Windowed-sinc FIR filter design and zero-phase FIR filtering of RF lines.
+ */
+
+import { hammingWindow } from "../beamforming/profile/windows.js";
+
+/**
+ * Linear-phase low-pass FIR (windowed sinc, Hamming) with cutoff `cutoffHz`. A cutoff at or above
+ * Nyquist gives a unit impulse (all-pass), at or below 0 an all-zero filter. `taps` is made odd.
+ */
+export function designLowPassFir(cutoffHz: number, sampleRateHz: number, taps = 63): number[] {
+  const n = Math.max(1, Math.round(taps) | 1);
+  const mid = (n - 1) / 2;
+  const h: number[] = new Array(n).fill(0);
+  const fc = cutoffHz / sampleRateHz; // cycles per sample
+  if (fc >= 0.5) {
+    h[mid] = 1;
+    return h;
+  }
+  if (fc <= 0) return h;
+  const w = hammingWindow(n);
+  for (let k = 0; k < n; k++) {
+    const m = k - mid;
+    h[k] = w[k] * (m === 0 ? 2 * fc : Math.sin(2 * Math.PI * fc * m) / (Math.PI * m));
+  }
+  // unity gain at DC
+  const dc = h.reduce((a, b) => a + b, 0);
+  return dc !== 0 ? h.map((v) => v / dc) : h;
+}
+
+/**
+ * Linear-phase band-pass FIR passing [lowHz, highHz], built as the difference of two low-pass
+ * filters. With highHz at or above Nyquist it becomes a high-pass filter above lowHz.
+ */
+export function designBandPassFir(lowHz: number, highHz: number, sampleRateHz: number, taps = 63): number[] {
+  const hi = designLowPassFir(highHz, sampleRateHz, taps);
+  const lo = designLowPassFir(lowHz, sampleRateHz, taps);
+  return hi.map((v, k) => v - lo[k]);
+}
+
+/**
+ * Filter `x` with the odd-length linear-phase FIR `h`, centred on the middle tap so the output is
+ * aligned with the input (no group delay). Samples outside `x` are zero. With `step` > 1 only
+ * outputs 0, step, 2·step, ... are computed (filter-then-decimate).
+ */
+export function applyFir(x: number[], h: number[], step = 1): number[] {
+  const mid = (h.length - 1) >> 1;
+  const out: number[] = new Array(Math.ceil(x.length / step)).fill(0);
+  for (let m = 0; m < out.length; m++) {
+    const n = m * step;
+    let acc = 0;
+    for (let k = 0; k < h.length; k++) {
+      const i = n + mid - k;
+      if (i >= 0 && i < x.length) acc += h[k] * x[i];
+    }
+    out[m] = acc;
+  }
+  return out;
+}
@@ -0,0 +1,231 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Fractional-delay interpolators for reading channel data between samples, and their frequency-response error.
+ */
+
+/**
+ * - "nearest": closest sample (reads 1 of 2 taps)
+ * - "linear": straight line between neighbours (2 taps)
+ * - "cubic": Catmull-Rom cubic spline (4 taps)
+ * - "lagrange": third-order Lagrange polynomial (4 taps)
+ * - "sinc": Hann-windowed sinc (2·halfWidth taps)
+ * - "farrow": Farrow structure, a polynomial in the fractional delay fitted to the windowed sinc,
+ *   so taps are evaluated with a few multiply-adds instead of sin() calls
+ */
+export type InterpolationMethod = "nearest" | "linear" | "cubic" | "lagrange" | "sinc" | "farrow";
+
+export interface InterpolatorOptions {
+  /** Taps either side of the interpolated point for "sinc" and "farrow" (default 4) */
+  halfWidth?: number;
+  /** Polynomial order of the "farrow" sub-filters (default 3) */
+  farrowOrder?: number;
+}
+
+export interface FractionalDelayInterpolator {
+  method: InterpolationMethod;
+  /** Samples spanned by the weights (an even number; the cost of one interpolated value) */
+  taps: number;
+  /**
+   * Weights for a point `mu` (0 <= mu < 1) past sample i0 = floor(index); weights[k] multiplies
+   * sample i0 + k - (taps / 2 - 1)
+   */
+  weights(mu: number): number[];
+  /** Column `column` of a [rows][columns] matrix read at fractional row `index`; rows outside are 0 */
+  sample(matrix: number[][], column: number, index: number): number;
+}
+
+/** Factory for a fractional-delay interpolator. */
+export function createInterpolator(method: InterpolationMethod = "linear", opts: InterpolatorOptions = {}): FractionalDelayInterpolator {
+  const halfWidth = Math.max(1, Math.round(opts.halfWidth ?? 4));
+  switch (method) {
+    case "nearest":
+      return {
+        ...fromWeights(method, 2, (mu, w) => { w[0] = mu < 0.5 ? 1 : 0; w[1] = 1 - w[0]; }),
+        // only one of the two weights is ever non-zero, so read that sample directly
+        sample: (matrix, column, index) => {
+          const i = Math.round(index);
+          return i >= 0 && i < matrix.length ? matrix[i][column] : 0;
+        },
+      };
+    case "linear":
+      return fromWeights(method, 2, (mu, w) => { w[0] = 1 - mu; w[1] = mu; });
+    case "cubic":
+      return fromWeights(method, 4, (mu, w) => {
+        const mu2 = mu * mu, mu3 = mu2 * mu;
+        w[0] = (-mu3 + 2 * mu2 - mu) / 2;
+        w[1] = (3 * mu3 - 5 * mu2 + 2) / 2;
+        w[2] = (-3 * mu3 + 4 * mu2 + mu) / 2;
+        w[3] = (mu3 - mu2) / 2;
+      });
+    case "lagrange":
+      // nodes at -1, 0, 1, 2
+      return fromWeights(method, 4, (mu, w) => {
+        w[0] = (-mu * (mu - 1) * (mu - 2)) / 6;
+        w[1] = ((mu + 1) * (mu - 1) * (mu - 2)) / 2;
+        w[2] = (-(mu + 1) * mu * (mu - 2)) / 2;
+        w[3] = ((mu + 1) * mu * (mu - 1)) / 6;
+      });
+    case "sinc":
+      return fromWeights(method, 2 * halfWidth, (mu, w) => windowedSinc(mu, halfWidth, w));
+    case "farrow": {
+      const coeffs = farrowCoefficients(halfWidth, Math.max(1, Math.round(opts.farrowOrder ?? 3)));
+      return fromWeights(method, 2 * halfWidth, (mu, w) => {
+        for (let k = 0; k < w.length; k++) {
+          // Horner evaluation of the k-th sub-filter polynomial
+          const c = coeffs[k];
+          let acc = c[c.length - 1];
+          for (let p = c.length - 2; p >= 0; p--) acc = acc * mu + c[p];
+          w[k] = acc;
+        }
+      });
+    }
+    default:
+      throw new Error(`Unknown interpolation method: ${method}`);
+  }
+}
+
+/** Build an interpolator from a weight function writing `taps` weights for fractional offset mu. */
+function fromWeights(method: InterpolationMethod, taps: number, fill: (mu: number, w: number[]) => void): FractionalDelayInterpolator {
+  const offset = taps / 2 - 1; // taps before floor(index)
+  const scratch: number[] = new Array(taps).fill(0);
+  return {
+    method,
+    taps,
+    weights: (mu) => {
+      const w: number[] = new Array(taps).fill(0);
+      fill(mu, w);
+      return w;
+    },
+    sample: (matrix, column, index) => {
+      const i0 = Math.floor(index);
+      const mu = index - i0;
+      const start = i0 - offset;
+      if (start + taps <= 0 || start >= matrix.length) return 0;
+      if (mu <= 1e-12 && i0 >= 0 && i0 < matrix.length) return matrix[i0][column];
+      fill(mu, scratch);
+      let acc = 0;
+      for (let k = 0; k < taps; k++) {
+        const i = start + k;
+        if (i >= 0 && i < matrix.length) acc += scratch[k] * matrix[i][column];
+      }
+      return acc;
+    },
+  };
+}
+
+/** Hann-windowed sinc weights for taps -(halfWidth - 1) .. halfWidth around a point mu past tap 0. */
+function windowedSinc(mu: number, halfWidth: number, w: number[]): void {
+  for (let k = 0; k < 2 * halfWidth; k++) {
+    const x = k - (halfWidth - 1) - mu; // distance from the interpolated point (samples)
+    const sinc = Math.abs(x) < 1e-12 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const win = Math.abs(x) < halfWidth ? 0.5 * (1 + Math.cos((Math.PI * x) / halfWidth)) : 0;
+    w[k] = sinc * win;
+  }
+}
+
+/**
+ * Farrow sub-filter coefficients: for each tap, a least-squares polynomial of `order` in mu fitted
+ * to the windowed-sinc weight over a grid of fractional delays. Returns [taps][order + 1].
+ */
+function farrowCoefficients(halfWidth: number, order: number): number[][] {
+  const taps = 2 * halfWidth;
+  const grid = 64;
+  const P = order + 1;
+  // normal equations AᵀA c = Aᵀy are shared by every tap (same mu grid)
+  const AtA: number[][] = Array.from({ length: P }, () => new Array(P).fill(0));
+  const Aty: number[][] = Array.from({ length: taps }, () => new Array(P).fill(0));
+  const w: number[] = new Array(taps).fill(0);
+  for (let g = 0; g <= grid; g++) {
+    const mu = g / grid;
+    windowedSinc(mu, halfWidth, w);
+    const powers = Array.from({ length: P }, (_, p) => Math.pow(mu, p));
+    for (let i = 0; i < P; i++) {
+      for (let j = 0; j < P; j++) AtA[i][j] += powers[i] * powers[j];
+      for (let k = 0; k < taps; k++) Aty[k][i] += powers[i] * w[k];
+    }
+  }
+  return Aty.map((b) => solveSmall(AtA, b));
+}
+
+/** Gaussian elimination with partial pivoting for the small Farrow normal equations. */
+function solveSmall(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  const x: number[] = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let acc = M[r][n];
+    for (let c = r + 1; c < n; c++) acc -= M[r][c] * x[c];
+    x[r] = acc / M[r][r];
+  }
+  return x;
+}
+
+export interface InterpolatorAnalysis {
+  method: InterpolationMethod;
+  /** Samples read per interpolated value (cost) */
+  taps: number;
+  /** Worst gain error over the band and all fractional delays (dB, signed: worst deviation from 0) */
+  maxAmplitudeErrorDb: number;
+  /** Worst phase error over the band and all fractional delays (degrees) */
+  maxPhaseErrorDeg: number;
+  /** Worst magnitude of the complex error |H - ideal| relative to the signal (dB) */
+  maxErrorDb: number;
+}
+
+/**
+ * Frequency-response error of an interpolator up to `maxNormalizedFrequency` (cycles per sample,
+ * e.g. f0·(1 + B/2)·timeStep for an RF pulse), over fractional delays 0..1. The interpolated value of
+ * e^{j2πfn} at n = mu is compared with the ideal e^{j2πf·mu}.
+ */
+export function analyzeInterpolator(
+  interpolator: FractionalDelayInterpolator,
+  maxNormalizedFrequency = 0.25
+): InterpolatorAnalysis {
+  const first = 1 - interpolator.taps / 2; // tap of weights[0] relative to floor(index)
+  const muSteps = 40;
+  const fSteps = 50;
+  let ampErr = 0, phaseErr = 0, err = 0;
+  for (let m = 0; m <= muSteps; m++) {
+    const mu = m / muSteps;
+    const w = interpolator.weights(mu);
+    for (let q = 1; q <= fSteps; q++) {
+      const f = (maxNormalizedFrequency * q) / fSteps;
+      // response relative to the ideal delay: E = Σ w_k e^{j2πf(k - mu)}
+      let re = 0, im = 0;
+      for (let k = 0; k < w.length; k++) {
+        const a = 2 * Math.PI * f * (first + k - mu);
+        re += w[k] * Math.cos(a);
+        im += w[k] * Math.sin(a);
+      }
+      const gainDb = 20 * Math.log10(Math.max(1e-12, Math.hypot(re, im)));
+      if (Math.abs(gainDb) > Math.abs(ampErr)) ampErr = gainDb;
+      phaseErr = Math.max(phaseErr, Math.abs((Math.atan2(im, re) * 180) / Math.PI));
+      err = Math.max(err, Math.hypot(re - 1, im));
+    }
+  }
+  return {
+    method: interpolator.method,
+    taps: interpolator.taps,
+    maxAmplitudeErrorDb: ampErr,
+    maxPhaseErrorDeg: phaseErr,
+    maxErrorDb: 20 * Math.log10(Math.max(1e-12, err)),
+  };
+}
+
+/** analyzeInterpolator for every method, cheapest first, to pick the cheapest acceptable one. */
+export function compareInterpolators(maxNormalizedFrequency = 0.25, opts: InterpolatorOptions = {}): InterpolatorAnalysis[] {
+  const methods: InterpolationMethod[] = ["nearest", "linear", "cubic", "lagrange", "farrow", "sinc"];
+  return methods
+    .map((m) => analyzeInterpolator(createInterpolator(m, opts), maxNormalizedFrequency))
+    .sort((a, b) => a.taps - b.taps);
+}
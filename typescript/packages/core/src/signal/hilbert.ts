@@ -4,17 +4,22 @@
  * windowed FIR Hilbert transformer or a high-performance FFT backend.
  */
 
+import { fft, nextPowerOfTwo } from "./fft.js";
+
 export interface AnalyticSignalResult {
   real: number[];
   imag: number[];
   envelope: number[];
 }
 
-/** Compute analytic signal via FFT-based Hilbert transform. */
+/**
+ * Compute analytic signal via FFT-based Hilbert transform: real + j·imag = x + j·H{x}, so a cosine
+ * gives a sine as `imag` and phases advance with time (the FFT's e^{-j} forward convention).
+ */
 export function hilbertAnalytic(x: number[]): AnalyticSignalResult {
   const N = x.length;
   // Next power of two for simple radix-2 FFT implementation
-  const M = 1 << Math.ceil(Math.log2(Math.max(1, N)));
+  const M = nextPowerOfTwo(N);
   const re = new Array(M).fill(0);
   const im = new Array(M).fill(0);
   for (let i = 0; i < N; i++) re[i] = x[i];
@@ -45,42 +50,6 @@ export function hilbertAnalytic(x: number[]): AnalyticSignalResult {
   return { real: outRe, imag: outIm, envelope: env };
 }
 
-/** Basic in-place radix-2 Cooley–Tukey FFT. inverse=false for forward. */
-function fft(re: number[], im: number[], inverse: boolean): void {
-  const n = re.length;
-  if (n <= 1) return;
-  // bit-reversal permutation
-  for (let i = 1, j = 0; i < n; i++) {
-    let bit = n >> 1;
-    for (; j & bit; bit >>= 1) j &= ~bit;
-    j |= bit;
-    if (i < j) { const tr = re[i]; const ti = im[i]; re[i] = re[j]; im[i] = im[j]; re[j] = tr; im[j] = ti; }
-  }
-  for (let len = 2; len <= n; len <<= 1) {
-    const ang = 2 * Math.PI / len * (inverse ? -1 : 1);
-    const wlenRe = Math.cos(ang);
-    const wlenIm = Math.sin(ang);
-    for (let i = 0; i < n; i += len) {
-      let wRe = 1, wIm = 0;
-      for (let j = 0; j < len / 2; j++) {
-        const uRe = re[i + j], uIm = im[i + j];
-        const vRe = re[i + j + len / 2] * wRe - im[i + j + len / 2] * wIm;
-        const vIm = re[i + j + len / 2] * wIm + im[i + j + len / 2] * wRe;
-        re[i + j] = uRe + vRe;
-        im[i + j] = uIm + vIm;
-        re[i + j + len / 2] = uRe - vRe;
-        im[i + j + len / 2] = uIm - vIm;
-        const nWRe = wRe * wlenRe - wIm * wlenIm;
-        const nWIm = wRe * wlenIm + wIm * wlenRe;
-        wRe = nWRe; wIm = nWIm;
-      }
-    }
-  }
-  if (inverse) {
-    for (let i = 0; i < n; i++) { re[i] /= n; im[i] /= n; }
-  }
-}
-
 /** Envelope-only convenience */
 export function envelope(x: number[]): number[] {
   return hilbertAnalytic(x).envelope;
@@ -0,0 +1,71 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Quadrature (IQ) demodulation of RF lines: mix down, low-pass filter, decimate; and the way back.
+ */
+
+import { applyFir, designLowPassFir } from "./fir.js";
+
+/** Complex baseband signal; x(t) = Re{(i + j·q)(t) · e^{j2π·f0·t}} */
+export interface IqSignal {
+  i: number[];
+  q: number[];
+}
+
+export interface IqDemodulationOptions {
+  /** Mixing frequency f0 (Hz), usually the transmit centre frequency */
+  carrierHz: number;
+  /** Keep every Nth sample after filtering (default 1) */
+  decimation?: number;
+  /** Low-pass cutoff (Hz); default the smaller of f0 and the decimated Nyquist rate */
+  cutoffHz?: number;
+  /** Low-pass FIR length (default 63) */
+  taps?: number;
+}
+
+/** Low-pass FIR used by demodulateIq for these options (exposed so it can be reused across channels). */
+export function iqLowPass(sampleRateHz: number, opts: IqDemodulationOptions): number[] {
+  const decimation = Math.max(1, Math.round(opts.decimation ?? 1));
+  const cutoff = opts.cutoffHz ?? Math.min(opts.carrierHz, sampleRateHz / (2 * decimation));
+  return designLowPassFir(cutoff, sampleRateHz, opts.taps ?? 63);
+}
+
+/**
+ * Demodulate a real RF line sampled at `sampleRateHz`: multiply by 2·e^{-j2π·f0·t}, low-pass to
+ * remove the 2·f0 image (and anti-alias), then keep every `decimation`-th sample starting at 0.
+ * Output sample m is at time m·decimation / sampleRateHz.
+ */
+export function demodulateIq(x: number[], sampleRateHz: number, opts: IqDemodulationOptions, lowPass = iqLowPass(sampleRateHz, opts)): IqSignal {
+  const decimation = Math.max(1, Math.round(opts.decimation ?? 1));
+  const w = (2 * Math.PI * opts.carrierHz) / sampleRateHz; // radians per sample
+  return {
+    i: applyFir(x.map((v, n) => 2 * v * Math.cos(w * n)), lowPass, decimation),
+    q: applyFir(x.map((v, n) => -2 * v * Math.sin(w * n)), lowPass, decimation),
+  };
+}
+
+/**
+ * Back to RF at the full rate: IQ is linearly interpolated to every RF sample (out of `length`)
+ * and re-modulated by f0, so RF tools (envelope, TGC, display) apply unchanged.
+ */
+export function remodulateIq(iq: IqSignal, sampleRateHz: number, carrierHz: number, decimation: number, length: number): number[] {
+  const w = (2 * Math.PI * carrierHz) / sampleRateHz;
+  const m = iq.i.length;
+  const out: number[] = new Array(length).fill(0);
+  for (let n = 0; n < length; n++) {
+    const t = n / decimation;
+    const m0 = Math.floor(t);
+    if (m0 >= m) break;
+    const frac = t - m0;
+    const m1 = Math.min(m - 1, m0 + 1);
+    const I = iq.i[m0] * (1 - frac) + iq.i[m1] * frac;
+    const Q = iq.q[m0] * (1 - frac) + iq.q[m1] * frac;
+    out[n] = I * Math.cos(w * n) - Q * Math.sin(w * n);
+  }
+  return out;
+}
+
+/** Envelope (magnitude) of an IQ signal. */
+export function iqEnvelope(iq: IqSignal): number[] {
+  return iq.i.map((v, n) => Math.hypot(v, iq.q[n]));
+}
@@ -0,0 +1,78 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Point-spread position checks for the delay-and-sum beamformers on phased and linear scans.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  DynamicBeamformingConfig,
+  FrameResult,
+  createDelayAndSumApodizedBeamformer,
+  createDelayAndSumBeamformer,
+  createPulsedScattererGenerator,
+  envelope,
+  runFrame,
+  sampleDepth,
+} from "../src/index.js";
+
+/** Scanline parameter and depth (meters) of the brightest envelope sample. */
+function peak(res: FrameResult, cfg: DynamicBeamformingConfig): { param: number; depth: number } {
+  let line = 0, sample = 0, best = -Infinity;
+  res.beamformed.map(envelope).forEach((l, i) => l.forEach((v, s) => {
+    if (v > best) { best = v; line = i; sample = s; }
+  }));
+  return { param: res.scanParams[line], depth: sampleDepth(cfg, sample) };
+}
+
+const pulse = { shape: "gaussian" as const, centerFrequencyHz: 5e6 };
+
+describe("phased delay-and-sum", () => {
+  // one scanline per degree, so the target's angle is on a scanline
+  const cfg: DynamicBeamformingConfig = {
+    timeStep: 2.5e-8,
+    propagationSpeed: 1540,
+    scanning: { type: "phased", numScanLines: 41, range: [-20, 20], samples: 1400 },
+    array: { elements: 64, elementSpacing: 0.0003 },
+  };
+  const angleDeg = 12, range = 0.02;
+  const target = { x: range * Math.sin((angleDeg * Math.PI) / 180), z: range * Math.cos((angleDeg * Math.PI) / 180) };
+  const gen = createPulsedScattererGenerator({ scatterers: [target], pulse });
+
+  test("dynamic focusing images a point at its angle and range", () => {
+    const p = peak(runFrame(cfg, gen, createDelayAndSumBeamformer({ focusing: "dynamic" })), cfg);
+    expect(p.param).toBeCloseTo(angleDeg, 6);
+    expect(Math.abs(p.depth - range)).toBeLessThan(1e-4);
+  });
+
+  test("apodized dynamic focusing does too", () => {
+    const p = peak(runFrame(cfg, gen, createDelayAndSumApodizedBeamformer({ windowType: "hamming", focusing: "dynamic" })), cfg);
+    expect(p.param).toBeCloseTo(angleDeg, 6);
+    expect(Math.abs(p.depth - range)).toBeLessThan(1e-4);
+  });
+});
+
+describe("linear delay-and-sum", () => {
+  // scanlines every 0.5 mm, with a 32-element sliding sub-aperture
+  const cfg: DynamicBeamformingConfig = {
+    timeStep: 2.5e-8,
+    propagationSpeed: 1540,
+    scanning: { type: "linear", numScanLines: 41, range: [-0.01, 0.01], samples: 1200 },
+    array: { elements: 64, elementSpacing: 0.0003, activeElements: 32 },
+  };
+  const target = { x: 0.005, z: 0.015 };
+  const gen = createPulsedScattererGenerator({ scatterers: [target], pulse });
+
+  test("an off-axis point is imaged at its lateral position and depth", () => {
+    const p = peak(runFrame(cfg, gen, createDelayAndSumBeamformer({ focusing: "dynamic" })), cfg);
+    expect(p.param).toBeCloseTo(target.x, 9);
+    expect(Math.abs(p.depth - target.z)).toBeLessThan(1e-4);
+  });
+
+  test("per-scanline transmit events put it at the same place", () => {
+    const focused = { ...cfg, transmit: { focusDepth: target.z } };
+    const p = peak(runFrame(focused, gen, createDelayAndSumBeamformer({ focusing: "dynamic" })), focused);
+    expect(p.param).toBeCloseTo(target.x, 9);
+    expect(Math.abs(p.depth - target.z)).toBeLessThan(1e-4);
+  });
+});
@@ -0,0 +1,78 @@
+/*
+ * Author: Nathaniel <nathaniel@aloe-health.tech>
+ * Created: 2026-10-19
+ * Purpose: Round trips through the NumPy .npy/.npz and MATLAB .mat encoders.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { decodeMat, decodeNpy, decodeNpz, encodeMat, encodeNpy, encodeNpz, npyFromNested, npyToNested } from "../src/index.js";
+
+const cube = [
+  [[1, 2, 3, 4], [5, 6, 7, 8], [9, 10, 11, 12]],
+  [[-1, 0.5, 1e-9, 3.25], [1e6, -2e-3, 0, 7], [Math.PI, Math.E, -Math.SQRT2, 42]],
+];
+
+describe("npy", () => {
+  test("float64 arrays round trip exactly, with their shape", () => {
+    const array = decodeNpy(encodeNpy(npyFromNested(cube)));
+    expect(array.dtype).toBe("float64");
+    expect(array.shape).toEqual([2, 3, 4]);
+    expect(npyToNested(array)).toEqual(cube);
+  });
+
+  test("float32 arrays round trip to single precision", () => {
+    const array = decodeNpy(encodeNpy(npyFromNested(cube, "float32")));
+    expect(array.dtype).toBe("float32");
+    expect(array.shape).toEqual([2, 3, 4]);
+    expect(Array.from(array.data)).toEqual(Array.from(Float32Array.from(cube.flat(2))));
+  });
+
+  test("1-d and 0-d shapes survive the header", () => {
+    expect(decodeNpy(encodeNpy(npyFromNested([1, 2, 3]))).shape).toEqual([3]);
+    const scalar = decodeNpy(encodeNpy(npyFromNested(2.5)));
+    expect(scalar.shape).toEqual([]);
+    expect(npyToNested(scalar)).toBe(2.5);
+  });
+
+  test("ragged input is rejected", () => {
+    expect(() => npyFromNested([[1, 2], [3]])).toThrow(/Ragged/);
+  });
+});
+
+describe("npz", () => {
+  for (const compress of [false, true]) {
+    test(`members round trip by name (${compress ? "deflated" : "stored"})`, () => {
+      const arrays = { beamformed: npyFromNested(cube), scan_params: npyFromNested([-10, 0, 10], "float32") };
+      const decoded = decodeNpz(encodeNpz(arrays, { compress }));
+      expect(Object.keys(decoded).sort()).toEqual(["beamformed", "scan_params"]);
+      expect(npyToNested(decoded.beamformed)).toEqual(cube);
+      expect(decoded.scan_params.dtype).toBe("float32");
+      expect(npyToNested(decoded.scan_params)).toEqual([-10, 0, 10]);
+    });
+  }
+});
+
+describe("mat", () => {
+  const variables = {
+    scalar: 1.5,
+    row: [1, 2, 3],
+    matrix: [[1, 2, 3], [4, 5, 6]],
+    text: "a😀b é",
+    config: { timeStep: 1e-7, scanning: { type: "phased", range: [-10, 10] } },
+    cell: ["x", 2, [3, 4]],
+  };
+
+  for (const compress of [false, true]) {
+    test(`numbers, matrices, text, structs and cells round trip (${compress ? "compressed" : "uncompressed"})`, () => {
+      expect(decodeMat(encodeMat(variables, { compress }))).toEqual(variables);
+    });
+  }
+
+  test("typed arrays are stored as double rows", () => {
+    expect(decodeMat(encodeMat({ weights: Float32Array.from([0.25, 0.5, 1]) })).weights).toEqual([0.25, 0.5, 1]);
+  });
+
+  test("invalid variable names are rejected", () => {
+    expect(() => encodeMat({ "1bad": 1 })).toThrow(/Invalid MATLAB variable name/);
+  });
+});